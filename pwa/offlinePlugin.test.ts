@@ -0,0 +1,36 @@
+import { existsSync } from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { describe, expect, it } from 'vitest'
+import { listModelAssets } from './offlinePlugin'
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url))
+
+describe('listModelAssets', () => {
+  const assets = listModelAssets(ROOT)
+
+  it('precaches only the default model and the WASM the pose worker loads', () => {
+    expect(assets.filter((a) => a.precache).map((a) => a.fileName)).toEqual([
+      'mediapipe/tasks-vision/wasm/vision_wasm_module_internal.js',
+      'mediapipe/tasks-vision/wasm/vision_wasm_module_internal.wasm',
+      'mediapipe/pose_landmarker/pose_landmarker_full.task',
+    ])
+  })
+
+  it('emits every model and WASM variant, for caching on first use', () => {
+    const fileNames = assets.map((a) => a.fileName)
+    expect(fileNames).toContain('mediapipe/pose_landmarker/pose_landmarker_heavy.task')
+    expect(fileNames).toContain('mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.wasm')
+    expect(fileNames).toContain('mediapipe/pose/pose_landmark_lite.tflite')
+  })
+
+  it('reads npm files from the installed packages and the Tasks models from the repo', () => {
+    for (const asset of assets) {
+      if (asset.fileName.endsWith('.task')) {
+        expect(path.dirname(asset.sourcePath)).toBe(path.join(ROOT, 'models', 'pose_landmarker'))
+      } else {
+        expect(existsSync(asset.sourcePath), asset.sourcePath).toBe(true)
+      }
+    }
+  })
+})
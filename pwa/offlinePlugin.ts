@@ -0,0 +1,184 @@
+/**
+ * RunForm PoC – Vite plugin for offline use.
+ * Serves (dev) and emits (build) the MediaPipe model/WASM files under /mediapipe/, and emits
+ * sw.js with the precache list: app shell plus what the default session loads (Tasks backend in the
+ * pose worker, full model). Other models and WASM variants are cached by the service worker on first use.
+ * The Tasks PoseLandmarker models are not on npm and are vendored in models/pose_landmarker/.
+ */
+
+import { createHash } from 'node:crypto'
+import { createReadStream, existsSync, readFileSync, readdirSync, statSync } from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { Plugin, ResolvedConfig } from 'vite'
+
+type ModelAssetGroup = {
+  /** Output directory (relative to base) = URL path the app loads from. */
+  dir: string
+  /** Directory the files are read from, relative to the project root. */
+  source: string
+  files: readonly string[]
+  /** Files the service worker precaches; the rest are cached on first use. */
+  precache: readonly string[]
+}
+
+export type ModelAsset = {
+  /** Output path relative to base. */
+  fileName: string
+  sourcePath: string
+  precache: boolean
+}
+
+const MODEL_ASSET_GROUPS: readonly ModelAssetGroup[] = [
+  {
+    dir: 'mediapipe/pose',
+    source: 'node_modules/@mediapipe/pose',
+    files: [
+      'pose_landmark_full.tflite',
+      'pose_landmark_heavy.tflite',
+      'pose_landmark_lite.tflite',
+      'pose_solution_packed_assets.data',
+      'pose_solution_packed_assets_loader.js',
+      'pose_solution_simd_wasm_bin.data',
+      'pose_solution_simd_wasm_bin.js',
+      'pose_solution_simd_wasm_bin.wasm',
+      'pose_solution_wasm_bin.js',
+      'pose_solution_wasm_bin.wasm',
+      'pose_web.binarypb',
+    ],
+    precache: [],
+  },
+  {
+    dir: 'mediapipe/tasks-vision/wasm',
+    source: 'node_modules/@mediapipe/tasks-vision/wasm',
+    files: [
+      'vision_wasm_internal.js',
+      'vision_wasm_internal.wasm',
+      'vision_wasm_module_internal.js',
+      'vision_wasm_module_internal.wasm',
+      'vision_wasm_nosimd_internal.js',
+      'vision_wasm_nosimd_internal.wasm',
+    ],
+    // The pose worker loads the module build; the others are main-thread fallbacks.
+    precache: ['vision_wasm_module_internal.js', 'vision_wasm_module_internal.wasm'],
+  },
+  {
+    dir: 'mediapipe/pose_landmarker',
+    source: 'models/pose_landmarker',
+    files: ['pose_landmarker_lite.task', 'pose_landmarker_full.task', 'pose_landmarker_heavy.task'],
+    precache: ['pose_landmarker_full.task'],
+  },
+]
+
+/** Every model/WASM file with its output path, source file and whether it is precached. */
+export function listModelAssets(root: string): ModelAsset[] {
+  return MODEL_ASSET_GROUPS.flatMap((group) =>
+    group.files.map((file) => ({
+      fileName: `${group.dir}/${file}`,
+      sourcePath: path.resolve(root, group.source, file),
+      precache: group.precache.includes(file),
+    }))
+  )
+}
+
+const SERVICE_WORKER_FILE = 'sw.js'
+const SERVICE_WORKER_TEMPLATE = fileURLToPath(new URL('./sw.js', import.meta.url))
+const PRECACHE_PLACEHOLDER = 'self.__PRECACHE_MANIFEST__'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm',
+}
+
+function listPublicFiles(dir: string, prefix = ''): string[] {
+  let entries: string[]
+  try {
+    entries = readdirSync(dir)
+  } catch {
+    return []
+  }
+  return entries.flatMap((name) => {
+    const full = path.join(dir, name)
+    const rel = prefix + name
+    return statSync(full).isDirectory() ? listPublicFiles(full, `${rel}/`) : [rel]
+  })
+}
+
+export function offlinePlugin(): Plugin {
+  let config: ResolvedConfig
+
+  return {
+    name: 'runform-offline',
+    // After vite:build-html, so index.html is in the bundle.
+    enforce: 'post',
+
+    configResolved(resolved) {
+      config = resolved
+    },
+
+    // Runs for both dev and build, before any file is served or emitted.
+    buildStart() {
+      const missing = listModelAssets(config.root).filter((asset) => !existsSync(asset.sourcePath))
+      if (missing.length > 0) {
+        this.error(
+          `Missing model files (see models/README.md):\n${missing.map((asset) => asset.sourcePath).join('\n')}`
+        )
+      }
+    },
+
+    configureServer(server) {
+      const assets = listModelAssets(config.root)
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split('?')[0] ?? ''
+        const asset = assets.find((a) => url === `${config.base}${a.fileName}`)
+        if (!asset) {
+          next()
+          return
+        }
+        res.setHeader(
+          'Content-Type',
+          CONTENT_TYPES[path.extname(asset.fileName)] ?? 'application/octet-stream'
+        )
+        createReadStream(asset.sourcePath).pipe(res)
+      })
+    },
+
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256')
+      // Chunk/asset names are content-hashed except index.html, so hash contents too.
+      const bundleUrls = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith('.map'))
+        .sort()
+      for (const fileName of bundleUrls) {
+        const output = bundle[fileName]!
+        hash.update(fileName)
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      }
+
+      const modelUrls: string[] = []
+      for (const asset of listModelAssets(config.root)) {
+        const source = readFileSync(asset.sourcePath)
+        this.emitFile({ type: 'asset', fileName: asset.fileName, source })
+        if (asset.precache) modelUrls.push(asset.fileName)
+        hash.update(`${asset.fileName}:${source.byteLength}`)
+      }
+
+      const publicUrls = listPublicFiles(config.publicDir).sort()
+      for (const fileName of publicUrls) {
+        hash.update(fileName)
+        hash.update(readFileSync(path.join(config.publicDir, fileName)))
+      }
+
+      const manifest = {
+        version: hash.digest('hex').slice(0, 12),
+        urls: [...bundleUrls, ...publicUrls, ...modelUrls],
+      }
+      const template = readFileSync(SERVICE_WORKER_TEMPLATE, 'utf-8')
+      this.emitFile({
+        type: 'asset',
+        fileName: SERVICE_WORKER_FILE,
+        source: template.replace(PRECACHE_PLACEHOLDER, JSON.stringify(manifest)),
+      })
+    },
+  }
+}
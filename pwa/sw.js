@@ -0,0 +1,72 @@
+/**
+ * RunForm PoC – Service worker (offline app shell + pose model files).
+ * Template: offlinePlugin.ts fills in the precache manifest (version + URLs) at build time.
+ * Precached files (app shell, default pose model and its WASM) are served cache-first; other
+ * same-origin files, such as the other models and WASM variants, are cached on first use.
+ */
+
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST__
+const CACHE_PREFIX = 'runform-'
+const PRECACHE_NAME = `${CACHE_PREFIX}precache-${PRECACHE_MANIFEST.version}`
+const RUNTIME_NAME = `${CACHE_PREFIX}runtime-${PRECACHE_MANIFEST.version}`
+
+function toScopeUrl(path) {
+  return new URL(path, self.registration.scope).href
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(PRECACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_MANIFEST.urls.map(toScopeUrl)))
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  const keep = [PRECACHE_NAME, RUNTIME_NAME]
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && !keep.includes(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+// The page asks the waiting worker to take over when the user accepts an update.
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting()
+})
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+/** Single-page app: every navigation gets the precached index.html. */
+async function appShell(request) {
+  const cached = await caches.match(toScopeUrl('index.html'))
+  return cached ?? fetch(request)
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(appShell(request))
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request, RUNTIME_NAME))
+  }
+})
@@ -4,9 +4,58 @@ import {
   stopPoseRunner,
   pausePoseRunner,
   resumePoseRunner,
-} from './pose/poseRunner'
-import type { FrameQualityHint } from './pose/frameQuality'
-import { MetricsSession, type MetricsSnapshot } from './pose/metrics'
+  startPoseRunnerTracking,
+  getPoseRunnerStepLog,
+  getPoseRunnerRecording,
+  getPoseRunnerKeyFrames,
+  setLandmarkFilter,
+  getLandmarkFilter,
+} from './pose/activePoseRunner'
+import type { CalibrationFramePayload, PoseThread } from './pose/poseRunner'
+import type { PoseRunSettings } from './pose/frameRateGovernor'
+import type { StrideSnapshot } from './pose/strideKeyFrames'
+import { parseLandmarkRecording, type LandmarkRecording } from './pose/landmarkRecording'
+import { replayLandmarkRecording, type LandmarkReplayResult } from './pose/landmarkReplay'
+import {
+  type CameraView,
+  type FrameQualityHint,
+  type SetupFraming,
+} from './pose/frameQuality'
+import type { ImageIssue } from './pose/imageQuality'
+import {
+  CALIBRATION_STAGE_MS,
+  CalibrationSession,
+  type CalibrationIssue,
+  type CalibrationReport,
+  type CalibrationStage,
+} from './pose/calibration'
+import type { BodyDimensions, StandingPosture } from './pose/metrics'
+import type { CameraShiftEvent } from './pose/cameraShift'
+import {
+  checkSetupFraming,
+  drawSetupGuide,
+  SETUP_READY_MS,
+  SetupReadiness,
+  type SetupCheck,
+} from './pose/setupGuide'
+import {
+  CAMERA_POSE_BACKENDS,
+  canRunInWorker,
+  DEFAULT_POSE_BACKEND,
+  type CameraPoseBackendKind,
+  type ModelComplexity,
+} from './pose/poseBackend'
+import {
+  LANDMARK_FILTER_KINDS,
+  type LandmarkFilterKind,
+  type LandmarkJitterStats,
+} from './pose/landmarkFilter'
+import {
+  CADENCE_MIN_CONFIDENCE,
+  isMetricValidForView,
+  type MetricKey,
+  type MetricsSnapshot,
+} from './pose/metrics'
 import {
   requestScreenWakeLock,
   releaseScreenWakeLock,
@@ -22,25 +71,134 @@ import {
   loadSessions,
   type SessionSummary,
   type SessionSample,
+  type CameraShiftGap,
+  OVERSTRIDE_INDEX_THRESHOLD,
+  ASYMMETRY_THRESHOLD_PCT,
+  PELVIC_DROP_THRESHOLD_DEG,
+  KNEE_VALGUS_THRESHOLD_DEG,
+  JOINT_LABEL,
 } from './sessionSummary'
+import {
+  OCCLUSION_MIN_HIDDEN_SHARE,
+  type BodyJoint,
+  type JointVisibilitySummary,
+} from './pose/landmarkVisibility'
 import { Sparkline } from './Sparkline'
+import { KeyFrameFilmstrip } from './KeyFrameFilmstrip'
 import { openAffiliate, getAffiliateDomain } from './affiliatelinks'
 import { saveFeedback, hasFeedbackForSession } from './feedback'
+import {
+  loadProfile,
+  saveProfile,
+  computeCmPerUnit,
+  isValidHeight,
+  HEIGHT_MIN_CM,
+  HEIGHT_MAX_CM,
+} from './profile'
+import {
+  deleteSessionVideo,
+  isSessionVideoSupported,
+  loadSessionVideo,
+  pruneSessionVideos,
+  sampleIndexAtVideoTime,
+  saveSessionVideo,
+  SessionVideoRecorder,
+} from './sessionVideo'
+import {
+  deleteSessionKeyFrames,
+  loadSessionKeyFrames,
+  pruneSessionKeyFrames,
+  saveSessionKeyFrames,
+} from './sessionKeyFrames'
+import {
+  listCameras,
+  loadCameraId,
+  saveCameraId,
+  subscribeCameraChanges,
+  type CameraOption,
+} from './cameras'
+import {
+  applyUpdate,
+  getPwaStatus,
+  promptInstall,
+  subscribePwaStatus,
+  type OfflineState,
+} from './pwa'
 import './App.css'
 
 export type ViewMode = 'live' | 'summary' | 'history'
 
-const METRICS_UPDATE_INTERVAL_MS = 500
-
 const RELIABILITY_LABEL: Record<'High' | 'Medium' | 'Low', string> = {
   High: 'Høj',
   Medium: 'Mellem',
   Low: 'Lav',
 }
 
+const METRIC_LABEL: Record<MetricKey, string> = {
+  cadence: 'Kadence',
+  vo: 'VO',
+  contactTime: 'Kontakttid',
+  asymmetry: 'Asymmetri',
+  jointAngles: 'Ledvinkler',
+  trunkLean: 'Fremadlæn',
+  overstride: 'Overstride',
+  armSwing: 'Armsving',
+  armCrossover: 'Arme over midtlinjen',
+  pelvicDrop: 'Hoftefald',
+  kneeValgus: 'Knæ indad',
+}
+
+const CAMERA_VIEW_LABEL: Record<CameraView, string> = {
+  side: 'Fra siden',
+  front: 'Forfra',
+}
+
+const CALIBRATION_RATING_LABEL: Record<CalibrationReport['rating'], string> = {
+  good: 'God',
+  fair: 'Acceptabel',
+  poor: 'Usikker',
+}
+
+const CALIBRATION_ISSUE_TEXT: Record<CalibrationIssue, string> = {
+  unsteady: 'Du bevægede dig under stående kalibrering – hoftehøjden kan være upræcis.',
+  legsHidden: 'Benene var ikke synlige – overstride kan ikke beregnes.',
+  noWalking: 'Gangtrinnet blev sprunget over – benlængden er kun målt stående.',
+  legLengthMismatch:
+    'Benlængden under gang afveg fra stående – tjek at kameraet står stille og hele kroppen er med.',
+  lowQuality: 'Lav billedkvalitet under kalibreringen – mere lys og fri udsigt giver sikrere mål.',
+}
+
+const POSE_BACKEND_LABEL: Record<CameraPoseBackendKind, string> = {
+  legacy: 'MediaPipe Pose',
+  tasks: 'PoseLandmarker (Tasks)',
+}
+
+const MODEL_COMPLEXITY_LABEL: Record<ModelComplexity, string> = {
+  0: 'Lite',
+  1: 'Full',
+  2: 'Heavy',
+}
+
+const POSE_THREAD_LABEL: Record<PoseThread, string> = {
+  main: 'hovedtråd',
+  worker: 'worker',
+}
+
+const LANDMARK_FILTER_LABEL: Record<LandmarkFilterKind, string> = {
+  none: 'Ingen',
+  oneEuro: 'One-Euro',
+  kalman: 'Kalman',
+}
+
+const OFFLINE_STATE_LABEL: Record<OfflineState, string> = {
+  unsupported: 'ikke tilgængelig',
+  installing: 'henter…',
+  ready: 'klar',
+  error: 'fejl',
+}
+
 const ONBOARDING_STORAGE_KEY = 'runform-poc-onboarding-seen'
 const MESSAGE_THROTTLE_MS = 2000
-const CALIBRATION_DURATION_MS = 5000
 const GOOD_TIME_UPDATE_INTERVAL_MS = 100
 
 function getOnboardingSeen(): boolean {
@@ -59,48 +217,247 @@ function setOnboardingSeen(): void {
   }
 }
 
+/** Setup hint per pixel-based image problem (light, blur). */
+const IMAGE_ISSUE_MESSAGE: Record<ImageIssue, string> = {
+  dark: 'For mørkt – tænd mere lys i rummet',
+  overexposed: 'For lyst – undgå direkte sol eller lampe mod kameraet',
+  backlight: 'Modlys – stil kameraet så vinduet eller lyset ikke er bag dig',
+  motionBlur: 'Billedet er sløret – mere lys giver skarpere billeder, ellers flyt kameraet lidt væk',
+  lowContrast: 'Lav kontrast – mere lys på dig eller en roligere baggrund',
+}
+
+/** Light problems first (they also hide the body), then framing, then blur. */
 function pickAutoCheckMessage(
   poseDetected: boolean,
   frameQuality: number | null,
   hint: FrameQualityHint | null
 ): string | null {
-  if (!poseDetected) return 'Jeg kan ikke se dig – kom i billedet'
+  const imageIssue = hint?.image?.issue ?? null
+  const lightIssue = imageIssue != null && imageIssue !== 'motionBlur' ? imageIssue : null
+  if (!poseDetected) {
+    return lightIssue ? IMAGE_ISSUE_MESSAGE[lightIssue] : 'Jeg kan ikke se dig – kom i billedet'
+  }
+  if (lightIssue) return IMAGE_ISSUE_MESSAGE[lightIssue]
   if (!hint?.noseAndAnklesOk) return 'Prøv at få hele kroppen i billedet'
+  if (imageIssue === 'motionBlur') return IMAGE_ISSUE_MESSAGE.motionBlur
   if (frameQuality != null && frameQuality < 55)
-    return 'Mere lys og/eller flyt dig lidt'
+    return 'Dele af kroppen er skjult – stå frit i billedet'
   const sw = hint?.shoulderWidthNormalized
   if (sw != null && sw > 0.35) return 'Gå lidt tilbage'
   if (sw != null && sw < 0.12) return 'Kom lidt tættere på'
   return null
 }
 
-function mean(arr: number[]): number {
-  if (arr.length === 0) return 0
-  return arr.reduce((a, b) => a + b, 0) / arr.length
+/** Session-average governor settings, e.g. "Full · 75% opløsning". */
+function formatModelSettings(s: Pick<SessionSummary, 'modelComplexityAvg' | 'inputScaleAvg'>): string {
+  const complexity = Math.round(s.modelComplexityAvg ?? 1) as ModelComplexity
+  const scale = Math.round((s.inputScaleAvg ?? 1) * 100)
+  return `${MODEL_COMPLEXITY_LABEL[complexity]}${scale < 100 ? ` · ${scale}% opløsning` : ''}`
+}
+
+/** One-line result of a landmark replay for the Debug panel. */
+function formatReplayResult(result: LandmarkReplayResult): string {
+  const frames = `${result.frameCount} frames (${result.poseFrameCount} med pose)`
+  const snap = result.snapshot
+  if (!snap) return `${frames} · ingen tracking (kalibrering blev ikke færdig)`
+  return [
+    frames,
+    `${result.steps.length} skridt`,
+    `kadence ${snap.cadence} spm`,
+    `kontakt ${snap.contactTimeMs > 0 ? `${Math.round(snap.contactTimeMs)} ms` : '–'}`,
+    `VO ${snap.voProxy.toFixed(3)}`,
+  ].join(' · ')
+}
+
+/** "(usikker)" after a metric a hidden joint made less reliable than the session. */
+function occlusionBadge(s: SessionSummary, metric: MetricKey) {
+  const reliability = s.metricReliability?.[metric]
+  if (!reliability) return null
+  return (
+    <span
+      className="metric-low-confidence"
+      title={`Pålidelighed: ${RELIABILITY_LABEL[reliability]} – et led, målet bruger, var ofte skjult.`}
+    >
+      {' '}(usikker)
+    </span>
+  )
+}
+
+/** Joints with visibility data, left and right side per row. */
+function groupJointVisibility(
+  joints: JointVisibilitySummary[]
+): { joint: BodyJoint; L?: JointVisibilitySummary; R?: JointVisibilitySummary }[] {
+  const rows = new Map<BodyJoint, { L?: JointVisibilitySummary; R?: JointVisibilitySummary }>()
+  for (const j of joints) {
+    const joint = j.key.slice(0, -1) as BodyJoint
+    const row = rows.get(joint) ?? {}
+    row[j.key.endsWith('L') ? 'L' : 'R'] = j
+    rows.set(joint, row)
+  }
+  return [...rows.entries()].map(([joint, row]) => ({ joint, ...row }))
+}
+
+function isOccluded(j: JointVisibilitySummary | undefined): boolean {
+  return j != null && 1 - j.visibleShare >= OCCLUSION_MIN_HIDDEN_SHARE
+}
+
+/** Setup guide target and body box on its own canvas at video size (the runner owns the overlay). */
+function drawSetupCanvas(
+  canvas: HTMLCanvasElement | null,
+  video: HTMLVideoElement | null,
+  framing: SetupFraming | null,
+  check: SetupCheck | null
+): void {
+  if (!canvas || !video?.videoWidth || !video.videoHeight) return
+  if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+  }
+  const ctx = canvas.getContext('2d')
+  if (ctx) drawSetupGuide(ctx, framing, check)
+}
+
+/** One line per failing setup check; directions as seen in the (possibly mirrored) preview. */
+function getSetupMessages(check: SetupCheck, mirrored: boolean): string[] {
+  const messages: string[] = []
+  if (check.distance === 'feetHidden') {
+    messages.push('Fødderne er ikke med – gå tilbage eller vip kameraet lidt ned')
+  } else if (check.distance === 'tooClose') {
+    messages.push('Gå lidt tilbage – hoved og fødder skal være inden for figuren')
+  } else if (check.distance === 'tooFar') {
+    messages.push('Kom lidt tættere på kameraet')
+  }
+  if (check.centring !== 'ok') {
+    const shownLeft = (check.centring === 'towardMinX') !== mirrored
+    messages.push(`Flyt dig lidt mod ${shownLeft ? 'højre' : 'venstre'} i billedet`)
+  }
+  if (check.tilt === 'tilted') {
+    messages.push('Kameraet hælder – stil telefonen lige, så du står lodret i billedet')
+  }
+  if (!check.qualityOk) {
+    messages.push('Kroppen ses ikke tydeligt nok – mere lys og fri udsigt til hofter og skuldre')
+  }
+  return messages
 }
 
-export type Phase = 'idle' | 'calibrating' | 'tracking'
+function downloadJson(json: string, filename: string): void {
+  const blob = new Blob([json], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function formatCalibrationReport(report: CalibrationReport): string {
+  const walking =
+    report.walkingQuality != null ? `gang ${report.walkingQuality}` : 'gang sprunget over'
+  return `${CALIBRATION_RATING_LABEL[report.rating]} (kvalitet stående ${report.standingQuality} · ${walking})`
+}
+
+/** Why the charts have gaps: when the camera moved and how long metrics were paused. */
+function formatCameraShifts(shifts: CameraShiftGap[]): string {
+  const times = shifts
+    .map((g) => `${Math.floor(g.atSec / 60)}:${String(g.atSec % 60).padStart(2, '0')}`)
+    .join(', ')
+  const pausedSec = shifts.reduce((sum, g) => sum + g.durationSec, 0)
+  const count = shifts.length === 1 ? 'én gang' : `${shifts.length} gange`
+  const resumed = shifts.some((g) => g.rebaselined) ? ' og fortsatte med ny baseline' : ''
+  const unresolved = shifts.some((g) => !g.rebaselined)
+    ? ' Efter sidste flytning blev billedet ikke roligt igen før stop.'
+    : ''
+  return `Kameraet flyttede sig ${count} (efter ${times}). Målingerne holdt pause i ${pausedSec} sek${resumed}.${unresolved}`
+}
+
+/** Length in cm with a profile height, else as a share of the image height. */
+function formatBodyLength(value: number, cmPerUnit: number | null): string {
+  return cmPerUnit != null
+    ? `${Math.round(value * cmPerUnit)} cm`
+    : `${Math.round(value * 100)}% af billedhøjden`
+}
+
+/** Measured body dimensions and standing posture; widths and tilts only from the front. */
+function getCalibrationReportRows(baseline: Baseline): string[] {
+  const { body, posture, cmPerUnit, view } = baseline
+  const rows: string[] = []
+  if (baseline.legLength != null) {
+    rows.push(`Benlængde: ${formatBodyLength(baseline.legLength, cmPerUnit)}`)
+  }
+  if (baseline.torsoLength != null) {
+    rows.push(`Overkrop: ${formatBodyLength(baseline.torsoLength, cmPerUnit)}`)
+  }
+  if (view === 'front' && body.shoulderWidth != null) {
+    rows.push(`Skulderbredde: ${formatBodyLength(body.shoulderWidth, cmPerUnit)}`)
+  }
+  if (view === 'front' && body.hipWidth != null) {
+    rows.push(`Hoftebredde: ${formatBodyLength(body.hipWidth, cmPerUnit)}`)
+  }
+  if (posture.kneeFlexionDeg != null) rows.push(`Knæbøjning stående: ${posture.kneeFlexionDeg}°`)
+  rows.push(`Fremadlæn stående: ${Math.round(baseline.trunkLeanDeg * 10) / 10}°`)
+  if (view === 'front' && posture.pelvicTiltDeg != null) {
+    rows.push(`Bækkenhældning: ${posture.pelvicTiltDeg}°`)
+  }
+  if (view === 'front' && posture.shoulderTiltDeg != null) {
+    rows.push(`Skulderhældning: ${posture.shoulderTiltDeg}°`)
+  }
+  return rows
+}
+
+/** setup = camera setup guide before calibration (live camera only). */
+export type Phase = 'idle' | 'setup' | 'calibrating' | 'tracking'
 
 export type Baseline = {
   hipY: number
   torsoY: number
+  /** Standing trunk lean (°); tracking lean is reported relative to this. */
+  trunkLeanDeg: number
+  /** Hip → knee → ankle (image-height units); null if legs were not visible. */
+  legLength: number | null
+  /** Side or front, from body width during calibration; decides which metrics are shown. */
+  view: CameraView
+  /** Centimetres per image-height unit from profile height; null = no height entered. */
+  cmPerUnit: number | null
+  /** Standing torso length (image-height units); shown in the calibration report. */
+  torsoLength: number | null
+  /** Shoulder / hip width (image-height units) from standing. */
+  body: BodyDimensions
+  /** Natural standing angles; frontal pelvic drop is measured relative to the pelvic tilt. */
+  posture: StandingPosture
+  calibration: CalibrationReport
 }
 
 function App() {
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const setupCanvasRef = useRef<HTMLCanvasElement>(null)
+  const setupReadinessRef = useRef(new SetupReadiness())
+  const lastSetupStateUpdateRef = useRef<number>(0)
   const containerRef = useRef<HTMLDivElement>(null)
   const lastMessageTimeRef = useRef<number>(0)
   const displayedMessageRef = useRef<string | null>(null)
   const phaseRef = useRef<Phase>('idle')
-  const goodTimeAccumulatedRef = useRef<number>(0)
-  const lastGoodTimestampRef = useRef<number>(0)
-  const samplesMidHipYRef = useRef<number[]>([])
-  const samplesMidShoulderYRef = useRef<number[]>([])
+  const calibrationRef = useRef(new CalibrationSession())
+  const cameraShiftsRef = useRef<CameraShiftEvent[]>([])
   const lastGoodTimeStateUpdateRef = useRef<number>(0)
   const calibrationGoodFrameRef = useRef<boolean>(false)
   const baselineRef = useRef<Baseline | null>(null)
-  const metricsSessionRef = useRef<MetricsSession | null>(null)
+  /** Pose FPS sum/count per thread, for the main thread vs worker comparison in Debug. */
+  const threadFpsAccumRef = useRef<Record<PoseThread, { sum: number; count: number }>>({
+    main: { sum: 0, count: 0 },
+    worker: { sum: 0, count: 0 },
+  })
+  const poseThreadRef = useRef<PoseThread | null>(null)
+  const fpsRef = useRef(0)
+  const poseSettingsRef = useRef<PoseRunSettings | null>(null)
+  /** Video time (ms) of the file being analyzed; null = live camera (performance clock). */
+  const videoClockRef = useRef<number | null>(null)
+  const sourceFileRef = useRef<string | null>(null)
+  const handleStopRef = useRef<(() => Promise<void>) | null>(null)
+  const videoRecorderRef = useRef<SessionVideoRecorder | null>(null)
+  const recordVideoRef = useRef(false)
+  const previewMirroredRef = useRef(true)
+  const summaryVideoElRef = useRef<HTMLVideoElement>(null)
   const trackingStartTimeRef = useRef<number>(0)
   const sessionStartTimeRef = useRef<number>(0)
   const activeStartMsRef = useRef<number>(0)
@@ -109,7 +466,7 @@ function App() {
   const isRunningRef = useRef(false)
   const sessionSamplesRef = useRef<SessionSample[]>([])
   const frameQualityRef = useRef<number | null>(null)
-  const lastGoodCadenceRef = useRef<number | null>(null)
+  const [lastGoodCadence, setLastGoodCadence] = useState<number | null>(null)
   const pausedRef = useRef(false)
 
   const [isRunning, setIsRunning] = useState(false)
@@ -120,13 +477,32 @@ function App() {
   const [activeTimeMs, setActiveTimeMs] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [fps, setFps] = useState(0)
+  const [jitterStats, setJitterStats] = useState<LandmarkJitterStats | null>(null)
+  const [poseBackendKind, setPoseBackendKind] =
+    useState<CameraPoseBackendKind>(DEFAULT_POSE_BACKEND)
+  const [useWorker, setUseWorker] = useState(true)
+  const [poseThread, setPoseThread] = useState<PoseThread | null>(null)
+  const [poseSettings, setPoseSettings] = useState<PoseRunSettings | null>(null)
+  const [threadFps, setThreadFps] = useState<Record<PoseThread, number | null>>({
+    main: null,
+    worker: null,
+  })
+  const [landmarkFilterKind, setLandmarkFilterKind] = useState<LandmarkFilterKind>(
+    () => getLandmarkFilter()
+  )
   const [poseDetected, setPoseDetected] = useState(false)
   const [frameQuality, setFrameQuality] = useState<number | null>(null)
   const [hint, setHint] = useState<FrameQualityHint | null>(null)
   const [hintMessage, setHintMessage] = useState<string | null>(null)
   const [showOnboarding, setShowOnboarding] = useState(() => !getOnboardingSeen())
   const [goodTimeMs, setGoodTimeMs] = useState(0)
+  const [calibrationStage, setCalibrationStage] = useState<CalibrationStage>('standing')
+  const [calibrationReportDismissed, setCalibrationReportDismissed] = useState(false)
+  /** Camera moved during tracking; metrics are paused until the runner's position is steady. */
+  const [cameraMoved, setCameraMoved] = useState(false)
   const [calibrationGoodFrame, setCalibrationGoodFrame] = useState(false)
+  /** Latest setup check and how long it has passed in a row; null until a body is seen. */
+  const [setupStatus, setSetupStatus] = useState<{ check: SetupCheck; readyMs: number } | null>(null)
   const [baseline, setBaseline] = useState<Baseline | null>(null)
   const [metricsSnapshot, setMetricsSnapshot] = useState<MetricsSnapshot | null>(null)
   const [view, setView] = useState<ViewMode>('live')
@@ -140,7 +516,48 @@ function App() {
   const [shareLinkFeedback, setShareLinkFeedback] = useState<string | null>(null)
   const [feedbackSubmittedSessionId, setFeedbackSubmittedSessionId] = useState<string | null>(null)
   const [leadEmail, setLeadEmail] = useState('')
+  const [profileHeight, setProfileHeight] = useState(
+    () => loadProfile().heightCm?.toString() ?? ''
+  )
   const [leadSubmitted, setLeadSubmitted] = useState(false)
+  const [pwaStatus, setPwaStatus] = useState(getPwaStatus)
+  /** Landmark stream of the last finished session (kept in memory only, for export). */
+  const [landmarkRecording, setLandmarkRecording] = useState<{
+    sessionId: string
+    recording: LandmarkRecording
+  } | null>(null)
+  const [replayStatus, setReplayStatus] = useState<string | null>(null)
+  const [videoAnalysis, setVideoAnalysis] = useState<{ fileName: string; percent: number } | null>(null)
+  const [cameras, setCameras] = useState<CameraOption[]>([])
+  /** Chosen camera device; null = default front camera. */
+  const [cameraId, setCameraId] = useState<string | null>(loadCameraId)
+  /** Preview (video + overlay) mirrored like a selfie; landmarks themselves are never mirrored. */
+  const [previewMirrored, setPreviewMirrored] = useState(true)
+  /** Record camera + skeleton while tracking (camera sessions only). */
+  const [recordVideo, setRecordVideo] = useState(false)
+  /** Video of the displayed summary, with each sample's position in it. */
+  const [summaryVideo, setSummaryVideo] = useState<{
+    sessionId: string
+    url: string
+    sampleVideoTimesMs: number[]
+  } | null>(null)
+  const [videoCursor, setVideoCursor] = useState<{ sessionId: string; index: number } | null>(
+    null
+  )
+  /** Stride key frames of the displayed summary. */
+  const [summaryKeyFrames, setSummaryKeyFrames] = useState<{
+    sessionId: string
+    snapshots: StrideSnapshot[]
+    imageUrls: string[][]
+  } | null>(null)
+
+  useEffect(() => subscribePwaStatus(setPwaStatus), [])
+
+  useEffect(() => {
+    const refresh = () => void listCameras().then(setCameras)
+    refresh()
+    return subscribeCameraChanges(refresh)
+  }, [])
 
   useEffect(() => {
     phaseRef.current = phase
@@ -162,6 +579,17 @@ function App() {
     frameQualityRef.current = frameQuality
   }, [frameQuality])
 
+  useEffect(() => {
+    recordVideoRef.current = recordVideo
+  }, [recordVideo])
+
+  useEffect(() => {
+    previewMirroredRef.current = previewMirrored
+  }, [previewMirrored])
+
+  /** Session clock: video time when analyzing a file, so durations follow the video. */
+  const sessionNow = useCallback(() => videoClockRef.current ?? performance.now(), [])
+
   const requestWakeLock = useCallback(async () => {
     const s = await requestScreenWakeLock()
     if (s) {
@@ -182,7 +610,8 @@ function App() {
   }, [])
 
   useEffect(() => {
-    const needLock = isRunning && (phase === 'calibrating' || (phase === 'tracking' && !paused))
+    const needLock =
+      isRunning && (phase === 'setup' || phase === 'calibrating' || (phase === 'tracking' && !paused))
     if (!needLock) releaseWakeLock()
   }, [isRunning, phase, paused, releaseWakeLock])
 
@@ -190,7 +619,9 @@ function App() {
     const handleVisibility = () => {
       if (document.visibilityState !== 'visible') return
       const ph = phaseRef.current
-      const needLock = isRunningRef.current && (ph === 'calibrating' || (ph === 'tracking' && !pausedRef.current))
+      const needLock =
+        isRunningRef.current &&
+        (ph === 'setup' || ph === 'calibrating' || (ph === 'tracking' && !pausedRef.current))
       if (needLock && !wakeLockSentinelRef.current) requestWakeLock()
     }
     document.addEventListener('visibilitychange', handleVisibility)
@@ -222,109 +653,144 @@ function App() {
     []
   )
 
+  /** Setup done (or skipped): calibration counts good frames from here. */
+  const beginCalibration = useCallback(() => {
+    if (phaseRef.current !== 'setup') return
+    setPhase('calibrating')
+    phaseRef.current = 'calibrating'
+    setSetupStatus(null)
+  }, [])
+
+  // Status arrives once a second: keep the empty target drawn while no pose frames come in.
   useEffect(() => {
-    if (!isRunning) {
-      setHintMessage(null)
-      displayedMessageRef.current = null
-      return
+    if (phase === 'setup' && !poseDetected) {
+      drawSetupCanvas(setupCanvasRef.current, videoRef.current, null, null)
+    }
+  }, [phase, poseDetected, fps])
+
+  /** Both calibration stages done (or walking skipped): lock the baseline and start tracking. */
+  const completeCalibration = useCallback(() => {
+    if (phaseRef.current !== 'calibrating') return
+    const { report, standingHeight, ...measured } = calibrationRef.current.finish()
+    calibrationRef.current = new CalibrationSession()
+    const bl: Baseline = {
+      ...measured,
+      cmPerUnit: computeCmPerUnit(standingHeight, loadProfile().heightCm),
+      calibration: report,
     }
-    const desired = pickAutoCheckMessage(poseDetected, frameQuality, hint)
-    updateHintMessage(desired, performance.now())
-  }, [isRunning, poseDetected, frameQuality, hint, updateHintMessage])
+    setBaseline(bl)
+    baselineRef.current = bl
+    setGoodTimeMs(0)
+    startPoseRunnerTracking(bl)
+    const video = videoRef.current
+    const overlay = canvasRef.current
+    if (recordVideoRef.current && videoClockRef.current == null && video && overlay) {
+      const recorder = new SessionVideoRecorder(video, overlay, previewMirroredRef.current)
+      videoRecorderRef.current = recorder.start() ? recorder : null
+    }
+    const now = sessionNow()
+    trackingStartTimeRef.current = now
+    activeStartMsRef.current = now
+    activeAccumMsRef.current = 0
+    setPhase('tracking')
+    phaseRef.current = 'tracking'
+    setPaused(false)
+    setActiveTimeMs(0)
+  }, [sessionNow])
 
   const handleCalibrationFrame = useCallback(
     (
-      data: { midHipY: number | null; midShoulderY: number | null; isGood: boolean },
+      data: CalibrationFramePayload,
       timestampMs: number
     ) => {
-      if (phaseRef.current !== 'calibrating') return
-
-      if (data.isGood !== calibrationGoodFrameRef.current) {
-        calibrationGoodFrameRef.current = data.isGood
-        setCalibrationGoodFrame(data.isGood)
-      }
-
-      if (!data.isGood || data.midHipY == null || data.midShoulderY == null)
+      if (phaseRef.current === 'setup') {
+        const check = data.framing ? checkSetupFraming(data.framing, data.isGood) : null
+        const readyMs = setupReadinessRef.current.update(check?.ok ?? false, timestampMs)
+        drawSetupCanvas(setupCanvasRef.current, videoRef.current, data.framing, check)
+        if (readyMs >= SETUP_READY_MS) {
+          beginCalibration()
+        } else if (
+          timestampMs - lastSetupStateUpdateRef.current >= GOOD_TIME_UPDATE_INTERVAL_MS
+        ) {
+          lastSetupStateUpdateRef.current = timestampMs
+          setSetupStatus(check ? { check, readyMs } : null)
+        }
         return
-
-      if (lastGoodTimestampRef.current === 0) {
-        lastGoodTimestampRef.current = timestampMs
-      } else {
-        const delta = timestampMs - lastGoodTimestampRef.current
-        goodTimeAccumulatedRef.current += delta
-        lastGoodTimestampRef.current = timestampMs
       }
+      if (phaseRef.current !== 'calibrating') return
 
-      samplesMidHipYRef.current.push(data.midHipY)
-      samplesMidShoulderYRef.current.push(data.midShoulderY)
-
-      const now = timestampMs
+      const progress = calibrationRef.current.addFrame(data, timestampMs)
+      if (progress.isGood !== calibrationGoodFrameRef.current) {
+        calibrationGoodFrameRef.current = progress.isGood
+        setCalibrationGoodFrame(progress.isGood)
+      }
       if (
-        now - lastGoodTimeStateUpdateRef.current >= GOOD_TIME_UPDATE_INTERVAL_MS
+        timestampMs - lastGoodTimeStateUpdateRef.current >= GOOD_TIME_UPDATE_INTERVAL_MS
       ) {
-        lastGoodTimeStateUpdateRef.current = now
-        const capped = Math.min(
-          CALIBRATION_DURATION_MS,
-          goodTimeAccumulatedRef.current
-        )
-        setGoodTimeMs(capped)
-      }
-
-      if (goodTimeAccumulatedRef.current >= CALIBRATION_DURATION_MS) {
-        const hipY = mean(samplesMidHipYRef.current)
-        const torsoY = mean(samplesMidShoulderYRef.current)
-        const bl = { hipY, torsoY }
-        setBaseline(bl)
-        baselineRef.current = bl
-        setGoodTimeMs(CALIBRATION_DURATION_MS)
-        metricsSessionRef.current = new MetricsSession()
-        const now = performance.now()
-        trackingStartTimeRef.current = now
-        activeStartMsRef.current = now
-        activeAccumMsRef.current = 0
-        setPhase('tracking')
-        phaseRef.current = 'tracking'
-        setPaused(false)
-        setActiveTimeMs(0)
-        goodTimeAccumulatedRef.current = 0
-        lastGoodTimestampRef.current = 0
-        samplesMidHipYRef.current = []
-        samplesMidShoulderYRef.current = []
+        lastGoodTimeStateUpdateRef.current = timestampMs
+        setCalibrationStage(progress.stage)
+        setGoodTimeMs(progress.goodMs)
       }
+      if (progress.done) completeCalibration()
     },
-    []
+    [beginCalibration, completeCalibration]
   )
 
-  const handleTrackingFrame = useCallback(
-    (
-      data: {
-        ankleY: number
-        kneeY: number
-        ankleVis: number
-        kneeVis: number
-        ankleUsed: 'L' | 'R'
-        midHipY: number
-      },
-      timestampMs: number
-    ) => {
-      if (phaseRef.current !== 'tracking') return
-      const bl = baselineRef.current
-      if (!bl) return
-      metricsSessionRef.current?.update(
-        data.ankleY,
-        data.kneeY,
-        data.ankleVis,
-        data.kneeVis,
-        data.ankleUsed,
-        data.midHipY,
-        bl.hipY,
-        timestampMs
-      )
-    },
-    []
-  )
+  const skipCalibrationWalking = useCallback(() => {
+    calibrationRef.current.skipWalking()
+    if (calibrationRef.current.done) completeCalibration()
+  }, [completeCalibration])
+
+  /** Throttled snapshots from the runner (main thread or worker) → live metrics + session samples. */
+  const handleMetricsSnapshot = useCallback((snap: MetricsSnapshot, timestampMs: number) => {
+    if (phaseRef.current !== 'tracking' || pausedRef.current) return
+    if (snap.cadence >= 80) setLastGoodCadence(snap.cadence)
+    setMetricsSnapshot(snap)
+    sessionSamplesRef.current.push({
+      t: timestampMs,
+      cadence: snap.cadence,
+      cadenceConfidence: snap.cadenceConfidence,
+      voProxy: snap.voProxy,
+      voCm: snap.voCm,
+      quality: frameQualityRef.current ?? 0,
+      contactTimeMs: snap.contactTimeMs,
+      flightTimeMs: snap.flightTimeMs,
+      dutyFactor: snap.dutyFactor,
+      kneeFlexionAtContact: snap.kinematics.kneeFlexionAtContact,
+      peakKneeFlexionSwing: snap.kinematics.peakKneeFlexionSwing,
+      hipExtensionAtToeOff: snap.kinematics.hipExtensionAtToeOff,
+      trunkLeanDeg: snap.trunkLeanDeg,
+      overstrideIndex: snap.overstrideIndex,
+      elbowAngleDeg: snap.armSwing.elbowAngleDeg,
+      armSwingAmplitudeL: snap.armSwing.amplitudeDeg.L,
+      armSwingAmplitudeR: snap.armSwing.amplitudeDeg.R,
+      armSwingSymmetry: snap.armSwing.symmetry,
+      armCrossoverShare: snap.armSwing.crossoverShare,
+      pelvicDropDeg: snap.pelvicDropDeg,
+      kneeValgusDeg: snap.kneeValgusDeg,
+      fps: fpsRef.current,
+      modelComplexity: poseSettingsRef.current?.modelComplexity ?? 1,
+      inputScale: poseSettingsRef.current?.inputScale ?? 1,
+      videoTimeMs: videoRecorderRef.current?.currentTimeMs,
+      landmarkVisibility: snap.landmarkVisibility,
+    })
+  }, [])
+
+  /** Shift start (metrics paused) and end (new baseline); samples since the move are dropped. */
+  const handleCameraShift = useCallback((event: CameraShiftEvent) => {
+    if (phaseRef.current !== 'tracking') return
+    cameraShiftsRef.current = [
+      ...cameraShiftsRef.current.filter((e) => e.startMs !== event.startMs),
+      event,
+    ]
+    if (event.endMs == null) {
+      sessionSamplesRef.current = sessionSamplesRef.current.filter((s) => s.t < event.startMs)
+    }
+    setCameraMoved(event.endMs == null)
+  }, [])
 
-  const handleStart = useCallback(async () => {
+  /** Live front camera, or an uploaded video file analyzed at its own timestamps. */
+  const handleStart = useCallback(async (videoFile: File | null = null) => {
     const video = videoRef.current
     const canvas = canvasRef.current
     if (!video || !canvas) {
@@ -333,20 +799,32 @@ function App() {
     }
 
     requestWakeLock()
+    void videoRecorderRef.current?.stop()
+    videoRecorderRef.current = null
     setError(null)
     setIsRunning(true)
     setPaused(false)
-    sessionStartTimeRef.current = performance.now()
-    setPhase('calibrating')
-    phaseRef.current = 'calibrating'
+    videoClockRef.current = videoFile ? 0 : null
+    sourceFileRef.current = videoFile?.name ?? null
+    setVideoAnalysis(videoFile ? { fileName: videoFile.name, percent: 0 } : null)
+    setPreviewMirrored(!videoFile)
+    sessionStartTimeRef.current = sessionNow()
+    // A recorded video cannot be repositioned, so files go straight to calibration.
+    const firstPhase: Phase = videoFile ? 'calibrating' : 'setup'
+    setPhase(firstPhase)
+    phaseRef.current = firstPhase
+    setupReadinessRef.current.reset()
+    lastSetupStateUpdateRef.current = 0
+    setSetupStatus(null)
     setGoodTimeMs(0)
     setBaseline(null)
     setCalibrationGoodFrame(false)
     calibrationGoodFrameRef.current = false
-    goodTimeAccumulatedRef.current = 0
-    lastGoodTimestampRef.current = 0
-    samplesMidHipYRef.current = []
-    samplesMidShoulderYRef.current = []
+    calibrationRef.current = new CalibrationSession()
+    setCalibrationStage('standing')
+    setCalibrationReportDismissed(false)
+    cameraShiftsRef.current = []
+    setCameraMoved(false)
     lastGoodTimeStateUpdateRef.current = 0
     lastMessageTimeRef.current = 0
     displayedMessageRef.current = null
@@ -356,42 +834,114 @@ function App() {
     setTotalTimeMs(0)
     setActiveTimeMs(0)
 
-    await startPoseRunner(video, canvas, {
+    poseThreadRef.current = null
+    setPoseThread(null)
+    const thread = await startPoseRunner(video, canvas, {
       onStatus: (f, p, q, h) => {
+        const current = poseThreadRef.current
+        if (current && f > 0) {
+          const accum = threadFpsAccumRef.current[current]
+          accum.sum += f
+          accum.count += 1
+          setThreadFps((prev) => ({ ...prev, [current]: Math.round(accum.sum / accum.count) }))
+        }
+        fpsRef.current = f
         setFps(f)
         setPoseDetected(p)
         setFrameQuality(q)
         setHint(h ?? null)
+        updateHintMessage(pickAutoCheckMessage(p, q, h ?? null), performance.now())
+      },
+      onDiagnostics: setJitterStats,
+      onSettingsChange: (settings) => {
+        poseSettingsRef.current = settings
+        setPoseSettings(settings)
       },
       onCalibrationFrame: handleCalibrationFrame,
-      onTrackingFrame: handleTrackingFrame,
+      onMetricsSnapshot: handleMetricsSnapshot,
+      onCameraShift: handleCameraShift,
+      onSourceProgress: (currentMs, durationMs) => {
+        videoClockRef.current = currentMs
+        const percent = Math.floor((currentMs / durationMs) * 100)
+        setVideoAnalysis((prev) => (prev && prev.percent !== percent ? { ...prev, percent } : prev))
+      },
+      onSourceEnded: () => {
+        void handleStopRef.current?.()
+      },
+      onCamera: (camera) => {
+        setPreviewMirrored(camera.mirrored)
+        // Labels become available once permission is granted.
+        void listCameras().then(setCameras)
+      },
       onError: (msg) => {
         setError(msg)
         setIsRunning(false)
         setPhase('idle')
         phaseRef.current = 'idle'
       },
+    }, poseBackendKind, {
+      useWorker,
+      source: videoFile ? { kind: 'file', file: videoFile } : { kind: 'camera', deviceId: cameraId },
     })
-  }, [handleCalibrationFrame, handleTrackingFrame])
+    poseThreadRef.current = thread
+    setPoseThread(thread)
+  }, [
+    requestWakeLock,
+    updateHintMessage,
+    handleCalibrationFrame,
+    handleMetricsSnapshot,
+    handleCameraShift,
+    poseBackendKind,
+    useWorker,
+    sessionNow,
+    cameraId,
+  ])
+
+  const handleCameraChange = useCallback((deviceId: string | null) => {
+    saveCameraId(deviceId)
+    setCameraId(deviceId)
+  }, [])
+
+  const handleLandmarkFilterChange = useCallback((kind: LandmarkFilterKind) => {
+    setLandmarkFilter(kind)
+    setLandmarkFilterKind(kind)
+    setJitterStats(null)
+  }, [])
 
   const handlePause = useCallback(() => {
-    const now = performance.now()
+    const now = sessionNow()
     activeAccumMsRef.current += now - activeStartMsRef.current
     pausePoseRunner()
+    videoRecorderRef.current?.pause()
     setPaused(true)
-  }, [])
+  }, [sessionNow])
 
   const handleResume = useCallback(() => {
-    activeStartMsRef.current = performance.now()
+    activeStartMsRef.current = sessionNow()
     resumePoseRunner()
+    videoRecorderRef.current?.resume()
     setPaused(false)
     requestWakeLock()
-  }, [requestWakeLock])
+  }, [requestWakeLock, sessionNow])
 
   const handleStop = useCallback(async () => {
-    const endTime = performance.now()
+    const endTime = sessionNow()
+    const sourceFile = sourceFileRef.current
     const startTime = trackingStartTimeRef.current
     const samples = [...sessionSamplesRef.current]
+    const steps = await getPoseRunnerStepLog()
+    const recording = await getPoseRunnerRecording()
+    const keyFrames = await getPoseRunnerKeyFrames()
+    const videoRecorder = videoRecorderRef.current
+    videoRecorderRef.current = null
+    const videoBlob = (await videoRecorder?.stop()) ?? null
+    const cameraView = baselineRef.current?.view
+    const calibration = baselineRef.current?.calibration
+    const cameraShifts: CameraShiftGap[] = cameraShiftsRef.current.map((e) => ({
+      atSec: Math.max(0, Math.round((e.startMs - startTime) / 1000)),
+      durationSec: Math.round(((e.endMs ?? endTime) - e.startMs) / 1000),
+      rebaselined: e.endMs != null,
+    }))
     const totalDurationMs = endTime - sessionStartTimeRef.current
     const activeDurationMs =
       activeAccumMsRef.current +
@@ -405,6 +955,7 @@ function App() {
     setPaused(false)
     setPhase('idle')
     phaseRef.current = 'idle'
+    setSetupStatus(null)
     setError(null)
     setFps(0)
     setPoseDetected(false)
@@ -414,11 +965,15 @@ function App() {
     setGoodTimeMs(0)
     setBaseline(null)
     baselineRef.current = null
+    cameraShiftsRef.current = []
+    setCameraMoved(false)
     setMetricsSnapshot(null)
-    metricsSessionRef.current = null
-    lastGoodCadenceRef.current = null
+    setLastGoodCadence(null)
     displayedMessageRef.current = null
     sessionSamplesRef.current = []
+    videoClockRef.current = null
+    sourceFileRef.current = null
+    setVideoAnalysis(null)
 
     if (samples.length > 0) {
       const base = computeSummary(
@@ -426,7 +981,10 @@ function App() {
         startTime,
         endTime,
         totalDurationSec,
-        activeDurationSec
+        activeDurationSec,
+        steps,
+        cameraView,
+        sourceFile != null
       )
       const voValues = samples.map((s) => s.voProxy)
       const insights = generateInsights(base, voValues)
@@ -438,24 +996,57 @@ function App() {
           insights,
           cadenceSamples: samples.map((s) => s.cadence),
           qualitySamples: samples.map((s) => s.quality),
+          voSamples: voValues,
+          contactTimeSamples: samples.map((s) => (s.contactTimeMs > 0 ? s.contactTimeMs : null)),
+          trunkLeanSamples:
+            base.trunkLeanAvg != null
+              ? samples.map((s) => s.trunkLeanDeg)
+              : undefined,
+          ...(sourceFile ? { sourceFile } : {}),
+          ...(calibration ? { calibration } : {}),
+          ...(cameraShifts.length > 0 ? { cameraShifts } : {}),
+          ...(videoBlob ? { hasVideo: true } : {}),
+          ...(keyFrames.length > 0 ? { hasKeyFrames: true } : {}),
         },
         ''
       )
+      if (videoBlob && videoRecorder) {
+        // Stored before the summary shows, so its player finds the video.
+        await saveSessionVideo({
+          sessionId: saved.id,
+          blob: videoBlob,
+          mimeType: videoRecorder.mimeType ?? videoBlob.type,
+          sampleVideoTimesMs: samples.map((s) => s.videoTimeMs ?? 0),
+          savedAt: Date.now(),
+        })
+        void pruneSessionVideos(loadSessions().map((s) => s.id))
+      }
+      if (keyFrames.length > 0) {
+        await saveSessionKeyFrames({ sessionId: saved.id, snapshots: keyFrames, savedAt: Date.now() })
+        void pruneSessionKeyFrames(loadSessions().map((s) => s.id))
+      }
       setCurrentSummary(saved)
       setSummaryNote(saved.note)
       setSessions(loadSessions())
+      setLandmarkRecording(recording ? { sessionId: saved.id, recording } : null)
     } else {
-      setCurrentSummary(createEmptySummary(totalDurationSec, activeDurationSec))
+      const empty = createEmptySummary(totalDurationSec, activeDurationSec)
+      setCurrentSummary(empty)
       setSummaryNote('')
+      setLandmarkRecording(recording ? { sessionId: empty.id, recording } : null)
     }
     setSelectedSessionId(null)
     setView('summary')
-  }, [releaseWakeLock])
+  }, [releaseWakeLock, sessionNow])
+
+  useEffect(() => {
+    handleStopRef.current = handleStop
+  }, [handleStop])
 
   useEffect(() => {
     if (!isRunning) return
     const interval = setInterval(() => {
-      const now = performance.now()
+      const now = sessionNow()
       setTotalTimeMs(Math.max(0, now - sessionStartTimeRef.current))
       if (phaseRef.current === 'tracking') {
         const active =
@@ -467,27 +1058,7 @@ function App() {
       }
     }, 500)
     return () => clearInterval(interval)
-  }, [isRunning])
-
-  useEffect(() => {
-    if (phase !== 'tracking' || !metricsSessionRef.current) return
-    const interval = setInterval(() => {
-      const now = performance.now()
-      const session = metricsSessionRef.current
-      if (session && !pausedRef.current) {
-        const snap = session.getSnapshot(now)
-        if (snap.cadence >= 80) lastGoodCadenceRef.current = snap.cadence
-        setMetricsSnapshot(snap)
-        sessionSamplesRef.current.push({
-          t: now,
-          cadence: snap.cadence,
-          voProxy: snap.voProxy,
-          quality: frameQualityRef.current ?? 0,
-        })
-      }
-    }, METRICS_UPDATE_INTERVAL_MS)
-    return () => clearInterval(interval)
-  }, [phase])
+  }, [isRunning, sessionNow])
 
   const closeOnboardingAndStart = useCallback(() => {
     setOnboardingSeen()
@@ -532,6 +1103,8 @@ function App() {
 
   const handleDeleteSession = useCallback((id: string) => {
     deleteSession(id)
+    void deleteSessionVideo(id)
+    void deleteSessionKeyFrames(id)
     setSessions(loadSessions())
     if (selectedSessionId === id) {
       setView('history')
@@ -569,6 +1142,37 @@ function App() {
       `Session: ${formatDate(s.dateISO)}`,
       `Total tid: ${formatD(total)} · Aktiv tid: ${formatD(active)}`,
       `Kadence: ${s.cadenceAvg} spm · Stabilitet: ${s.stabilityStdDev} · VO proxy: ${s.voMedian.toFixed(3)} · Pålidelighed: ${RELIABILITY_LABEL[s.reliability]}`,
+      ...(s.voMedianCm != null
+        ? [`VO: ${s.voMedianCm.toFixed(1)} cm (max ${(s.voPeakCm ?? s.voMedianCm).toFixed(1)} cm)`]
+        : []),
+      ...(s.sourceFile ? [`Kilde: video (${s.sourceFile})`] : []),
+      ...(s.cameraView ? [`Kamera: ${CAMERA_VIEW_LABEL[s.cameraView]}`] : []),
+      ...(s.calibration ? [`Kalibrering: ${formatCalibrationReport(s.calibration)}`] : []),
+      ...(s.cameraShifts ? [formatCameraShifts(s.cameraShifts)] : []),
+      ...(s.poseFpsAvg != null
+        ? [`Pose: ${s.poseFpsAvg} fps · Model: ${formatModelSettings(s)}`]
+        : []),
+      ...(s.contactTimeAvg
+        ? [`Kontakttid: ${s.contactTimeAvg} ms · Flyvetid: ${s.flightTimeAvg ?? 0} ms · Duty factor: ${(s.dutyFactorAvg ?? 0).toFixed(2)}`]
+        : []),
+      ...(s.trunkLeanAvg != null
+        ? [`Fremadlæn: ${s.trunkLeanAvg}° (max ${s.trunkLeanMax ?? 0}°, udvikling ${(s.trunkLeanDrift ?? 0) >= 0 ? '+' : ''}${s.trunkLeanDrift ?? 0}°)`]
+        : []),
+      ...(s.overstrideIndexAvg != null
+        ? [`Overstride-indeks: ${s.overstrideIndexAvg.toFixed(2)} (${Math.round((s.overstrideShare ?? 0) * 100)}% af skridt over ${OVERSTRIDE_INDEX_THRESHOLD})`]
+        : []),
+      ...(s.legs
+        ? [`Venstre/højre: skridttid ${s.legs.L.stepTimeAvg ?? '–'}/${s.legs.R.stepTimeAvg ?? '–'} ms · kontakttid ${s.legs.L.contactTimeAvg ?? '–'}/${s.legs.R.contactTimeAvg ?? '–'} ms · asymmetri ${s.contactTimeSymmetry ?? '–'}%`]
+        : []),
+      ...(s.elbowAngleAvg != null
+        ? [`Armsving: albue ${s.elbowAngleAvg}° · udsving V/H ${s.armSwingAmplitude?.L ?? '–'}°/${s.armSwingAmplitude?.R ?? '–'}°${s.armCrossoverShare != null ? ` · krydser midtlinje ${Math.round(s.armCrossoverShare * 100)}%` : ''}`]
+        : []),
+      ...(s.pelvicDrop || s.kneeValgus
+        ? [`Forfra: hoftefald ${s.pelvicDrop?.avg ?? '–'}° (max ${s.pelvicDrop?.max ?? '–'}°) · knæ indad ${s.kneeValgus?.avg ?? '–'}° (max ${s.kneeValgus?.max ?? '–'}°)`]
+        : []),
+      ...(s.kneeFlexionAtContact
+        ? [`Knæ ved landing: ${s.kneeFlexionAtContact.avg}° · Ankel ved landing: ${s.ankleDorsiflexionAtContact?.avg ?? '–'}° · Knæ max i sving: ${s.peakKneeFlexionSwing?.avg ?? '–'}° · Hofteekstension ved afsæt: ${s.hipExtensionAtToeOff?.avg ?? '–'}°`]
+        : []),
       'Indsigt:',
       ...s.insights.map((line) => `  · ${line}`),
     ]
@@ -590,7 +1194,81 @@ function App() {
         : currentSummary
       : null
 
-  displayedSummaryRef.current = displayedSummary
+  useEffect(() => {
+    displayedSummaryRef.current = displayedSummary
+  }, [displayedSummary])
+
+  const summaryVideoSessionId = displayedSummary?.hasVideo ? displayedSummary.id : null
+
+  // Video and key frames of a previously shown session are kept until replaced, but only
+  // rendered for their own session.
+  useEffect(() => {
+    if (!summaryVideoSessionId) return
+    let cancelled = false
+    let url: string | null = null
+    void loadSessionVideo(summaryVideoSessionId).then((stored) => {
+      if (cancelled) return
+      if (!stored) {
+        setSummaryVideo(null)
+        return
+      }
+      url = URL.createObjectURL(stored.blob)
+      setSummaryVideo({
+        sessionId: stored.sessionId,
+        url,
+        sampleVideoTimesMs: stored.sampleVideoTimesMs,
+      })
+    })
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [summaryVideoSessionId])
+
+  const keyFramesSessionId = displayedSummary?.hasKeyFrames ? displayedSummary.id : null
+
+  useEffect(() => {
+    if (!keyFramesSessionId) return
+    let cancelled = false
+    let imageUrls: string[][] = []
+    void loadSessionKeyFrames(keyFramesSessionId).then((snapshots) => {
+      if (cancelled) return
+      imageUrls = snapshots.map((s) => s.frames.map((f) => URL.createObjectURL(f.image)))
+      setSummaryKeyFrames({ sessionId: keyFramesSessionId, snapshots, imageUrls })
+    })
+    return () => {
+      cancelled = true
+      imageUrls.flat().forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [keyFramesSessionId])
+
+  const handleSummaryVideoTime = useCallback(() => {
+    const video = summaryVideoElRef.current
+    if (!video || !summaryVideo) return
+    setVideoCursor({
+      sessionId: summaryVideo.sessionId,
+      index: sampleIndexAtVideoTime(summaryVideo.sampleVideoTimesMs, video.currentTime * 1000),
+    })
+  }, [summaryVideo])
+
+  const handleSelectSample = useCallback(
+    (index: number) => {
+      const video = summaryVideoElRef.current
+      const timeMs = summaryVideo?.sampleVideoTimesMs[index]
+      if (!video || !summaryVideo || timeMs == null) return
+      video.currentTime = timeMs / 1000
+      setVideoCursor({ sessionId: summaryVideo.sessionId, index })
+    },
+    [summaryVideo]
+  )
+  /** Sparklines indexed like the session samples follow the video and seek it when tapped. */
+  const sampleCursorProps =
+    summaryVideo && summaryVideo.sessionId === displayedSummary?.id
+      ? {
+          cursorIndex: videoCursor?.sessionId === summaryVideo.sessionId ? videoCursor.index : null,
+          onSelectIndex: handleSelectSample,
+        }
+      : {}
 
   const sortedSessions = [...sessions].sort(
     (a, b) => new Date(b.dateISO).getTime() - new Date(a.dateISO).getTime()
@@ -609,9 +1287,25 @@ function App() {
           cadence: displayedSummary.cadenceAvg - previousSession.cadenceAvg,
           stability: displayedSummary.stabilityStdDev - previousSession.stabilityStdDev,
           vo: displayedSummary.voMedian - previousSession.voMedian,
+          voCm:
+            displayedSummary.voMedianCm != null && previousSession.voMedianCm != null
+              ? displayedSummary.voMedianCm - previousSession.voMedianCm
+              : null,
+          contactTime:
+            displayedSummary.contactTimeAvg && previousSession.contactTimeAvg
+              ? displayedSummary.contactTimeAvg - previousSession.contactTimeAvg
+              : null,
         }
       : null
 
+  const handleProfileHeightChange = useCallback((value: string) => {
+    setProfileHeight(value)
+    const trimmed = value.trim()
+    const heightCm = Number(trimmed)
+    if (trimmed === '') saveProfile({ heightCm: null })
+    else if (isValidHeight(heightCm)) saveProfile({ heightCm })
+  }, [])
+
   const handleLeadSubmit = useCallback(() => {
     const email = leadEmail.trim()
     if (!email) return
@@ -652,21 +1346,32 @@ function App() {
   const handleExportJson = useCallback(() => {
     const s = displayedSummaryRef.current
     if (!s) return
-    const json = JSON.stringify(s, null, 2)
-    const blob = new Blob([json], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `runform-session-${s.id}.json`
-    a.click()
-    URL.revokeObjectURL(url)
+    downloadJson(JSON.stringify(s, null, 2), `runform-session-${s.id}.json`)
+  }, [])
+
+  const handleExportLandmarks = useCallback(() => {
+    if (!landmarkRecording) return
+    downloadJson(
+      JSON.stringify(landmarkRecording.recording),
+      `runform-landmarks-${landmarkRecording.sessionId}.json`
+    )
+  }, [landmarkRecording])
+
+  const handleReplayFile = useCallback(async (file: File) => {
+    setReplayStatus('Afspiller optagelse…')
+    try {
+      const recording = parseLandmarkRecording(await file.text())
+      setReplayStatus(formatReplayResult(await replayLandmarkRecording(recording)))
+    } catch (err) {
+      setReplayStatus(err instanceof Error ? err.message : 'Afspilning fejlede.')
+    }
   }, [])
 
   const calibrationSecondsRemaining = Math.max(
     0,
-    5 - Math.floor(goodTimeMs / 1000)
+    CALIBRATION_STAGE_MS[calibrationStage] / 1000 - Math.floor(goodTimeMs / 1000)
   )
-  const calibrationProgress = goodTimeMs / CALIBRATION_DURATION_MS
+  const calibrationProgress = Math.min(1, goodTimeMs / CALIBRATION_STAGE_MS[calibrationStage])
 
   const totalMm = Math.floor(totalTimeMs / 60_000)
   const totalSs = Math.floor((totalTimeMs % 60_000) / 1000)
@@ -674,19 +1379,23 @@ function App() {
   const activeMm = Math.floor(activeTimeMs / 60_000)
   const activeSs = Math.floor((activeTimeMs % 60_000) / 1000)
   const activeTimeLabel = `${String(activeMm).padStart(2, '0')}:${String(activeSs).padStart(2, '0')}`
+  const showMetric = (metric: MetricKey) =>
+    baseline == null || isMetricValidForView(metric, baseline.view)
 
   const statusChipLabel =
     view === 'summary'
       ? 'SUMMARY'
       : view === 'history'
         ? 'HISTORY'
-        : phase === 'calibrating'
-          ? 'CALIBRATING'
-          : phase === 'tracking' && paused
-            ? 'PAUSED'
-            : phase === 'tracking'
-              ? 'TRACKING'
-              : 'IDLE'
+        : phase === 'setup'
+          ? 'SETUP'
+          : phase === 'calibrating'
+            ? 'CALIBRATING'
+            : phase === 'tracking' && paused
+              ? 'PAUSED'
+              : phase === 'tracking'
+                ? 'TRACKING'
+                : 'IDLE'
 
   const formatSessionDate = (dateISO: string) => {
     const d = new Date(dateISO)
@@ -716,7 +1425,7 @@ function App() {
         </div>
         {view === 'live' && (
           <span className="wake-lock-status" role="status">
-            Awake: {wakeLockActive ? 'on' : 'off'}
+            Awake: {wakeLockActive ? 'on' : 'off'} · Offline: {OFFLINE_STATE_LABEL[pwaStatus.offline]}
           </span>
         )}
         {view === 'live' && (
@@ -733,6 +1442,28 @@ function App() {
         )}
       </header>
 
+      {pwaStatus.updateAvailable && (
+        <div className="pwa-banner" role="status">
+          <span>Ny version klar</span>
+          <button
+            type="button"
+            className="pwa-banner-btn"
+            disabled={isRunning}
+            onClick={applyUpdate}
+          >
+            {isRunning ? 'Opdater efter sessionen' : 'Opdater'}
+          </button>
+        </div>
+      )}
+      {!pwaStatus.updateAvailable && pwaStatus.installable && !pwaStatus.installed && view === 'live' && phase === 'idle' && (
+        <div className="pwa-banner">
+          <span>Installer appen – virker også uden net</span>
+          <button type="button" className="pwa-banner-btn" onClick={() => void promptInstall()}>
+            Installer
+          </button>
+        </div>
+      )}
+
       {view === 'history' && (
         <div className="summary-view">
           <h2 className="summary-section-title">Seneste sessioner</h2>
@@ -746,7 +1477,7 @@ function App() {
                 >
                   <span className="history-item-date">{formatSessionDate(s.dateISO)}</span>
                   <span className="history-item-meta">
-                    {formatDuration(s.totalDurationSec ?? s.durationSec)} · {s.cadenceAvg} spm · {RELIABILITY_LABEL[s.reliability]}
+                    {formatDuration(s.totalDurationSec ?? s.durationSec)} · {s.cadenceAvg} spm · {RELIABILITY_LABEL[s.reliability]}{s.sourceFile && ' · video'}
                   </span>
                 </button>
                 <button
@@ -778,6 +1509,9 @@ function App() {
             <p className="summary-meta">
               {formatSessionDate(displayedSummary.dateISO)}
             </p>
+            {displayedSummary.sourceFile && (
+              <p className="summary-meta">Kilde: video ({displayedSummary.sourceFile})</p>
+            )}
             <div className="summary-times">
               <span>Total tid: {formatDuration(displayedSummary.totalDurationSec ?? displayedSummary.durationSec)}</span>
               <span>Aktiv tid: {formatDuration(displayedSummary.activeDurationSec ?? displayedSummary.durationSec)}</span>
@@ -785,9 +1519,20 @@ function App() {
                 <span>Pause tid: {formatDuration((displayedSummary.totalDurationSec ?? 0) - (displayedSummary.activeDurationSec ?? 0))}</span>
               )}
             </div>
+            {displayedSummary.cameraShifts && (
+              <p className="summary-meta summary-camera-shifts">
+                {formatCameraShifts(displayedSummary.cameraShifts)}
+              </p>
+            )}
             <h2 className="summary-section-title">Nøgletal</h2>
             <div className="summary-stats summary-stats-with-tooltips">
-              <span>Kadence (spm): {displayedSummary.cadenceAvg}</span>
+              <span>
+                Kadence (spm): {displayedSummary.cadenceAvg}
+                {displayedSummary.cadenceConfidenceAvg != null && (
+                  <> (sikkerhed {Math.round(displayedSummary.cadenceConfidenceAvg * 100)}%)</>
+                )}
+                {occlusionBadge(displayedSummary, 'cadence')}
+              </span>
               <span className="stat-with-info">
                 Stabilitet (spm): {displayedSummary.stabilityStdDev}
                 <button
@@ -805,6 +1550,7 @@ function App() {
               </span>
               <span className="stat-with-info">
                 VO proxy (relativ): {displayedSummary.voMedian.toFixed(3)}
+                {occlusionBadge(displayedSummary, 'vo')}
                 <button
                   type="button"
                   className="info-icon"
@@ -818,22 +1564,144 @@ function App() {
                   <span className="tooltip-bubble" role="tooltip">Relativ måling baseret på video. Ikke cm. Lavere = mindre hop.</span>
                 )}
               </span>
+              {displayedSummary.voMedianCm != null && (
+                <span className="stat-with-info">
+                  VO (cm): {displayedSummary.voMedianCm.toFixed(1)} (max {(displayedSummary.voPeakCm ?? displayedSummary.voMedianCm).toFixed(1)})
+                  <button
+                    type="button"
+                    className="info-icon"
+                    aria-label="Forklaring"
+                    title="Hoftens op-og-ned-bevægelse i cm, omregnet fra din højde i profilen og stående kalibrering."
+                    onClick={(e) => { e.preventDefault(); setActiveTooltipId(activeTooltipId === 'vo-cm' ? null : 'vo-cm'); }}
+                  >
+                    <span aria-hidden>ⓘ</span>
+                  </button>
+                  {activeTooltipId === 'vo-cm' && (
+                    <span className="tooltip-bubble" role="tooltip">Hoftens op-og-ned-bevægelse i cm, omregnet fra din højde i profilen og stående kalibrering.</span>
+                  )}
+                </span>
+              )}
+              {(displayedSummary.contactTimeAvg ?? 0) > 0 && (
+                <>
+                  <span className="stat-with-info">
+                    Kontakttid (ms): {displayedSummary.contactTimeAvg}
+                    {occlusionBadge(displayedSummary, 'contactTime')}
+                    <button
+                      type="button"
+                      className="info-icon"
+                      aria-label="Forklaring"
+                      title="Tid foden er i jorden pr. skridt (fra landing til afsæt). Spænd vises i parentes."
+                      onClick={(e) => { e.preventDefault(); setActiveTooltipId(activeTooltipId === 'contact' ? null : 'contact'); }}
+                    >
+                      <span aria-hidden>ⓘ</span>
+                    </button>
+                    {activeTooltipId === 'contact' && (
+                      <span className="tooltip-bubble" role="tooltip">Tid foden er i jorden pr. skridt (fra landing til afsæt). Spænd vises i parentes.</span>
+                    )}
+                    {' '}({displayedSummary.contactTimeMin}–{displayedSummary.contactTimeMax})
+                  </span>
+                  <span>Flyvetid (ms): {displayedSummary.flightTimeAvg ?? 0}</span>
+                  <span className="stat-with-info">
+                    Duty factor: {(displayedSummary.dutyFactorAvg ?? 0).toFixed(2)}
+                    <button
+                      type="button"
+                      className="info-icon"
+                      aria-label="Forklaring"
+                      title="Andel af skridtcyklussen hvor foden er i jorden. Lavere = mere 'let' løb."
+                      onClick={(e) => { e.preventDefault(); setActiveTooltipId(activeTooltipId === 'duty' ? null : 'duty'); }}
+                    >
+                      <span aria-hidden>ⓘ</span>
+                    </button>
+                    {activeTooltipId === 'duty' && (
+                      <span className="tooltip-bubble" role="tooltip">Andel af skridtcyklussen hvor foden er i jorden. Lavere = mere &apos;let&apos; løb.</span>
+                    )}
+                  </span>
+                </>
+              )}
+              {displayedSummary.overstrideIndexAvg != null && (
+                <span className="stat-with-info">
+                  Overstride-indeks: {displayedSummary.overstrideIndexAvg.toFixed(2)}
+                  {occlusionBadge(displayedSummary, 'overstride')}
+                  <button
+                    type="button"
+                    className="info-icon"
+                    aria-label="Forklaring"
+                    title="Hvor langt foran hoften foden lander, i forhold til benlængde. Over 0,30 = overstriding. Procent = andel af skridt over grænsen."
+                    onClick={(e) => { e.preventDefault(); setActiveTooltipId(activeTooltipId === 'overstride' ? null : 'overstride'); }}
+                  >
+                    <span aria-hidden>ⓘ</span>
+                  </button>
+                  {activeTooltipId === 'overstride' && (
+                    <span className="tooltip-bubble" role="tooltip">Hvor langt foran hoften foden lander, i forhold til benlængde. Over 0,30 = overstriding. Procent = andel af skridt over grænsen.</span>
+                  )}
+                  {' '}({Math.round((displayedSummary.overstrideShare ?? 0) * 100)}%)
+                </span>
+              )}
+              {displayedSummary.trunkLeanAvg != null && (
+                <span className="stat-with-info">
+                  Fremadlæn (°): {displayedSummary.trunkLeanAvg}
+                  {occlusionBadge(displayedSummary, 'trunkLean')}
+                  <button
+                    type="button"
+                    className="info-icon"
+                    aria-label="Forklaring"
+                    title="Overkroppens hældning i forhold til når du står stille. Positiv = mere forover."
+                    onClick={(e) => { e.preventDefault(); setActiveTooltipId(activeTooltipId === 'lean' ? null : 'lean'); }}
+                  >
+                    <span aria-hidden>ⓘ</span>
+                  </button>
+                  {activeTooltipId === 'lean' && (
+                    <span className="tooltip-bubble" role="tooltip">Overkroppens hældning i forhold til når du står stille. Positiv = mere forover.</span>
+                  )}
+                </span>
+              )}
               <span className="stat-with-info">
                 Pålidelighed: {RELIABILITY_LABEL[displayedSummary.reliability]}
                 <button
                   type="button"
                   className="info-icon"
                   aria-label="Forklaring"
-                  title="Baseret på lys og hvor godt kroppen var i billedet."
+                  title="Baseret på lys, hvor godt kroppen var i billedet, og billeder/sek."
                   onClick={(e) => { e.preventDefault(); setActiveTooltipId(activeTooltipId === 'reliability' ? null : 'reliability'); }}
                 >
                   <span aria-hidden>ⓘ</span>
                 </button>
                 {activeTooltipId === 'reliability' && (
-                  <span className="tooltip-bubble" role="tooltip">Baseret på lys og hvor godt kroppen var i billedet.</span>
+                  <span className="tooltip-bubble" role="tooltip">Baseret på lys, hvor godt kroppen var i billedet, og billeder/sek.</span>
                 )}
               </span>
+              {displayedSummary.cameraView && (
+                <span>Kamera: {CAMERA_VIEW_LABEL[displayedSummary.cameraView]}</span>
+              )}
+              {displayedSummary.calibration && (
+                <span>Kalibrering: {formatCalibrationReport(displayedSummary.calibration)}</span>
+              )}
+              {displayedSummary.poseFpsAvg != null && (
+                <span>
+                  Pose: {displayedSummary.poseFpsAvg} fps · {formatModelSettings(displayedSummary)}
+                </span>
+              )}
             </div>
+            {summaryVideo && summaryVideo.sessionId === displayedSummary.id && (
+              <div className="summary-video">
+                <video
+                  ref={summaryVideoElRef}
+                  src={summaryVideo.url}
+                  controls
+                  playsInline
+                  preload="metadata"
+                  onTimeUpdate={handleSummaryVideoTime}
+                  onSeeked={handleSummaryVideoTime}
+                />
+                <span className="summary-video-hint">Tryk på en graf for at springe til det tidspunkt.</span>
+              </div>
+            )}
+            {summaryKeyFrames && summaryKeyFrames.sessionId === displayedSummary.id && (
+              <KeyFrameFilmstrip
+                snapshots={summaryKeyFrames.snapshots}
+                imageUrls={summaryKeyFrames.imageUrls}
+              />
+            )}
             <div className="summary-sparklines">
               <div className="sparkline-block">
                 <span className="sparkline-label">Kadence</span>
@@ -842,8 +1710,56 @@ function App() {
                   width={100}
                   height={28}
                   className="sparkline-canvas"
+                  {...sampleCursorProps}
                 />
               </div>
+              {(displayedSummary.voSamples?.length ?? 0) > 1 && (
+                <div className="sparkline-block">
+                  <span className="sparkline-label">VO</span>
+                  <Sparkline
+                    data={displayedSummary.voSamples ?? []}
+                    width={100}
+                    height={28}
+                    className="sparkline-canvas"
+                    {...sampleCursorProps}
+                  />
+                </div>
+              )}
+              {(displayedSummary.contactTimeSamples?.length ?? 0) > 1 && (
+                <div className="sparkline-block">
+                  <span className="sparkline-label">Kontakttid</span>
+                  <Sparkline
+                    data={displayedSummary.contactTimeSamples ?? []}
+                    width={100}
+                    height={28}
+                    className="sparkline-canvas"
+                    {...sampleCursorProps}
+                  />
+                </div>
+              )}
+              {(displayedSummary.overstrideSteps?.length ?? 0) > 1 && (
+                <div className="sparkline-block">
+                  <span className="sparkline-label">Overstride pr. skridt</span>
+                  <Sparkline
+                    data={displayedSummary.overstrideSteps ?? []}
+                    width={100}
+                    height={28}
+                    className="sparkline-canvas"
+                  />
+                </div>
+              )}
+              {(displayedSummary.trunkLeanSamples?.length ?? 0) > 1 && (
+                <div className="sparkline-block">
+                  <span className="sparkline-label">Fremadlæn</span>
+                  <Sparkline
+                    data={displayedSummary.trunkLeanSamples ?? []}
+                    width={100}
+                    height={28}
+                    className="sparkline-canvas"
+                    {...sampleCursorProps}
+                  />
+                </div>
+              )}
               <div className="sparkline-block">
                 <span className="sparkline-label">Kvalitet</span>
                 <Sparkline
@@ -851,9 +1767,199 @@ function App() {
                   width={100}
                   height={28}
                   className="sparkline-canvas"
+                  {...sampleCursorProps}
                 />
               </div>
             </div>
+            {displayedSummary.legs && (
+              <div
+                className={`summary-asymmetry${Math.max(displayedSummary.stepTimeSymmetry ?? 0, displayedSummary.contactTimeSymmetry ?? 0) > ASYMMETRY_THRESHOLD_PCT ? ' summary-asymmetry-high' : ''}`}
+                role="region"
+                aria-label="Asymmetri venstre/højre"
+              >
+                <span className="summary-compare-title">
+                  Asymmetri venstre / højre{occlusionBadge(displayedSummary, 'asymmetry')}
+                </span>
+                <table className="asymmetry-table">
+                  <thead>
+                    <tr>
+                      <th scope="col"></th>
+                      <th scope="col">V</th>
+                      <th scope="col">H</th>
+                      <th scope="col">Forskel</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <th scope="row">Skridttid (ms)</th>
+                      <td>{displayedSummary.legs.L.stepTimeAvg ?? '–'}</td>
+                      <td>{displayedSummary.legs.R.stepTimeAvg ?? '–'}</td>
+                      <td>{displayedSummary.stepTimeSymmetry != null ? `${displayedSummary.stepTimeSymmetry}%` : '–'}</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">Kontakttid (ms)</th>
+                      <td>{displayedSummary.legs.L.contactTimeAvg ?? '–'}</td>
+                      <td>{displayedSummary.legs.R.contactTimeAvg ?? '–'}</td>
+                      <td>{displayedSummary.contactTimeSymmetry != null ? `${displayedSummary.contactTimeSymmetry}%` : '–'}</td>
+                    </tr>
+                    <tr>
+                      <th scope="row">Skridt</th>
+                      <td>{displayedSummary.legs.L.steps}</td>
+                      <td>{displayedSummary.legs.R.steps}</td>
+                      <td></td>
+                    </tr>
+                  </tbody>
+                </table>
+                <p className="asymmetry-note">
+                  Forskel = symmetri-indeks. Under {ASYMMETRY_THRESHOLD_PCT}% regnes typisk som symmetrisk.
+                </p>
+              </div>
+            )}
+            {displayedSummary.kneeFlexionAtContact && (
+              <div className="summary-angles" role="region" aria-label="Ledvinkler pr. skridt">
+                <span className="summary-compare-title">
+                  Ledvinkler pr. skridt (min / gns / max){occlusionBadge(displayedSummary, 'jointAngles')}
+                </span>
+                <div className="summary-stats">
+                  {(
+                    [
+                      ['Knæbøjning ved landing', displayedSummary.kneeFlexionAtContact],
+                      ['Ankel-dorsalfleksion ved landing', displayedSummary.ankleDorsiflexionAtContact],
+                      ['Knæbøjning max i sving', displayedSummary.peakKneeFlexionSwing],
+                      ['Hofteekstension ved afsæt', displayedSummary.hipExtensionAtToeOff],
+                    ] as const
+                  ).map(([label, v]) => (
+                    <span key={label}>
+                      {label}: {v ? `${v.min}° / ${v.avg}° / ${v.max}°` : '–'}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+            {(displayedSummary.pelvicDrop || displayedSummary.kneeValgus) && (
+              <div className="summary-angles" role="region" aria-label="Hofte og knæ forfra">
+                <span className="summary-compare-title">Hofte og knæ forfra (min / gns / max pr. skridt)</span>
+                <div className="summary-stats">
+                  <span>
+                    Hoftefald: {displayedSummary.pelvicDrop ? `${displayedSummary.pelvicDrop.min}° / ${displayedSummary.pelvicDrop.avg}° / ${displayedSummary.pelvicDrop.max}°` : '–'}
+                    {(displayedSummary.pelvicDrop?.avg ?? 0) > PELVIC_DROP_THRESHOLD_DEG && (
+                      <span className="metric-low-confidence"> (højt)</span>
+                    )}
+                    {occlusionBadge(displayedSummary, 'pelvicDrop')}
+                  </span>
+                  <span>
+                    Knæ indad (valgus): {displayedSummary.kneeValgus ? `${displayedSummary.kneeValgus.min}° / ${displayedSummary.kneeValgus.avg}° / ${displayedSummary.kneeValgus.max}°` : '–'}
+                    {(displayedSummary.kneeValgus?.avg ?? 0) > KNEE_VALGUS_THRESHOLD_DEG && (
+                      <span className="metric-low-confidence"> (højt)</span>
+                    )}
+                    {occlusionBadge(displayedSummary, 'kneeValgus')}
+                  </span>
+                </div>
+                <div className="summary-sparklines">
+                  {(displayedSummary.pelvicDropSteps?.length ?? 0) > 1 && (
+                    <div className="sparkline-block">
+                      <span className="sparkline-label">Hoftefald pr. skridt</span>
+                      <Sparkline
+                        data={displayedSummary.pelvicDropSteps ?? []}
+                        width={100}
+                        height={28}
+                        className="sparkline-canvas"
+                      />
+                    </div>
+                  )}
+                  {(displayedSummary.kneeValgusSteps?.length ?? 0) > 1 && (
+                    <div className="sparkline-block">
+                      <span className="sparkline-label">Knæ indad pr. skridt</span>
+                      <Sparkline
+                        data={displayedSummary.kneeValgusSteps ?? []}
+                        width={100}
+                        height={28}
+                        className="sparkline-canvas"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+            {displayedSummary.elbowAngleAvg != null && (
+              <div className="summary-angles" role="region" aria-label="Armsving">
+                <span className="summary-compare-title">
+                  Armsving{occlusionBadge(displayedSummary, 'armSwing')}
+                </span>
+                <div className="summary-stats">
+                  <span>Albuevinkel: {displayedSummary.elbowAngleAvg}°</span>
+                  <span>
+                    Udsving V / H: {displayedSummary.armSwingAmplitude?.L ?? '–'}° / {displayedSummary.armSwingAmplitude?.R ?? '–'}°
+                  </span>
+                  {displayedSummary.armSwingSymmetry != null && (
+                    <span>Forskel V/H: {displayedSummary.armSwingSymmetry}%</span>
+                  )}
+                  {displayedSummary.armCrossoverShare != null && (
+                    <span>
+                      Krydser midtlinjen: {Math.round(displayedSummary.armCrossoverShare * 100)}% af tiden
+                      {occlusionBadge(displayedSummary, 'armCrossover')}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+            {displayedSummary.landmarkVisibility && (
+              <div className="summary-visibility" role="region" aria-label="Synlighed pr. led">
+                <span className="summary-compare-title">Synlighed pr. led (% af billederne)</span>
+                <table className="asymmetry-table visibility-table">
+                  <thead>
+                    <tr>
+                      <th scope="col">Led</th>
+                      <th scope="col">V</th>
+                      <th scope="col">H</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {groupJointVisibility(displayedSummary.landmarkVisibility).map((row) => (
+                      <tr key={row.joint}>
+                        <th scope="row">{JOINT_LABEL[row.joint]}</th>
+                        {([row.L, row.R] as const).map((j, i) => (
+                          <td key={i} className={isOccluded(j) ? 'visibility-occluded' : undefined}>
+                            {j ? `${Math.round(j.visibleShare * 100)}%` : '–'}
+                            {j?.recurring && <span title="Skjult igen og igen, fx i hvert skridt"> ↻</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {displayedSummary.landmarkVisibility.some(
+                  (j) => isOccluded(j) && j.timeline.length > 1
+                ) && (
+                  <div className="summary-sparklines">
+                    {displayedSummary.landmarkVisibility
+                      .filter((j) => isOccluded(j) && j.timeline.length > 1)
+                      .map((j) => (
+                        <div key={j.key} className="sparkline-block">
+                          <span className="sparkline-label">
+                            {JOINT_LABEL[j.key.slice(0, -1) as BodyJoint]} {j.key.endsWith('L') ? 'V' : 'H'}
+                          </span>
+                          <Sparkline
+                            data={j.timeline}
+                            width={100}
+                            height={28}
+                            className="sparkline-canvas"
+                          />
+                        </div>
+                      ))}
+                  </div>
+                )}
+                {displayedSummary.metricReliability && (
+                  <p className="asymmetry-note">
+                    Mindre sikre mål:{' '}
+                    {(Object.keys(displayedSummary.metricReliability) as MetricKey[])
+                      .map((m) => METRIC_LABEL[m])
+                      .join(', ')}
+                    . ↻ = skjult igen og igen (fx af konsol eller håndlister).
+                  </p>
+                )}
+              </div>
+            )}
             {compareDeltas && (
               <div className="summary-compare" role="region" aria-label="Sammenligning med forrige session">
                 <span className="summary-compare-title">Sammenlignet med forrige</span>
@@ -867,6 +1973,16 @@ function App() {
                   <span className="compare-row">
                     VO proxy {compareDeltas.vo <= 0 ? '↓' : '↑'} {Math.abs(compareDeltas.vo).toFixed(3)}
                   </span>
+                  {compareDeltas.voCm != null && (
+                    <span className="compare-row">
+                      VO {compareDeltas.voCm <= 0 ? '↓' : '↑'} {Math.abs(compareDeltas.voCm).toFixed(1)} cm
+                    </span>
+                  )}
+                  {compareDeltas.contactTime != null && (
+                    <span className="compare-row">
+                      Kontakttid {compareDeltas.contactTime <= 0 ? '↓' : '↑'} {Math.abs(compareDeltas.contactTime)} ms
+                    </span>
+                  )}
                 </div>
               </div>
             )}
@@ -1010,6 +2126,11 @@ function App() {
               <button type="button" className="btn btn-secondary btn-copy-export" onClick={handleExportJson}>
                 Eksport JSON
               </button>
+              {landmarkRecording?.sessionId === displayedSummary.id && (
+                <button type="button" className="btn btn-secondary btn-copy-export" onClick={handleExportLandmarks}>
+                  Eksport landmarks
+                </button>
+              )}
             </div>
             <div className="summary-actions">
               <button type="button" className="btn btn-secondary" onClick={handleNewSession}>
@@ -1046,7 +2167,7 @@ function App() {
                   >
                     <span className="history-item-date">{formatSessionDate(s.dateISO)}</span>
                     <span className="history-item-meta">
-                      {formatDuration(s.totalDurationSec ?? s.durationSec)} · {s.cadenceAvg} spm · {RELIABILITY_LABEL[s.reliability]}
+                      {formatDuration(s.totalDurationSec ?? s.durationSec)} · {s.cadenceAvg} spm · {RELIABILITY_LABEL[s.reliability]}{s.sourceFile && ' · video'}
                     </span>
                   </button>
                   <button
@@ -1094,8 +2215,55 @@ function App() {
         </div>
       )}
 
+      {view === 'live' && videoAnalysis && (
+        <div className="video-analysis" role="status">
+          <span className="video-analysis-label">
+            Analyserer video: {videoAnalysis.fileName} · {videoAnalysis.percent}%
+          </span>
+          <div className="calibration-progress-wrap">
+            <div
+              className="calibration-progress-fill"
+              style={{ width: `${videoAnalysis.percent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {view === 'live' && phase === 'setup' && (
+        <div
+          className={`calibration-panel setup-panel${setupStatus?.check.ok ? ' setup-panel-ready' : ''}`}
+          role="status"
+        >
+          <p className="setup-title">
+            {setupStatus?.check.ok ? 'Klar – hold stillingen' : 'Stil kameraet op'}
+          </p>
+          <div className="calibration-progress-wrap">
+            <div
+              className="calibration-progress-fill"
+              style={{ width: `${Math.min(1, (setupStatus?.readyMs ?? 0) / SETUP_READY_MS) * 100}%` }}
+            />
+          </div>
+          {!poseDetected || !setupStatus ? (
+            <p className="calibration-message">
+              Stil dig i den stiplede figur, så hele kroppen fra hoved til fødder er med.
+            </p>
+          ) : setupStatus.check.ok ? (
+            <p className="calibration-message">Kalibreringen starter om et øjeblik.</p>
+          ) : (
+            <ul className="setup-checks">
+              {getSetupMessages(setupStatus.check, previewMirrored).map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {view === 'live' && phase === 'calibrating' && (
         <div className="calibration-panel" role="status">
+          <p className="calibration-stage">
+            {calibrationStage === 'standing' ? 'Trin 1 af 2: Stå stille' : 'Trin 2 af 2: Gå roligt'}
+          </p>
           <div className="calibration-countdown">
             {calibrationSecondsRemaining}
           </div>
@@ -1107,19 +2275,63 @@ function App() {
           </div>
           {!calibrationGoodFrame && (
             <p className="calibration-message">
-              Hold still og få hele kroppen i billedet. Pose og kvalitet skal være god nok.
+              {calibrationStage === 'standing'
+                ? 'Hold still og få hele kroppen i billedet. Pose og kvalitet skal være god nok.'
+                : 'Gå roligt på stedet eller på båndet, så fødderne bevæger sig. Hele kroppen skal være i billedet.'}
             </p>
           )}
         </div>
       )}
 
+      {view === 'live' && phase === 'tracking' && baseline && !calibrationReportDismissed && (
+        <div
+          className={`calibration-report calibration-report-${baseline.calibration.rating}`}
+          role="status"
+        >
+          <div className="calibration-report-header">
+            <strong>Kalibrering: {formatCalibrationReport(baseline.calibration)}</strong>
+            <button
+              type="button"
+              className="calibration-report-close"
+              aria-label="Luk kalibreringsrapport"
+              onClick={() => setCalibrationReportDismissed(true)}
+            >
+              ×
+            </button>
+          </div>
+          <ul className="calibration-report-values">
+            {getCalibrationReportRows(baseline).map((row) => (
+              <li key={row}>{row}</li>
+            ))}
+          </ul>
+          {baseline.calibration.issues.length > 0 && (
+            <ul className="calibration-report-issues">
+              {baseline.calibration.issues.map((issue) => (
+                <li key={issue}>{CALIBRATION_ISSUE_TEXT[issue]}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {view === 'live' && (phase === 'tracking' || paused) && (
         <>
           <div className="baseline-locked baseline-locked-minimal" role="status">
             <span className="baseline-locked-label">
-              {paused ? 'Pauset' : 'Baseline locked'}
+              {paused ? 'Pauset' : cameraMoved ? 'Kamera flyttet' : 'Baseline locked'}
             </span>
+            {baseline && (
+              <span className="baseline-locked-view">
+                {CAMERA_VIEW_LABEL[baseline.view]}
+              </span>
+            )}
           </div>
+          {cameraMoved && !paused && (
+            <div className="camera-shift-banner" role="status">
+              Kameraet har flyttet sig. Målingerne holder pause, til du løber roligt i billedet igen –
+              så sættes en ny baseline.
+            </div>
+          )}
           <div className="metrics-panel metrics-panel-minimal" role="region" aria-label="Live">
             <div className="metrics-minimal metrics-minimal-times">
               <span className="metric-value">{totalTimeLabel}</span>
@@ -1128,21 +2340,137 @@ function App() {
               <span className="metric-label">Aktiv tid</span>
               <span className="metric-value">
                 {(metricsSnapshot?.cadence ?? 0) >= 80
-                  ? (metricsSnapshot?.cadence ?? '–')
-                  : (lastGoodCadenceRef.current ?? metricsSnapshot?.cadence ?? '–')}
+                  ? Math.round(metricsSnapshot?.cadence ?? 0)
+                  : lastGoodCadence != null
+                    ? Math.round(lastGoodCadence)
+                    : (metricsSnapshot?.cadence ?? '–')}
               </span>
               <span className="metric-label">
                 Kadence (spm)
-                {(metricsSnapshot?.cadence ?? 0) > 0 && (metricsSnapshot?.cadence ?? 0) < 80 && (
+                {(metricsSnapshot?.cadence ?? 0) > 0 &&
+                  ((metricsSnapshot?.cadence ?? 0) < 80 ||
+                    (metricsSnapshot?.cadenceConfidence ?? 0) < CADENCE_MIN_CONFIDENCE) && (
                   <span className="metric-low-confidence"> (usikker)</span>
                 )}
               </span>
+              <span className="metric-value">
+                {metricsSnapshot?.contactTimeMs ? metricsSnapshot.contactTimeMs : '–'}
+              </span>
+              <span className="metric-label">Kontakttid (ms)</span>
+              {metricsSnapshot?.voCm != null && (
+                <>
+                  <span className="metric-value">{metricsSnapshot.voCm.toFixed(1)}</span>
+                  <span className="metric-label">VO (cm)</span>
+                </>
+              )}
+              <span className="metric-value">
+                {metricsSnapshot?.contactTimeSymmetry != null
+                  ? `${metricsSnapshot.contactTimeSymmetry}%`
+                  : '–'}
+              </span>
+              <span className="metric-label">
+                Asymmetri V/H
+                {(metricsSnapshot?.contactTimeSymmetry ?? 0) > ASYMMETRY_THRESHOLD_PCT && (
+                  <span className="metric-low-confidence"> (høj)</span>
+                )}
+              </span>
+            </div>
+            <div className="metrics-minimal metrics-minimal-angles">
+              {showMetric('jointAngles') && (
+                <>
+                  <span className="metric-value">
+                    {metricsSnapshot?.kinematics.current
+                      ? `${Math.round(metricsSnapshot.kinematics.current.kneeFlexion)}°`
+                      : '–'}
+                  </span>
+                  <span className="metric-label">Knæ</span>
+                  <span className="metric-value">
+                    {metricsSnapshot?.kinematics.kneeFlexionAtContact != null
+                      ? `${Math.round(metricsSnapshot.kinematics.kneeFlexionAtContact)}°`
+                      : '–'}
+                  </span>
+                  <span className="metric-label">Knæ ved landing</span>
+                  <span className="metric-value">
+                    {metricsSnapshot?.kinematics.ankleDorsiflexionAtContact != null
+                      ? `${Math.round(metricsSnapshot.kinematics.ankleDorsiflexionAtContact)}°`
+                      : '–'}
+                  </span>
+                  <span className="metric-label">Ankel ved landing</span>
+                  <span className="metric-value">
+                    {metricsSnapshot?.kinematics.peakKneeFlexionSwing != null
+                      ? `${Math.round(metricsSnapshot.kinematics.peakKneeFlexionSwing)}°`
+                      : '–'}
+                  </span>
+                  <span className="metric-label">Knæ max sving</span>
+                  <span className="metric-value">
+                    {metricsSnapshot?.kinematics.hipExtensionAtToeOff != null
+                      ? `${Math.round(metricsSnapshot.kinematics.hipExtensionAtToeOff)}°`
+                      : '–'}
+                  </span>
+                  <span className="metric-label">Hofte ved afsæt</span>
+                </>
+              )}
+              {showMetric('trunkLean') && (
+                <>
+                  <span className="metric-value">
+                    {metricsSnapshot ? `${Math.round(metricsSnapshot.trunkLeanDeg)}°` : '–'}
+                  </span>
+                  <span className="metric-label">Fremadlæn</span>
+                </>
+              )}
+              <span className="metric-value">
+                {metricsSnapshot?.armSwing.elbowAngleDeg != null
+                  ? `${metricsSnapshot.armSwing.elbowAngleDeg}°`
+                  : '–'}
+              </span>
+              <span className="metric-label">Albue</span>
+              {showMetric('pelvicDrop') && metricsSnapshot?.pelvicDropDeg != null && (
+                <>
+                  <span className="metric-value">{Math.round(metricsSnapshot.pelvicDropDeg)}°</span>
+                  <span className="metric-label">Hoftefald</span>
+                </>
+              )}
+              {showMetric('kneeValgus') && metricsSnapshot?.kneeValgusDeg != null && (
+                <>
+                  <span className="metric-value">{Math.round(metricsSnapshot.kneeValgusDeg)}°</span>
+                  <span className="metric-label">Knæ indad</span>
+                </>
+              )}
+              <span className="metric-value">
+                {metricsSnapshot?.armSwing.amplitudeDeg.L != null || metricsSnapshot?.armSwing.amplitudeDeg.R != null
+                  ? `${metricsSnapshot?.armSwing.amplitudeDeg.L ?? '–'}/${metricsSnapshot?.armSwing.amplitudeDeg.R ?? '–'}°`
+                  : '–'}
+              </span>
+              <span className="metric-label">Armsving V/H</span>
+              {showMetric('armCrossover') && metricsSnapshot?.armSwing.crossoverShare != null && (
+                <>
+                  <span className="metric-value">
+                    {Math.round(metricsSnapshot.armSwing.crossoverShare * 100)}%
+                  </span>
+                  <span className="metric-label">Arme krydser</span>
+                </>
+              )}
+              {showMetric('overstride') && (
+                <>
+                  <span className="metric-value">
+                    {metricsSnapshot?.overstrideIndex != null
+                      ? metricsSnapshot.overstrideIndex.toFixed(2)
+                      : '–'}
+                  </span>
+                  <span className="metric-label">
+                    Overstride
+                    {(metricsSnapshot?.overstrideIndex ?? 0) > OVERSTRIDE_INDEX_THRESHOLD && (
+                      <span className="metric-low-confidence"> (høj)</span>
+                    )}
+                  </span>
+                </>
+              )}
             </div>
           </div>
         </>
       )}
 
-      {view === 'live' && isRunning && phase === 'calibrating' && (
+      {view === 'live' && isRunning && (phase === 'setup' || phase === 'calibrating') && (
         <div className="metrics-panel metrics-panel-minimal" role="region">
           <div className="metrics-minimal">
             <span className="metric-value">{totalTimeLabel}</span>
@@ -1157,7 +2485,7 @@ function App() {
         <div className="preview-wrapper">
         <video
           ref={videoRef}
-          className="preview-video"
+          className={`preview-video${previewMirrored ? ' is-mirrored' : ''}`}
           autoPlay
           playsInline
           muted
@@ -1165,15 +2493,22 @@ function App() {
         />
         <canvas
           ref={canvasRef}
-          className="preview-canvas"
+          className={`preview-canvas${previewMirrored ? ' is-mirrored' : ''}`}
           style={{
             display: isRunning ? 'block' : 'none',
             pointerEvents: 'none',
           }}
         />
+        {isRunning && phase === 'setup' && (
+          <canvas
+            ref={setupCanvasRef}
+            className={`preview-canvas${previewMirrored ? ' is-mirrored' : ''}`}
+            aria-hidden
+          />
+        )}
         {!isRunning && !showOnboarding && (
           <div className="preview-placeholder">
-            <p>Tryk Start for at bruge frontkamera og pose-detektion</p>
+            <p>Tryk Start for at bruge kameraet og pose-detektion – eller analysér en video fra telefon/GoPro</p>
           </div>
         )}
         </div>
@@ -1183,7 +2518,17 @@ function App() {
         <details className="debug-accordion">
           <summary className="debug-accordion-summary">Debug / status</summary>
           <div className="status">
-            <span className="status-item">FPS: {fps}</span>
+            <span className="status-item">
+              FPS: {fps}{poseThread && ` (${POSE_THREAD_LABEL[poseThread]})`}
+            </span>
+            {poseSettings && (
+              <span className="status-item">
+                Model (auto): {MODEL_COMPLEXITY_LABEL[poseSettings.modelComplexity]} · {Math.round(poseSettings.inputScale * 100)}% opløsning
+              </span>
+            )}
+            <span className="status-item">
+              FPS hovedtråd / worker: {threadFps.main ?? '–'} / {threadFps.worker ?? '–'}
+            </span>
             <span className="status-item">
               Pose: {poseDetected ? 'ja' : 'nej'}
             </span>
@@ -1192,13 +2537,107 @@ function App() {
                 Frame quality: {frameQuality}/100
               </span>
             )}
+            {hint?.image && (
+              <span className="status-item">
+                Billede: lys {hint.image.luminance.toFixed(2)} · kontrast {hint.image.contrast.toFixed(2)}
+                {hint.image.backlight != null && <> · modlys {hint.image.backlight.toFixed(2)}</>}
+                {hint.image.blur != null && <> · sløring {hint.image.blur.toFixed(2)}</>}
+                {hint.image.issue && <> ({hint.image.issue})</>}
+              </span>
+            )}
             <span className="status-item">
               stepsLast10s: {metricsSnapshot?.stepsLast10s ?? '–'}
             </span>
+            <label className="status-item">
+              Model:{' '}
+              <select
+                value={poseBackendKind}
+                disabled={isRunning}
+                onChange={(e) => setPoseBackendKind(e.target.value as CameraPoseBackendKind)}
+              >
+                {CAMERA_POSE_BACKENDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {POSE_BACKEND_LABEL[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="status-item">
+              <input
+                type="checkbox"
+                checked={useWorker && canRunInWorker(poseBackendKind)}
+                disabled={isRunning || !canRunInWorker(poseBackendKind)}
+                onChange={(e) => setUseWorker(e.target.checked)}
+              />{' '}
+              Worker
+            </label>
+            <label className="status-item">
+              Filter:{' '}
+              <select
+                value={landmarkFilterKind}
+                onChange={(e) => handleLandmarkFilterChange(e.target.value as LandmarkFilterKind)}
+              >
+                {LANDMARK_FILTER_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {LANDMARK_FILTER_LABEL[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {jitterStats?.rawJitter != null && (
+              <span className="status-item">
+                Jitter rå/filtreret: {(jitterStats.rawJitter * 1000).toFixed(2)} / {((jitterStats.filteredJitter ?? 0) * 1000).toFixed(2)} ‰
+                {jitterStats.reduction != null && ` (−${Math.round(jitterStats.reduction * 100)}%)`}
+              </span>
+            )}
+            {!isRunning && (
+              <label className="status-item">
+                Afspil landmark-optagelse:{' '}
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (file) void handleReplayFile(file)
+                  }}
+                />
+              </label>
+            )}
+            {replayStatus && <span className="status-item">Replay: {replayStatus}</span>}
+            <span className="status-item">
+              Kadence peak/ACF: {metricsSnapshot?.cadencePeak ?? '–'} / {metricsSnapshot?.cadence ?? '–'} ({Math.round((metricsSnapshot?.cadenceConfidence ?? 0) * 100)}%)
+            </span>
           </div>
         </details>
       )}
 
+      {view === 'live' && phase === 'idle' && (
+        <details className="debug-accordion profile-accordion">
+          <summary className="debug-accordion-summary">
+            Profil{isValidHeight(Number(profileHeight)) ? ` · ${profileHeight} cm` : ''}
+          </summary>
+          <label className="profile-field">
+            <span>Højde (cm)</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              className="profile-input"
+              min={HEIGHT_MIN_CM}
+              max={HEIGHT_MAX_CM}
+              placeholder="fx 178"
+              value={profileHeight}
+              onChange={(e) => handleProfileHeightChange(e.target.value)}
+            />
+          </label>
+          <p className="profile-note">
+            {profileHeight.trim() !== '' && !isValidHeight(Number(profileHeight))
+              ? `Angiv en højde mellem ${HEIGHT_MIN_CM} og ${HEIGHT_MAX_CM} cm.`
+              : 'Bruges til at vise VO i cm. Uden højde vises kun den relative VO proxy.'}
+          </p>
+        </details>
+      )}
+
       {view === 'live' && hintMessage && (
         <div className="hint-message" role="status">
           {hintMessage}
@@ -1273,18 +2712,80 @@ function App() {
         </section>
       )}
 
+      {view === 'live' && phase === 'idle' && (
+        <label className="camera-picker">
+          Kamera:{' '}
+          <select
+            value={cameraId ?? ''}
+            onChange={(e) => handleCameraChange(e.target.value || null)}
+          >
+            <option value="">Frontkamera (standard)</option>
+            {cameras.map((camera) => (
+              <option key={camera.deviceId} value={camera.deviceId}>
+                {camera.label}
+              </option>
+            ))}
+            {cameraId && !cameras.some((c) => c.deviceId === cameraId) && (
+              <option value={cameraId}>Gemt kamera</option>
+            )}
+          </select>
+        </label>
+      )}
+
       {view === 'live' && (
         <div className="actions">
           {phase === 'idle' && (
+            <>
+              <button
+                type="button"
+                className="btn btn-start"
+                onClick={() => handleStart()}
+              >
+                Start
+              </button>
+              <label className="btn btn-secondary btn-video-file">
+                Analysér video
+                <input
+                  type="file"
+                  accept="video/*"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (file) void handleStart(file)
+                  }}
+                />
+              </label>
+              <label className="record-video-toggle">
+                <input
+                  type="checkbox"
+                  checked={recordVideo}
+                  disabled={!isSessionVideoSupported()}
+                  onChange={(e) => setRecordVideo(e.target.checked)}
+                />{' '}
+                Optag video med skelet
+              </label>
+            </>
+          )}
+          {phase === 'setup' && (
+            <button
+              type="button"
+              className="btn btn-pause"
+              onClick={beginCalibration}
+            >
+              Spring over
+            </button>
+          )}
+          {phase === 'calibrating' && calibrationStage === 'walking' && (
             <button
               type="button"
-              className="btn btn-start"
-              onClick={handleStart}
+              className="btn btn-pause"
+              onClick={skipCalibrationWalking}
             >
-              Start
+              Spring gang over
             </button>
           )}
-          {phase === 'calibrating' && (
+          {(phase === 'setup' || phase === 'calibrating') && (
             <button
               type="button"
               className="btn btn-stop"
@@ -0,0 +1,54 @@
+/**
+ * RunForm PoC – Filmstrip of stride key frames: landing, midstance and toe-off of the best
+ * stride per leg from the start, middle and end of the session.
+ */
+
+import type { SessionSegment, StrideEventKind, StrideSnapshot } from './pose/strideKeyFrames'
+
+export type KeyFrameFilmstripProps = {
+  snapshots: StrideSnapshot[]
+  /** Object URL per snapshot and frame (same order as snapshots[i].frames). */
+  imageUrls: string[][]
+}
+
+const SEGMENT_LABEL: Record<SessionSegment, string> = {
+  start: 'Start',
+  middle: 'Midt',
+  end: 'Slut',
+}
+
+const EVENT_LABEL: Record<StrideEventKind, string> = {
+  initialContact: 'Landing',
+  midstance: 'Midtstand',
+  toeOff: 'Afsæt',
+}
+
+const LEG_LABEL = { L: 'venstre', R: 'højre' } as const
+
+export function KeyFrameFilmstrip({ snapshots, imageUrls }: KeyFrameFilmstripProps) {
+  if (snapshots.length === 0) return null
+
+  return (
+    <div className="keyframe-filmstrip" role="region" aria-label="Nøglebilleder">
+      {snapshots.map((snapshot, i) => (
+        <figure key={`${snapshot.segment}-${snapshot.leg}`} className="keyframe-stride">
+          <figcaption>
+            {SEGMENT_LABEL[snapshot.segment]} · {LEG_LABEL[snapshot.leg]} fod · kvalitet{' '}
+            {snapshot.quality}
+          </figcaption>
+          <div className="keyframe-frames">
+            {snapshot.frames.map((frame, j) => (
+              <div key={frame.event} className="keyframe">
+                <img
+                  src={imageUrls[i]?.[j]}
+                  alt={`${EVENT_LABEL[frame.event]}, ${LEG_LABEL[snapshot.leg]} fod`}
+                />
+                <span>{EVENT_LABEL[frame.event]}</span>
+              </div>
+            ))}
+          </div>
+        </figure>
+      ))}
+    </div>
+  )
+}
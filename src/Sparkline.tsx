@@ -1,21 +1,27 @@
 /**
  * RunForm PoC – Sparkline: draws a simple line chart in canvas.
- * Auto-scales min/max, no axis labels.
+ * Auto-scales min/max, no axis labels; null values leave a gap in the line.
+ * Optional cursor and tap-to-select (session video).
  */
 
 import { useEffect, useRef } from 'react'
 
 export type SparklineProps = {
-  data: number[]
+  data: (number | null)[]
   width?: number
   height?: number
   className?: string
   strokeStyle?: string
+  /** Data index marked with a vertical line. */
+  cursorIndex?: number | null
+  /** Makes the chart tappable; called with the nearest data index. */
+  onSelectIndex?: (index: number) => void
 }
 
 const DEFAULT_WIDTH = 120
 const DEFAULT_HEIGHT = 32
 const PADDING = 2
+const CURSOR_STYLE = '#f8fafc'
 
 export function Sparkline({
   data,
@@ -23,12 +29,16 @@ export function Sparkline({
   height = DEFAULT_HEIGHT,
   className = '',
   strokeStyle = 'currentColor',
+  cursorIndex = null,
+  onSelectIndex,
 }: SparklineProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const values = data.filter((v): v is number => v != null)
 
   useEffect(() => {
     const canvas = canvasRef.current
-    if (!canvas || data.length < 2) return
+    const defined = data.filter((v): v is number => v != null)
+    if (!canvas || defined.length < 2) return
 
     const ctx = canvas.getContext('2d')
     if (!ctx) return
@@ -41,8 +51,8 @@ export function Sparkline({
     canvas.style.width = `${width}px`
     canvas.style.height = `${height}px`
 
-    const min = Math.min(...data)
-    const max = Math.max(...data)
+    const min = Math.min(...defined)
+    const max = Math.max(...defined)
     const range = max - min || 1
     const chartLeft = PADDING * dpr
     const chartRight = w - PADDING * dpr
@@ -59,16 +69,33 @@ export function Sparkline({
     ctx.beginPath()
 
     const stepX = chartW / (data.length - 1)
+    let penDown = false
     for (let i = 0; i < data.length; i++) {
+      const value = data[i]
+      if (value == null) {
+        penDown = false
+        continue
+      }
       const x = chartLeft + i * stepX
-      const y = chartBottom - ((data[i]! - min) / range) * chartH
-      if (i === 0) ctx.moveTo(x, y)
-      else ctx.lineTo(x, y)
+      const y = chartBottom - ((value - min) / range) * chartH
+      if (penDown) ctx.lineTo(x, y)
+      else ctx.moveTo(x, y)
+      penDown = true
     }
     ctx.stroke()
-  }, [data, width, height, strokeStyle])
 
-  if (data.length < 2) {
+    if (cursorIndex != null && cursorIndex >= 0 && cursorIndex < data.length) {
+      const x = chartLeft + cursorIndex * stepX
+      ctx.strokeStyle = CURSOR_STYLE
+      ctx.lineWidth = Math.max(1, dpr)
+      ctx.beginPath()
+      ctx.moveTo(x, 0)
+      ctx.lineTo(x, h)
+      ctx.stroke()
+    }
+  }, [data, width, height, strokeStyle, cursorIndex])
+
+  if (values.length < 2) {
     return (
       <div
         className={className}
@@ -86,8 +113,18 @@ export function Sparkline({
       className={className}
       width={width}
       height={height}
-      style={{ display: 'block', maxWidth: '100%' }}
+      style={{ display: 'block', maxWidth: '100%', cursor: onSelectIndex ? 'pointer' : undefined }}
       aria-hidden
+      onClick={
+        onSelectIndex
+          ? (e) => {
+              const rect = e.currentTarget.getBoundingClientRect()
+              const fraction = rect.width > 0 ? (e.clientX - rect.left) / rect.width : 0
+              const index = Math.round(Math.min(1, Math.max(0, fraction)) * (data.length - 1))
+              onSelectIndex(index)
+            }
+          : undefined
+      }
     />
   )
 }
@@ -0,0 +1,50 @@
+/**
+ * Kameravalg – tilgængelige kameraer (enumerateDevices) og det valgte kamera i localStorage.
+ */
+
+const CAMERA_STORAGE_KEY = 'runform-poc-camera'
+
+export type CameraOption = {
+  deviceId: string
+  label: string
+}
+
+/** Video inputs. Labels (and on some browsers the list itself) only appear after camera permission. */
+export async function listCameras(): Promise<CameraOption[]> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return []
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    return devices
+      .filter((d) => d.kind === 'videoinput' && d.deviceId)
+      .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Kamera ${i + 1}` }))
+  } catch (e) {
+    console.warn('enumerateDevices failed:', e)
+    return []
+  }
+}
+
+/** Cameras plugged in or out (USB webcams). Returns unsubscribe. */
+export function subscribeCameraChanges(listener: () => void): () => void {
+  const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined
+  if (!mediaDevices?.addEventListener) return () => {}
+  mediaDevices.addEventListener('devicechange', listener)
+  return () => mediaDevices.removeEventListener('devicechange', listener)
+}
+
+/** Chosen camera; null = default front camera. */
+export function loadCameraId(): string | null {
+  try {
+    return localStorage.getItem(CAMERA_STORAGE_KEY) || null
+  } catch {
+    return null
+  }
+}
+
+export function saveCameraId(deviceId: string | null): void {
+  try {
+    if (deviceId) localStorage.setItem(CAMERA_STORAGE_KEY, deviceId)
+    else localStorage.removeItem(CAMERA_STORAGE_KEY)
+  } catch {
+    // ignore
+  }
+}
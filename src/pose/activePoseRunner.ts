@@ -0,0 +1,106 @@
+/**
+ * RunForm PoC – The app's one active pose runner.
+ * Runs in the pose worker when the backend and browser allow it (Tasks PoseLandmarker, the default),
+ * otherwise on the main thread (legacy MediaPipe Pose, or no Worker / createImageBitmap).
+ */
+
+import {
+  DEFAULT_LANDMARK_FILTER,
+  type LandmarkFilterKind,
+} from './landmarkFilter';
+import { CAMERA_SOURCE, type PoseSource } from './frameSource';
+import type { LandmarkRecording } from './landmarkRecording';
+import type { MetricsBaseline, StepRecord } from './metrics';
+import {
+  canRunInWorker,
+  createPoseBackend,
+  DEFAULT_POSE_BACKEND,
+  type CameraPoseBackendKind,
+} from './poseBackend';
+import {
+  PoseRunner,
+  type PoseRunnerCallbacks,
+  type PoseRunnerHandle,
+  type PoseThread,
+} from './poseRunner';
+import { isPoseWorkerSupported, PoseWorkerClient } from './poseWorkerClient';
+import type { StrideSnapshot } from './strideKeyFrames';
+
+let activeRunner: PoseRunnerHandle | null = null;
+let landmarkFilterKind: LandmarkFilterKind = DEFAULT_LANDMARK_FILTER;
+
+export type StartPoseRunnerOptions = {
+  /** Prefer the pose worker; ignored where the backend or browser cannot run it. */
+  useWorker?: boolean;
+  /** Live front camera (default) or a recorded video file. */
+  source?: PoseSource;
+};
+
+/** The thread a runner for backendKind runs on in this browser. */
+export function pickPoseThread(backendKind: CameraPoseBackendKind, useWorker = true): PoseThread {
+  return useWorker && canRunInWorker(backendKind) && isPoseWorkerSupported() ? 'worker' : 'main';
+}
+
+/** Returns the thread the runner ended up on. */
+export async function startPoseRunner(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  callbacks: PoseRunnerCallbacks,
+  backendKind: CameraPoseBackendKind = DEFAULT_POSE_BACKEND,
+  options: StartPoseRunnerOptions = {}
+): Promise<PoseThread> {
+  if (activeRunner) {
+    await stopPoseRunner();
+  }
+  const runner: PoseRunnerHandle =
+    pickPoseThread(backendKind, options.useWorker) === 'worker'
+      ? new PoseWorkerClient(callbacks, backendKind, landmarkFilterKind)
+      : new PoseRunner(callbacks, createPoseBackend(backendKind), landmarkFilterKind);
+  activeRunner = runner;
+  await runner.start(video, canvas, options.source ?? CAMERA_SOURCE);
+  return runner.thread;
+}
+
+export function pausePoseRunner(): void {
+  activeRunner?.pause();
+}
+
+export function resumePoseRunner(): void {
+  activeRunner?.resume();
+}
+
+export async function stopPoseRunner(): Promise<void> {
+  const runner = activeRunner;
+  activeRunner = null;
+  await runner?.stop();
+}
+
+/** Calibration done: metrics run next to inference from here on (snapshots via onMetricsSnapshot). */
+export function startPoseRunnerTracking(baseline: MetricsBaseline): void {
+  activeRunner?.startTracking(baseline);
+}
+
+/** Step log of the current session; read before stopPoseRunner. */
+export function getPoseRunnerStepLog(): Promise<StepRecord[]> {
+  return activeRunner?.getStepLog() ?? Promise.resolve([]);
+}
+
+/** Raw landmark recording of the current session; read before stopPoseRunner. */
+export function getPoseRunnerRecording(): Promise<LandmarkRecording | null> {
+  return activeRunner?.getRecording() ?? Promise.resolve(null);
+}
+
+/** Key frames of the current session's best strides; read before stopPoseRunner. */
+export function getPoseRunnerKeyFrames(): Promise<StrideSnapshot[]> {
+  return activeRunner?.getKeyFrames() ?? Promise.resolve([]);
+}
+
+/** Filter for the active runner; kept across sessions. */
+export function setLandmarkFilter(kind: LandmarkFilterKind): void {
+  landmarkFilterKind = kind;
+  activeRunner?.setLandmarkFilter(kind);
+}
+
+export function getLandmarkFilter(): LandmarkFilterKind {
+  return landmarkFilterKind;
+}
@@ -0,0 +1,134 @@
+/**
+ * RunForm PoC – Arm swing: elbow angle, swing amplitude per arm, left/right symmetry,
+ * and (frontal view) wrist crossover of the body midline.
+ * Points are in height-normalized units (x scaled by aspect ratio), like kinematics.ts.
+ */
+
+import type { ArmLandmarks, Point2D } from './frameQuality'
+import { isTurnedAway } from './frontalPlane'
+import { angleAt } from './kinematics'
+
+/** Window for elbow angle, swing range and crossover share. */
+const ARM_WINDOW_MS = 3_000
+/** Arms below this wrist/elbow visibility are skipped. */
+const ARM_MIN_VISIBILITY = 0.5
+
+export type ArmSide = 'L' | 'R'
+
+export type ArmSwingSnapshot = {
+  /** Avg elbow angle (°) over both arms; 180 = straight arm. */
+  elbowAngleDeg: number | null
+  /** Range (°) of upper arm vs vertical per arm over last 3s. */
+  amplitudeDeg: { L: number | null; R: number | null }
+  /** Symmetry index (%) of left vs right amplitude. */
+  symmetry: number | null
+  /** Share of frames (0–1) with a wrist past the midline; null when not frontal. */
+  crossoverShare: number | null
+}
+
+type ArmSample = {
+  t: number
+  elbowAngle: number
+  upperArmAngle: number
+  crossover: boolean | null
+}
+
+function mean(arr: number[]): number {
+  if (arr.length === 0) return 0
+  return arr.reduce((a, b) => a + b, 0) / arr.length
+}
+
+function toDegrees(rad: number): number {
+  return (rad * 180) / Math.PI
+}
+
+/** Upper arm (shoulder → elbow) vs vertical; sign follows image x, only the range is used. */
+function upperArmAngle(arm: ArmLandmarks): number {
+  return toDegrees(
+    Math.atan2(arm.elbow.x - arm.shoulder.x, arm.elbow.y - arm.shoulder.y)
+  )
+}
+
+/** Symmetry index (%) = |L − R| / mean(L, R) × 100. */
+function symmetryIndex(left: number, right: number): number | null {
+  const avg = (left + right) / 2
+  if (left <= 0 || right <= 0) return null
+  return Math.round((Math.abs(left - right) / avg) * 1000) / 10
+}
+
+export class ArmSwingSession {
+  private samples: Record<ArmSide, ArmSample[]> = { L: [], R: [] }
+
+  /**
+   * midShoulder / midHip give the body midline.
+   * Crossover is only judged with the camera in front (calibrated view), and not while the
+   * shoulders are turned away from it (narrower than standingShoulderWidth allows).
+   */
+  update(
+    arms: Record<ArmSide, ArmLandmarks | null>,
+    midShoulder: Point2D,
+    midHip: Point2D,
+    frontal: boolean,
+    timestampMs: number,
+    standingShoulderWidth: number | null = null
+  ): void {
+    const midlineX = (midShoulder.x + midHip.x) / 2
+    const judgeCrossover =
+      frontal &&
+      !(arms.L && arms.R && isTurnedAway(arms.L.shoulder, arms.R.shoulder, standingShoulderWidth))
+
+    const cutoff = timestampMs - ARM_WINDOW_MS
+    for (const side of ['L', 'R'] as const) {
+      const arm = arms[side]
+      if (arm != null && arm.visibility >= ARM_MIN_VISIBILITY) {
+        const shoulderSide = Math.sign(arm.shoulder.x - midlineX)
+        this.samples[side].push({
+          t: timestampMs,
+          elbowAngle: angleAt(arm.shoulder, arm.elbow, arm.wrist),
+          upperArmAngle: upperArmAngle(arm),
+          crossover: judgeCrossover
+            ? Math.sign(arm.wrist.x - midlineX) === -shoulderSide
+            : null,
+        })
+      }
+      this.samples[side] = this.samples[side].filter((s) => s.t >= cutoff)
+    }
+  }
+
+  getSnapshot(timestampMs: number): ArmSwingSnapshot {
+    const cutoff = timestampMs - ARM_WINDOW_MS
+    const recent = {
+      L: this.samples.L.filter((s) => s.t >= cutoff),
+      R: this.samples.R.filter((s) => s.t >= cutoff),
+    }
+    const amplitude = (samples: ArmSample[]): number | null => {
+      if (samples.length < 2) return null
+      const angles = samples.map((s) => s.upperArmAngle)
+      return Math.round(Math.max(...angles) - Math.min(...angles))
+    }
+    const all = [...recent.L, ...recent.R]
+    const judged = all.filter((s) => s.crossover != null)
+    const amplitudeL = amplitude(recent.L)
+    const amplitudeR = amplitude(recent.R)
+
+    return {
+      elbowAngleDeg:
+        all.length > 0 ? Math.round(mean(all.map((s) => s.elbowAngle))) : null,
+      amplitudeDeg: { L: amplitudeL, R: amplitudeR },
+      symmetry:
+        amplitudeL != null && amplitudeR != null
+          ? symmetryIndex(amplitudeL, amplitudeR)
+          : null,
+      crossoverShare:
+        judged.length > 0
+          ? Math.round(
+              (judged.filter((s) => s.crossover).length / judged.length) * 100
+            ) / 100
+          : null,
+    }
+  }
+
+  reset(): void {
+    this.samples = { L: [], R: [] }
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { CadenceEstimator } from './cadenceEstimator'
+
+/** Hip bounce: one period per step, sampled at ~30 fps for durationMs. */
+function feed(estimator: CadenceEstimator, spm: number, durationMs: number, amplitude = 0.01) {
+  const stepMs = 60_000 / spm
+  for (let t = 0; t <= durationMs; t += 33) {
+    estimator.push(0.5 + amplitude * Math.cos((2 * Math.PI * t) / stepMs), t)
+  }
+}
+
+describe('CadenceEstimator', () => {
+  it('finds the step period between the 6 spm steps of the step count', () => {
+    const estimator = new CadenceEstimator()
+    feed(estimator, 173, 6000)
+    const estimate = estimator.estimate(174)
+    expect(estimate.cadence).not.toBeNull()
+    expect(Math.abs(estimate.cadence! - 173)).toBeLessThan(1.5)
+    expect(estimate.confidence).toBeGreaterThan(0.9)
+  })
+
+  it('halves the confidence when the step count disagrees', () => {
+    const agreeing = new CadenceEstimator()
+    feed(agreeing, 173, 6000)
+    const disagreeing = new CadenceEstimator()
+    feed(disagreeing, 173, 6000)
+    expect(disagreeing.estimate(90).confidence).toBeCloseTo(agreeing.estimate(174).confidence / 2, 1)
+  })
+
+  it('gives no estimate before enough signal or without a bounce', () => {
+    const short = new CadenceEstimator()
+    feed(short, 173, 2000)
+    expect(short.estimate(0)).toEqual({ cadence: null, confidence: 0 })
+
+    const still = new CadenceEstimator()
+    feed(still, 173, 6000, 0.0005)
+    expect(still.estimate(0)).toEqual({ cadence: null, confidence: 0 })
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * RunForm PoC – Cadence from the periodicity of the mid-hip Y signal (autocorrelation).
+ * The hip bounces once per step, so the dominant lag = step time → cadence = 60 000 / lag ms.
+ * Gives a continuous value (no 6 spm quantization) and a confidence from the correlation peak.
+ */
+
+/** Signal window for the autocorrelation. */
+const ESTIMATOR_WINDOW_MS = 6_000
+/** Need at least this much signal before estimating. */
+const ESTIMATOR_MIN_SPAN_MS = 3_000
+/** Uniform resampling rate (frames arrive at uneven intervals). */
+const RESAMPLE_HZ = 60
+/** Plausible running cadence range (spm) → lag search range. */
+const CADENCE_MIN_SPM = 100
+const CADENCE_MAX_SPM = 230
+/** Prefer the shortest lag within this share of the best correlation (step, not stride, period). */
+const FUNDAMENTAL_PEAK_SHARE = 0.9
+/** Hip Y std dev (image-height units) below this = not running, no estimate. */
+const MIN_SIGNAL_STDDEV = 0.002
+/** Peak detector disagreeing by more than this share halves the confidence. */
+const PEAK_AGREEMENT_TOLERANCE = 0.15
+
+export type CadenceEstimate = {
+  /** Steps per minute, 0.1 resolution; null = not enough / no periodic signal. */
+  cadence: number | null
+  /** 0–1: normalized autocorrelation peak, lowered when the peak detector disagrees. */
+  confidence: number
+}
+
+type SignalSample = { t: number; y: number }
+
+function mean(arr: number[]): number {
+  if (arr.length === 0) return 0
+  return arr.reduce((a, b) => a + b, 0) / arr.length
+}
+
+/** Linear interpolation onto a uniform grid starting at the first sample. */
+function resample(samples: SignalSample[], hz: number): number[] {
+  const step = 1000 / hz
+  const out: number[] = []
+  let j = 0
+  for (let t = samples[0]!.t; t <= samples[samples.length - 1]!.t; t += step) {
+    while (j < samples.length - 2 && samples[j + 1]!.t < t) j++
+    const a = samples[j]!
+    const b = samples[j + 1] ?? a
+    const span = b.t - a.t
+    const f = span > 0 ? (t - a.t) / span : 0
+    out.push(a.y + (b.y - a.y) * f)
+  }
+  return out
+}
+
+/** Remove mean and linear drift (e.g. runner slowly moving on the belt). */
+function detrend(y: number[]): number[] {
+  const n = y.length
+  const xMean = (n - 1) / 2
+  const yMean = mean(y)
+  let num = 0
+  let den = 0
+  for (let i = 0; i < n; i++) {
+    num += (i - xMean) * (y[i]! - yMean)
+    den += (i - xMean) ** 2
+  }
+  const slope = den > 0 ? num / den : 0
+  return y.map((v, i) => v - yMean - slope * (i - xMean))
+}
+
+/** Pearson correlation of x with itself shifted by lag (overlap only). */
+function autocorrelation(x: number[], lag: number): number {
+  let sxy = 0
+  let sxx = 0
+  let syy = 0
+  for (let i = 0; i + lag < x.length; i++) {
+    const a = x[i]!
+    const b = x[i + lag]!
+    sxy += a * b
+    sxx += a * a
+    syy += b * b
+  }
+  const denom = Math.sqrt(sxx * syy)
+  return denom > 0 ? sxy / denom : 0
+}
+
+export class CadenceEstimator {
+  private samples: SignalSample[] = []
+
+  push(y: number, timestampMs: number): void {
+    this.samples.push({ t: timestampMs, y })
+    const cutoff = timestampMs - ESTIMATOR_WINDOW_MS
+    this.samples = this.samples.filter((s) => s.t >= cutoff)
+  }
+
+  /**
+   * peakCadence = the step-count cadence from MetricsSession, used as a cross-check.
+   * A harmonic (half / double) from either method shows up as a disagreement.
+   */
+  estimate(peakCadence: number): CadenceEstimate {
+    const none: CadenceEstimate = { cadence: null, confidence: 0 }
+    if (this.samples.length < 2) return none
+    const span = this.samples[this.samples.length - 1]!.t - this.samples[0]!.t
+    if (span < ESTIMATOR_MIN_SPAN_MS) return none
+
+    const x = detrend(resample(this.samples, RESAMPLE_HZ))
+    const sd = Math.sqrt(mean(x.map((v) => v * v)))
+    if (sd < MIN_SIGNAL_STDDEV) return none
+
+    const minLag = Math.floor((60 / CADENCE_MAX_SPM) * RESAMPLE_HZ)
+    const maxLag = Math.ceil((60 / CADENCE_MIN_SPM) * RESAMPLE_HZ)
+    const r: number[] = []
+    for (let lag = 0; lag <= maxLag + 1; lag++) {
+      r.push(lag >= minLag - 1 ? autocorrelation(x, lag) : 0)
+    }
+
+    const peaks: number[] = []
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (r[lag]! > 0 && r[lag]! >= r[lag - 1]! && r[lag]! >= r[lag + 1]!) {
+        peaks.push(lag)
+      }
+    }
+    if (peaks.length === 0) return none
+    const best = Math.max(...peaks.map((lag) => r[lag]!))
+    const lag = peaks.find((l) => r[l]! >= best * FUNDAMENTAL_PEAK_SHARE)!
+
+    // Parabolic interpolation around the peak for sub-sample lag.
+    const y0 = r[lag - 1]!
+    const y1 = r[lag]!
+    const y2 = r[lag + 1]!
+    const denom = y0 - 2 * y1 + y2
+    const offset = denom !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (y0 - y2)) / denom)) : 0
+    const lagSec = (lag + offset) / RESAMPLE_HZ
+    const cadence = 60 / lagSec
+
+    let confidence = Math.max(0, Math.min(1, y1))
+    if (
+      peakCadence > 0 &&
+      Math.abs(cadence - peakCadence) / cadence > PEAK_AGREEMENT_TOLERANCE
+    ) {
+      confidence *= 0.5
+    }
+
+    return {
+      cadence: Math.round(cadence * 10) / 10,
+      confidence: Math.round(confidence * 100) / 100,
+    }
+  }
+
+  reset(): void {
+    this.samples = []
+  }
+}
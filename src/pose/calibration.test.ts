@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import { CalibrationSession, type CalibrationProgress } from './calibration'
+import type { CalibrationFrameData } from './frameQuality'
+
+const FRAME_MS = 33
+
+function frame(overrides: Partial<CalibrationFrameData> = {}): CalibrationFrameData {
+  return {
+    midHipY: 0.55,
+    midShoulderY: 0.35,
+    trunkLeanDeg: 2,
+    legLength: 0.4,
+    bodyWidthRatio: 0.2,
+    standingHeight: 0.8,
+    torsoLength: 0.2,
+    shoulderWidth: 0.1,
+    hipWidth: 0.08,
+    kneeFlexionDeg: 5,
+    pelvicTiltDeg: 1,
+    shoulderTiltDeg: -1,
+    ankleSeparation: 0.02,
+    frameQuality: 90,
+    isGood: true,
+    framing: null,
+    ...overrides,
+  }
+}
+
+/** Feeds frames from fromMs until toMs; returns the last progress. */
+function feed(
+  session: CalibrationSession,
+  fromMs: number,
+  toMs: number,
+  at: (t: number) => Partial<CalibrationFrameData> = () => ({})
+): CalibrationProgress {
+  let progress: CalibrationProgress | null = null
+  for (let t = fromMs; t < toMs; t += FRAME_MS) {
+    progress = session.addFrame(frame(at(t)), t)
+  }
+  return progress!
+}
+
+/** Walking in place: the ankles swing apart and together once a second. */
+function walking(t: number): Partial<CalibrationFrameData> {
+  return { ankleSeparation: 0.1 + 0.08 * Math.sin((2 * Math.PI * t) / 1000) }
+}
+
+describe('CalibrationSession standing stage', () => {
+  it('counts standing time once the runner has held still for a second', () => {
+    const session = new CalibrationSession()
+    expect(feed(session, 0, 1000)).toMatchObject({ stage: 'standing', goodMs: 0, isGood: false })
+    expect(feed(session, 1000, 5900)).toMatchObject({ stage: 'standing', isGood: true })
+    feed(session, 5900, 6200)
+    expect(session.stage).toBe('walking')
+  })
+
+  it('does not count frames while the hip level moves', () => {
+    const session = new CalibrationSession()
+    // Bobbing 0.02 up and down: a range of 0.2 torso lengths.
+    const progress = feed(session, 0, 8000, (t) => ({
+      midHipY: 0.55 + 0.02 * Math.sin((2 * Math.PI * t) / 700),
+    }))
+    expect(progress).toMatchObject({ stage: 'standing', goodMs: 0, isGood: false })
+  })
+
+  it('waits for a new still second after the pose is lost', () => {
+    const session = new CalibrationSession()
+    feed(session, 0, 3000)
+    const before = session.addFrame(frame(), 3000).goodMs
+    session.addFrame(frame({ isGood: false }), 3033)
+    expect(feed(session, 3066, 4000).goodMs).toBe(before)
+    expect(feed(session, 4000, 4500).goodMs).toBeGreaterThan(before)
+  })
+})
+
+describe('CalibrationSession walking stage and report', () => {
+  function standUp(): CalibrationSession {
+    const session = new CalibrationSession()
+    feed(session, 0, 6200)
+    expect(session.stage).toBe('walking')
+    return session
+  }
+
+  it('finishes after walking and reports the standing measurements', () => {
+    const session = standUp()
+    let progress = feed(session, 6200, 7000, walking)
+    expect(progress.done).toBe(false)
+    for (let t = 7000; !progress.done && t < 15_000; t += FRAME_MS) {
+      progress = session.addFrame(frame(walking(t)), t)
+    }
+    expect(progress).toMatchObject({ stage: 'walking', done: true })
+
+    const result = session.finish()
+    expect(result.hipY).toBeCloseTo(0.55, 6)
+    expect(result.legLength).toBeCloseTo(0.4, 6)
+    expect(result).toMatchObject({
+      view: 'side',
+      torsoLength: 0.2,
+      body: { shoulderWidth: 0.1, hipWidth: 0.08 },
+      posture: { kneeFlexionDeg: 5, pelvicTiltDeg: 1, shoulderTiltDeg: -1 },
+    })
+    expect(result.report).toEqual({
+      rating: 'good',
+      standingQuality: 90,
+      walkingQuality: 90,
+      standingSway: 0,
+      legLengthDeviation: 0,
+      issues: [],
+    })
+  })
+
+  it('reports walking that was never detected', () => {
+    const session = standUp()
+    const progress = feed(session, 6200, 27_000)
+    expect(progress.done).toBe(true)
+    expect(session.finish().report).toMatchObject({
+      rating: 'fair',
+      walkingQuality: null,
+      issues: ['noWalking'],
+    })
+  })
+
+  it('can skip walking, and flags a leg length that changes when walking', () => {
+    const skipped = standUp()
+    skipped.skipWalking()
+    expect(skipped.done).toBe(true)
+    expect(skipped.finish().report.issues).toEqual(['noWalking'])
+
+    const session = standUp()
+    feed(session, 6200, 11_000, (t) => ({ ...walking(t), legLength: 0.34 }))
+    expect(session.finish().report).toMatchObject({
+      rating: 'fair',
+      legLengthDeviation: -0.15,
+      issues: ['legLengthMismatch'],
+    })
+  })
+})
@@ -0,0 +1,301 @@
+/**
+ * RunForm PoC – Two-stage calibration before tracking.
+ * Standing: good frames, once the runner has held still for a moment, give the hip / shoulder
+ * level, camera view, body dimensions (leg and torso length, shoulder and hip width) and the
+ * natural posture angles.
+ * Walking: good frames with the feet moving re-measure the leg length in motion and check that
+ * the landmarks hold up once the runner moves. finish() returns the baseline measurements and a
+ * quality report; the cm scale from the profile height is added by App.
+ */
+
+import { classifyCameraView, type CameraView } from './frameQuality'
+import type { BodyDimensions, StandingPosture } from './metrics'
+import type { CalibrationFramePayload } from './poseRunner'
+
+export type CalibrationStage = 'standing' | 'walking'
+
+/** Good-frame time needed per stage. */
+export const CALIBRATION_STAGE_MS: Record<CalibrationStage, number> = {
+  standing: 5000,
+  walking: 4000,
+}
+
+/**
+ * unsteady = hip level moved while standing; legsHidden = no leg length; noWalking = walking
+ * skipped or never detected; legLengthMismatch = leg length differs walking vs standing;
+ * lowQuality = low mean frame quality.
+ */
+export type CalibrationIssue =
+  | 'unsteady'
+  | 'legsHidden'
+  | 'noWalking'
+  | 'legLengthMismatch'
+  | 'lowQuality'
+
+export type CalibrationReport = {
+  rating: 'good' | 'fair' | 'poor'
+  /** Mean frame quality (0–100) per stage; walking null when skipped. */
+  standingQuality: number
+  walkingQuality: number | null
+  /** Standing hip level standard deviation / torso length; null without torso. */
+  standingSway: number | null
+  /** Walking / standing leg length − 1; null without both. */
+  legLengthDeviation: number | null
+  issues: CalibrationIssue[]
+}
+
+export type CalibrationResult = {
+  hipY: number
+  torsoY: number
+  trunkLeanDeg: number
+  legLength: number | null
+  view: CameraView
+  /** Nose → heel (image-height units) for the cm scale; null if not visible. */
+  standingHeight: number | null
+  /** Mid-hip → mid-shoulder (image-height units); null if not visible. */
+  torsoLength: number | null
+  body: BodyDimensions
+  posture: StandingPosture
+  report: CalibrationReport
+}
+
+export type CalibrationProgress = {
+  stage: CalibrationStage
+  /** Good-frame time collected in this stage (ms). */
+  goodMs: number
+  isGood: boolean
+  done: boolean
+}
+
+/** Longer gaps between good frames are not counted as calibration time. */
+const MAX_FRAME_GAP_MS = 250
+/** Standing frames only count once the hip level has held still for this long. */
+const STILL_WINDOW_MS = 1000
+/** Hip level range within the window, relative to torso length, that still counts as standing still. */
+const STILL_MAX_HIP_RANGE = 0.05
+/** Ankle separation must change this much (image-height units) within the window to count as walking. */
+const WALKING_MIN_ANKLE_TRAVEL = 0.05
+const WALKING_WINDOW_MS = 1200
+/** Walking is given up (noWalking) after this long without enough walking frames. */
+const WALKING_MAX_MS = 20_000
+
+const LOW_QUALITY = 70
+const UNSTEADY_SWAY = 0.05
+const LEG_LENGTH_MISMATCH = 0.1
+
+function mean(arr: number[]): number {
+  if (arr.length === 0) return 0
+  return arr.reduce((a, b) => a + b, 0) / arr.length
+}
+
+function meanOrNull(arr: number[]): number | null {
+  return arr.length > 0 ? mean(arr) : null
+}
+
+function median(arr: number[]): number | null {
+  if (arr.length === 0) return null
+  const sorted = [...arr].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!
+}
+
+function stddev(arr: number[]): number {
+  if (arr.length < 2) return 0
+  const m = mean(arr)
+  return Math.sqrt(arr.reduce((s, x) => s + (x - m) ** 2, 0) / (arr.length - 1))
+}
+
+function round(value: number | null, factor: number): number | null {
+  return value == null ? null : Math.round(value * factor) / factor
+}
+
+type StandingField =
+  | 'midHipY'
+  | 'midShoulderY'
+  | 'trunkLeanDeg'
+  | 'legLength'
+  | 'bodyWidthRatio'
+  | 'standingHeight'
+  | 'torsoLength'
+  | 'shoulderWidth'
+  | 'hipWidth'
+  | 'kneeFlexionDeg'
+  | 'pelvicTiltDeg'
+  | 'shoulderTiltDeg'
+  | 'frameQuality'
+
+const STANDING_FIELDS: StandingField[] = [
+  'midHipY',
+  'midShoulderY',
+  'trunkLeanDeg',
+  'legLength',
+  'bodyWidthRatio',
+  'standingHeight',
+  'torsoLength',
+  'shoulderWidth',
+  'hipWidth',
+  'kneeFlexionDeg',
+  'pelvicTiltDeg',
+  'shoulderTiltDeg',
+  'frameQuality',
+]
+
+export class CalibrationSession {
+  private currentStage: CalibrationStage = 'standing'
+  private goodMs = 0
+  private lastGoodTime: number | null = null
+  private standing = new Map<StandingField, number[]>(STANDING_FIELDS.map((f) => [f, []]))
+  private hipLevels: { t: number; v: number }[] = []
+  private walkingLegLengths: number[] = []
+  private walkingQualities: number[] = []
+  private ankleSeparations: { t: number; v: number }[] = []
+  private walkingStartTime: number | null = null
+  private walkingSkipped = false
+
+  get stage(): CalibrationStage {
+    return this.currentStage
+  }
+
+  get done(): boolean {
+    return this.currentStage === 'walking' && this.walkingSkipped
+  }
+
+  addFrame(data: CalibrationFramePayload, timestampMs: number): CalibrationProgress {
+    if (this.done) return this.progress(false)
+    const usable = data.isGood && data.midHipY != null && data.midShoulderY != null
+    if (!usable) this.hipLevels = []
+    const isGood =
+      usable &&
+      (this.currentStage === 'standing'
+        ? this.isStill(data, timestampMs)
+        : this.isWalking(data, timestampMs))
+
+    if (this.currentStage === 'walking') {
+      this.walkingStartTime ??= timestampMs
+      if (timestampMs - this.walkingStartTime > WALKING_MAX_MS) this.walkingSkipped = true
+    }
+    if (!isGood || this.done) {
+      this.lastGoodTime = null
+      return this.progress(isGood)
+    }
+
+    if (this.lastGoodTime != null) {
+      this.goodMs += Math.min(MAX_FRAME_GAP_MS, timestampMs - this.lastGoodTime)
+    }
+    this.lastGoodTime = timestampMs
+
+    if (this.currentStage === 'standing') {
+      for (const field of STANDING_FIELDS) {
+        const value = data[field]
+        if (value != null) this.standing.get(field)!.push(value)
+      }
+      if (this.goodMs >= CALIBRATION_STAGE_MS.standing) {
+        this.currentStage = 'walking'
+        this.goodMs = 0
+        this.lastGoodTime = null
+        return { stage: 'standing', goodMs: CALIBRATION_STAGE_MS.standing, isGood, done: false }
+      }
+    } else {
+      if (data.legLength != null) this.walkingLegLengths.push(data.legLength)
+      this.walkingQualities.push(data.frameQuality)
+      if (this.goodMs >= CALIBRATION_STAGE_MS.walking) {
+        return { stage: 'walking', goodMs: CALIBRATION_STAGE_MS.walking, isGood, done: true }
+      }
+    }
+    return this.progress(isGood)
+  }
+
+  /** Ends the walking stage now (user skipped it); standing must be finished. */
+  skipWalking(): void {
+    if (this.currentStage === 'walking') this.walkingSkipped = true
+  }
+
+  finish(): CalibrationResult {
+    const values = (field: StandingField) => this.standing.get(field)!
+    const torsoLength = meanOrNull(values('torsoLength'))
+    const legLength = meanOrNull(values('legLength'))
+    const walked = this.walkingQualities.length > 0 && !this.walkingSkipped
+    const walkingLegLength = walked ? median(this.walkingLegLengths) : null
+
+    const standingQuality = Math.round(mean(values('frameQuality')))
+    const walkingQuality = walked ? Math.round(mean(this.walkingQualities)) : null
+    const standingSway =
+      torsoLength != null && torsoLength > 0
+        ? round(stddev(values('midHipY')) / torsoLength, 1000)
+        : null
+    const legLengthDeviation =
+      legLength != null && legLength > 0 && walkingLegLength != null
+        ? round(walkingLegLength / legLength - 1, 100)
+        : null
+
+    const issues: CalibrationIssue[] = []
+    if (standingSway != null && standingSway > UNSTEADY_SWAY) issues.push('unsteady')
+    if (legLength == null) issues.push('legsHidden')
+    if (!walked) issues.push('noWalking')
+    if (legLengthDeviation != null && Math.abs(legLengthDeviation) > LEG_LENGTH_MISMATCH) {
+      issues.push('legLengthMismatch')
+    }
+    if (Math.min(standingQuality, walkingQuality ?? 100) < LOW_QUALITY) issues.push('lowQuality')
+    const rating =
+      issues.length === 0
+        ? 'good'
+        : issues.includes('legsHidden') || issues.includes('lowQuality') || issues.length > 1
+          ? 'poor'
+          : 'fair'
+
+    return {
+      hipY: mean(values('midHipY')),
+      torsoY: mean(values('midShoulderY')),
+      trunkLeanDeg: mean(values('trunkLeanDeg')),
+      legLength,
+      view: classifyCameraView(mean(values('bodyWidthRatio'))),
+      standingHeight: meanOrNull(values('standingHeight')),
+      torsoLength: round(torsoLength, 1000),
+      body: {
+        shoulderWidth: round(meanOrNull(values('shoulderWidth')), 1000),
+        hipWidth: round(meanOrNull(values('hipWidth')), 1000),
+      },
+      posture: {
+        kneeFlexionDeg: round(meanOrNull(values('kneeFlexionDeg')), 10),
+        pelvicTiltDeg: round(meanOrNull(values('pelvicTiltDeg')), 10),
+        shoulderTiltDeg: round(meanOrNull(values('shoulderTiltDeg')), 10),
+      },
+      report: {
+        rating,
+        standingQuality,
+        walkingQuality,
+        standingSway,
+        legLengthDeviation,
+        issues,
+      },
+    }
+  }
+
+  private progress(isGood: boolean): CalibrationProgress {
+    return { stage: this.currentStage, goodMs: this.goodMs, isGood, done: this.done }
+  }
+
+  /** Over a full window of usable frames, the hip level stayed within STILL_MAX_HIP_RANGE. */
+  private isStill(data: CalibrationFramePayload, timestampMs: number): boolean {
+    if (data.midHipY == null || data.torsoLength == null || data.torsoLength <= 0) return false
+    this.hipLevels.push({ t: timestampMs, v: data.midHipY })
+    const cutoff = timestampMs - STILL_WINDOW_MS
+    // Keep the last level at or before the cutoff, so a short window can be told from a full one.
+    while (this.hipLevels.length > 1 && this.hipLevels[1]!.t <= cutoff) this.hipLevels.shift()
+    if (this.hipLevels[0]!.t > cutoff) return false
+    const levels = this.hipLevels.map((h) => h.v)
+    return (Math.max(...levels) - Math.min(...levels)) / data.torsoLength <= STILL_MAX_HIP_RANGE
+  }
+
+  /** The distance between the ankles keeps changing while walking, not while standing still. */
+  private isWalking(data: CalibrationFramePayload, timestampMs: number): boolean {
+    if (data.ankleSeparation != null) {
+      this.ankleSeparations.push({ t: timestampMs, v: data.ankleSeparation })
+    }
+    const cutoff = timestampMs - WALKING_WINDOW_MS
+    this.ankleSeparations = this.ankleSeparations.filter((s) => s.t >= cutoff)
+    if (this.ankleSeparations.length < 2) return false
+    const seps = this.ankleSeparations.map((s) => s.v)
+    return Math.max(...seps) - Math.min(...seps) >= WALKING_MIN_ANKLE_TRAVEL
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { CameraShiftDetector, type CameraShiftEvent } from './cameraShift'
+import { getTrackingFrameData } from './frameQuality'
+import {
+  SYNTHETIC_BASELINE,
+  syntheticRun,
+  type SyntheticCameraMove,
+  type SyntheticGait,
+} from './syntheticRunner'
+
+const GAIT: SyntheticGait = { stepMs: { L: 330, R: 330 }, contactMs: { L: 250, R: 250 } }
+const FRAME_MS = 33
+
+function detect(
+  cameraMove: SyntheticCameraMove | null,
+  durationMs = 20_000
+): { detector: CameraShiftDetector; events: CameraShiftEvent[] } {
+  const detector = new CameraShiftDetector()
+  const events: CameraShiftEvent[] = []
+  for (const frame of syntheticRun(GAIT, durationMs, FRAME_MS, cameraMove)) {
+    const track = getTrackingFrameData({ poseLandmarks: frame.landmarks }, 100)
+    const event = track ? detector.update(track, frame.timestampMs) : null
+    if (event) events.push(event)
+  }
+  return { detector, events }
+}
+
+describe('CameraShiftDetector', () => {
+  it('ignores the stride bounce of steady running', () => {
+    const { detector, events } = detect(null)
+    expect(events).toEqual([])
+    expect(detector.moved).toBe(false)
+  })
+
+  it('reports a shift from its first frame and the end once the image is steady again', () => {
+    const { detector, events } = detect({ atMs: 8000, dx: 0.2, dy: 0 })
+    expect(events).toHaveLength(2)
+    const [start, end] = events
+    expect(start!.startMs).toBeGreaterThanOrEqual(8000)
+    expect(start!.startMs).toBeLessThan(8000 + FRAME_MS)
+    expect(start!.endMs).toBeNull()
+    expect(end!.startMs).toBe(start!.startMs)
+    expect(end!.endMs! - end!.startMs).toBeGreaterThanOrEqual(3000)
+    expect(end!.endMs! - end!.startMs).toBeLessThan(5000)
+    expect(detector.moved).toBe(false)
+  })
+
+  it('stays paused while the camera keeps moving', () => {
+    const { detector, events } = detect({ atMs: 8000, dx: 0.2, dy: 0 }, 10_000)
+    expect(events.map((e) => e.endMs)).toEqual([null])
+    expect(detector.moved).toBe(true)
+  })
+
+  it('moves and rescales the baseline with the camera', () => {
+    const { detector } = detect({ atMs: 8000, dx: 0, dy: -0.1, scale: 1.25 })
+    const baseline = detector.rebaseline({ ...SYNTHETIC_BASELINE, cmPerUnit: 200 })
+    // The synthetic standing hip level equals the mean running hip level, so it moves with it.
+    expect(baseline.hipY).toBeCloseTo(SYNTHETIC_BASELINE.hipY - 0.1, 2)
+    expect(baseline.legLength).toBeCloseTo(SYNTHETIC_BASELINE.legLength! * 1.25, 2)
+    expect(baseline.cmPerUnit).toBeCloseTo(200 / 1.25, 0)
+    expect(baseline.trunkLeanDeg).toBeCloseTo(0, 0)
+  })
+})
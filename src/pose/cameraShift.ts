@@ -0,0 +1,163 @@
+/**
+ * RunForm PoC – Camera movement during tracking: a bumped stand or a slipping phone moves or
+ * rescales the runner in the image and leaves the calibration baseline stale.
+ * Hip position and torso length are averaged over the last second (evening out the stride bounce)
+ * and compared with the seconds before; a jump beyond SHIFT_MIN_OFFSET torso lengths or a scale
+ * change beyond SHIFT_MIN_SCALE is a camera shift. Metrics pause until the position has been
+ * steady for STABLE_BINS seconds, then rebaseline() moves and rescales the baseline to match.
+ */
+
+import { computeTrunkLean } from './kinematics'
+import type { MetricsBaseline, MetricsFrame } from './metrics'
+
+export type CameraShiftEvent = {
+  /** Frame time of the first frame seen from the moved camera. */
+  startMs: number
+  /** Frame time the baseline was re-established; null while metrics are paused. */
+  endMs: number | null
+}
+
+/** Averages per frame / window; x, y in aspect-scaled image units, lean in degrees. */
+type Position = { x: number; y: number; torso: number; lean: number }
+type PositionFrame = Position & { t: number }
+
+const BIN_MS = 1000
+/** Seconds before the latest one that it is compared with. */
+const REFERENCE_MS = 3000
+/** The reference needs at least this span of frames (after start or a shift). */
+const REFERENCE_MIN_SPAN_MS = 2000
+const MIN_BIN_FRAMES = 5
+/** Hip offset in torso lengths; running bounce and treadmill drift stay well below. */
+const SHIFT_MIN_OFFSET = 0.5
+/** Relative torso length change (closer to / further from the camera). */
+const SHIFT_MIN_SCALE = 0.15
+/** Consecutive one-second bins that must agree before the baseline is re-established. */
+const STABLE_BINS = 3
+const STABLE_MAX_OFFSET = 0.2
+const STABLE_MAX_SCALE = 0.08
+const HISTORY_MS = Math.max(BIN_MS + REFERENCE_MS, STABLE_BINS * BIN_MS)
+
+function average(frames: PositionFrame[]): Position {
+  const sum = frames.reduce(
+    (acc, f) => ({
+      x: acc.x + f.x,
+      y: acc.y + f.y,
+      torso: acc.torso + f.torso,
+      lean: acc.lean + f.lean,
+    }),
+    { x: 0, y: 0, torso: 0, lean: 0 }
+  )
+  const n = frames.length
+  return { x: sum.x / n, y: sum.y / n, torso: sum.torso / n, lean: sum.lean / n }
+}
+
+function isMoved(from: Position, to: Position, maxOffset: number, maxScale: number): boolean {
+  const offset = Math.hypot(to.x - from.x, to.y - from.y) / from.torso
+  return offset > maxOffset || Math.abs(to.torso / from.torso - 1) > maxScale
+}
+
+export class CameraShiftDetector {
+  private frames: PositionFrame[] = []
+  private reference: Position | null = null
+  /** Reference before the ongoing shift and the steady position after it. */
+  private before: Position | null = null
+  private after: Position | null = null
+  private current: CameraShiftEvent | null = null
+
+  /** True from a shift until the new baseline is ready; metrics should not be fed meanwhile. */
+  get moved(): boolean {
+    return this.current != null
+  }
+
+  /**
+   * Every tracking frame. Returns the event when a shift starts (endMs null) and again when the
+   * position is steady and rebaseline() can be used (endMs set); otherwise null.
+   */
+  update(frame: MetricsFrame, timestampMs: number): CameraShiftEvent | null {
+    const torso = Math.hypot(
+      frame.midShoulder.x - frame.midHip.x,
+      frame.midShoulder.y - frame.midHip.y
+    )
+    if (torso <= 0) return null
+    this.frames.push({
+      t: timestampMs,
+      x: frame.midHip.x,
+      y: frame.midHip.y,
+      torso,
+      lean: computeTrunkLean(frame.midShoulder, frame.midHip, frame.facing),
+    })
+    const cutoff = timestampMs - HISTORY_MS
+    this.frames = this.frames.filter((f) => f.t >= cutoff)
+    return this.current ? this.checkSteady(timestampMs) : this.checkShift(timestampMs)
+  }
+
+  /**
+   * The baseline moved to the new camera position: standing hip level keeps its offset from the
+   * running hip level, lengths and the cm scale follow the torso length, and the standing trunk
+   * lean takes the camera's change in roll (any sudden lean change across the shift counts as roll).
+   */
+  rebaseline(baseline: MetricsBaseline): MetricsBaseline {
+    const { before, after } = this
+    if (!before || !after) return baseline
+    const scale = after.torso / before.torso
+    const scaled = (v: number | null) => (v != null ? v * scale : null)
+    return {
+      ...baseline,
+      hipY: after.y + (baseline.hipY - before.y) * scale,
+      trunkLeanDeg: baseline.trunkLeanDeg + after.lean - before.lean,
+      legLength: scaled(baseline.legLength),
+      cmPerUnit: baseline.cmPerUnit != null ? baseline.cmPerUnit / scale : null,
+      ...(baseline.body
+        ? {
+            body: {
+              shoulderWidth: scaled(baseline.body.shoulderWidth),
+              hipWidth: scaled(baseline.body.hipWidth),
+            },
+          }
+        : {}),
+    }
+  }
+
+  private checkShift(timestampMs: number): CameraShiftEvent | null {
+    const binStart = timestampMs - BIN_MS
+    const earlier = this.frames.filter((f) => f.t <= binStart)
+    if (earlier.length >= MIN_BIN_FRAMES && binStart - earlier[0]!.t >= REFERENCE_MIN_SPAN_MS) {
+      this.reference = average(earlier)
+    }
+    const recent = this.frames.filter((f) => f.t > binStart)
+    const reference = this.reference
+    if (!reference || recent.length < MIN_BIN_FRAMES) return null
+    if (!isMoved(reference, average(recent), SHIFT_MIN_OFFSET, SHIFT_MIN_SCALE)) return null
+
+    // Single frames include the stride bounce, but a real jump is far larger.
+    const first = recent.find((f) => isMoved(reference, f, SHIFT_MIN_OFFSET, SHIFT_MIN_SCALE))
+    const startMs = (first ?? recent[0]!).t
+    this.current = { startMs, endMs: null }
+    this.before = reference
+    this.after = null
+    this.reference = null
+    this.frames = this.frames.filter((f) => f.t >= startMs)
+    return { ...this.current }
+  }
+
+  private checkSteady(timestampMs: number): CameraShiftEvent | null {
+    if (!this.current || timestampMs - this.current.startMs < STABLE_BINS * BIN_MS) return null
+    const bins: Position[] = []
+    for (let i = STABLE_BINS; i > 0; i--) {
+      const from = timestampMs - i * BIN_MS
+      const bin = this.frames.filter((f) => f.t > from && f.t <= from + BIN_MS)
+      if (bin.length < MIN_BIN_FRAMES) return null
+      bins.push(average(bin))
+    }
+    const steady = bins.every((bin) =>
+      bins.every((other) => !isMoved(bin, other, STABLE_MAX_OFFSET, STABLE_MAX_SCALE))
+    )
+    if (!steady) return null
+
+    this.after = average(this.frames.filter((f) => f.t > timestampMs - STABLE_BINS * BIN_MS))
+    this.current.endMs = timestampMs
+    const ended = { ...this.current }
+    this.current = null
+    return ended
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * RunForm PoC – Deterministic pose backend that plays back scripted landmarks.
+ * One scripted frame per detect() call, independent of time and camera, so a PoseRunner
+ * can be driven frame by frame (runner.processFrame) in tests or demos.
+ */
+
+import type { NormalizedLandmarkList } from '@mediapipe/pose';
+import type { PoseBackend } from './poseBackend';
+
+/** null = frame without a detected pose. */
+export type ScriptedPoseFrame = NormalizedLandmarkList | null;
+
+export type FakePoseBackendOptions = {
+  /** Start over after the last frame instead of returning null. */
+  loop?: boolean;
+};
+
+export class FakePoseBackend implements PoseBackend {
+  readonly kind = 'fake';
+  private readonly frames: readonly ScriptedPoseFrame[];
+  private readonly loop: boolean;
+  private index = 0;
+
+  constructor(frames: readonly ScriptedPoseFrame[], options: FakePoseBackendOptions = {}) {
+    this.frames = frames;
+    this.loop = options.loop ?? false;
+  }
+
+  async initialize(): Promise<void> {
+    this.index = 0;
+  }
+
+  async detect(): Promise<NormalizedLandmarkList | null> {
+    if (this.index >= this.frames.length) {
+      if (!this.loop || this.frames.length === 0) return null;
+      this.index = 0;
+    }
+    const frame = this.frames[this.index] ?? null;
+    this.index += 1;
+    return frame;
+  }
+
+  /** Scripted frames do not depend on the model. */
+  async setModelComplexity(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.index = 0;
+  }
+}
@@ -1,5 +1,6 @@
 /**
- * RunForm PoC – Frame quality score and hints from MediaPipe Pose landmarks.
+ * RunForm PoC – Frame quality score and hints from MediaPipe Pose landmarks,
+ * weighted by the pixel-based image quality (imageQuality.ts) where a camera image exists.
  */
 
 import {
@@ -8,6 +9,8 @@ import {
   POSE_LANDMARKS_RIGHT,
   type Results,
 } from '@mediapipe/pose';
+import type { ImageQuality } from './imageQuality';
+import { angleAt, computeTrunkLean } from './kinematics';
 
 const KEY_LANDMARK_INDICES = [
   POSE_LANDMARKS.NOSE,
@@ -35,6 +38,9 @@ const RIGHT_KEY_INDICES = [
   POSE_LANDMARKS_RIGHT.RIGHT_ANKLE,
 ];
 
+/** Only the landmarks are read, so any pose backend can feed these helpers. */
+export type PoseResults = Pick<Results, 'poseLandmarks'>;
+
 function getVisibility(landmarks: Results['poseLandmarks'], index: number): number {
   const lm = landmarks?.[index];
   return lm != null && typeof lm.visibility === 'number' ? lm.visibility : 0;
@@ -57,16 +63,58 @@ function avgVisibility(
 
 export type FrameQualityHint = {
   shoulderWidthNormalized: number | null;
+  hipWidthNormalized: number | null;
   noseAndAnklesOk: boolean;
+  /** Light / blur from the pixels; null without a camera image (replay). */
+  image: ImageQuality | null;
 };
 
+export type CameraView = 'side' | 'front';
+
+/** Mean of shoulder and hip width / torso length at or above this = camera in front. */
+const FRONT_VIEW_WIDTH_RATIO = 0.4;
+
+/**
+ * Body width vs torso length (aspect-scaled). Side view ≈ 0.1–0.3 (shoulders overlap),
+ * front view ≈ 0.6–0.9. Independent of distance to camera.
+ */
+function getBodyWidthRatio(
+  landmarks: NonNullable<Results['poseLandmarks']>,
+  aspectRatio: number
+): number | null {
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  if (leftShoulder == null || rightShoulder == null || leftHip == null || rightHip == null) {
+    return null;
+  }
+  const shoulderWidth = Math.abs(leftShoulder.x - rightShoulder.x) * aspectRatio;
+  const hipWidth = Math.abs(leftHip.x - rightHip.x) * aspectRatio;
+  const torsoLength = Math.hypot(
+    ((leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2) * aspectRatio,
+    (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2
+  );
+  if (torsoLength === 0) return null;
+  return (shoulderWidth + hipWidth) / 2 / torsoLength;
+}
+
+/** Camera view from the calibration-averaged body width ratio. */
+export function classifyCameraView(bodyWidthRatio: number): CameraView {
+  return bodyWidthRatio >= FRONT_VIEW_WIDTH_RATIO ? 'front' : 'side';
+}
+
 /**
  * Compute frame quality score 0–100 from pose results.
  * VisibilityScore = avg visibility of key landmarks.
  * FullBodyBonus = +0.15 if nose and both ankles visibility > 0.6.
  * SymmetryPenalty = -0.10 if left vs right key visibility diff > 0.35.
+ * The sum is multiplied by the image quality score (light, blur) when given.
  */
-export function computeFrameQuality(results: Results): number {
+export function computeFrameQuality(
+  results: PoseResults,
+  image: ImageQuality | null = null
+): number {
   const landmarks = results.poseLandmarks;
   if (!landmarks?.length) return 0;
 
@@ -86,17 +134,26 @@ export function computeFrameQuality(results: Results): number {
     Math.abs(leftAvg - rightAvg) > 0.35 ? -0.1 : 0;
 
   const raw =
-    (visibilityScore + fullBodyBonus + symmetryPenalty) * 100;
+    (visibilityScore + fullBodyBonus + symmetryPenalty) * (image?.score ?? 1) * 100;
   return Math.max(0, Math.min(100, Math.round(raw)));
 }
 
 /**
- * Hint for auto-check messages: shoulder width (normalized) and whether nose + ankles are ok.
+ * Hint for auto-check messages: shoulder and hip width (normalized), whether nose + ankles are ok,
+ * and the image quality (also without a pose, so darkness can be told from an empty frame).
  */
-export function getFrameQualityHint(results: Results): FrameQualityHint {
+export function getFrameQualityHint(
+  results: PoseResults,
+  image: ImageQuality | null = null
+): FrameQualityHint {
   const landmarks = results.poseLandmarks;
   if (!landmarks?.length) {
-    return { shoulderWidthNormalized: null, noseAndAnklesOk: false };
+    return {
+      shoulderWidthNormalized: null,
+      hipWidthNormalized: null,
+      noseAndAnklesOk: false,
+      image,
+    };
   }
 
   const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
@@ -105,6 +162,10 @@ export function getFrameQualityHint(results: Results): FrameQualityHint {
     leftShoulder != null && rightShoulder != null
       ? Math.abs(leftShoulder.x - rightShoulder.x)
       : null;
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  const hipWidthNormalized =
+    leftHip != null && rightHip != null ? Math.abs(leftHip.x - rightHip.x) : null;
 
   const noseVis = getVisibility(landmarks, POSE_LANDMARKS.NOSE);
   const leftAnkleVis = getVisibility(landmarks, POSE_LANDMARKS_LEFT.LEFT_ANKLE);
@@ -112,28 +173,264 @@ export function getFrameQualityHint(results: Results): FrameQualityHint {
   const noseAndAnklesOk =
     noseVis > 0.6 && leftAnkleVis > 0.6 && rightAnkleVis > 0.6;
 
-  return { shoulderWidthNormalized, noseAndAnklesOk };
+  return { shoulderWidthNormalized, hipWidthNormalized, noseAndAnklesOk, image };
+}
+
+/**
+ * Running direction in image x: +1 = toward +x, -1 = toward -x.
+ * Nose vs mid-ear is stable through the stride; falls back to the feet (heel → foot index).
+ */
+function getFacing(landmarks: NonNullable<Results['poseLandmarks']>): 1 | -1 {
+  const nose = landmarks[POSE_LANDMARKS.NOSE];
+  const leftEar = landmarks[POSE_LANDMARKS.LEFT_EAR];
+  const rightEar = landmarks[POSE_LANDMARKS.RIGHT_EAR];
+  if (nose != null && leftEar != null && rightEar != null) {
+    const dx = nose.x - (leftEar.x + rightEar.x) / 2;
+    if (Math.abs(dx) > 0.005) return dx > 0 ? 1 : -1;
+  }
+  let footDx = 0;
+  for (const [heelIndex, toeIndex] of [
+    [POSE_LANDMARKS_LEFT.LEFT_HEEL, POSE_LANDMARKS_LEFT.LEFT_FOOT_INDEX],
+    [POSE_LANDMARKS_RIGHT.RIGHT_HEEL, POSE_LANDMARKS_RIGHT.RIGHT_FOOT_INDEX],
+  ] as const) {
+    const heel = landmarks[heelIndex];
+    const toe = landmarks[toeIndex];
+    if (heel != null && toe != null) footDx += toe.x - heel.x;
+  }
+  return footDx >= 0 ? 1 : -1;
 }
 
 const CALIBRATION_MIN_VISIBILITY = 0.6;
+/** Head top above the nose, as a share of the nose → mid-shoulder distance. */
+const HEAD_TOP_FACTOR = 0.8;
 
 /**
- * Calibration frame: mid hip Y, mid shoulder Y, and whether frame is good.
+ * Where the body sits in the frame, for the setup guide (setupGuide.ts). Normalized image units.
+ * top = estimated head top, bottom = lowest visible heel / ankle / foot index (null = feet not seen).
+ * tiltDeg = mid-ankle → mid-shoulder axis vs the image vertical (aspect-scaled). Someone standing
+ * still is vertical, so any angle is the camera being rolled; positive = shoulders toward +x.
+ */
+export type SetupFraming = {
+  top: number;
+  bottom: number | null;
+  centerX: number;
+  tiltDeg: number | null;
+};
+
+export function getSetupFraming(
+  results: PoseResults,
+  aspectRatio = 1
+): SetupFraming | null {
+  const landmarks = results.poseLandmarks;
+  if (!landmarks?.length) return null;
+  const nose = landmarks[POSE_LANDMARKS.NOSE];
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  if (
+    nose == null ||
+    leftShoulder == null ||
+    rightShoulder == null ||
+    leftHip == null ||
+    rightHip == null
+  ) {
+    return null;
+  }
+  const midShoulder = {
+    x: (leftShoulder.x + rightShoulder.x) / 2,
+    y: (leftShoulder.y + rightShoulder.y) / 2,
+  };
+  const top = nose.y - Math.max(0, midShoulder.y - nose.y) * HEAD_TOP_FACTOR;
+
+  const feet: { x: number; y: number }[] = [];
+  for (const index of [
+    POSE_LANDMARKS_LEFT.LEFT_ANKLE,
+    POSE_LANDMARKS_RIGHT.RIGHT_ANKLE,
+    POSE_LANDMARKS_LEFT.LEFT_HEEL,
+    POSE_LANDMARKS_RIGHT.RIGHT_HEEL,
+    POSE_LANDMARKS_LEFT.LEFT_FOOT_INDEX,
+    POSE_LANDMARKS_RIGHT.RIGHT_FOOT_INDEX,
+  ]) {
+    const lm = landmarks[index];
+    if (lm != null && getVisibility(landmarks, index) >= CALIBRATION_MIN_VISIBILITY) feet.push(lm);
+  }
+  const bottom = feet.length > 0 ? Math.max(...feet.map((f) => f.y)) : null;
+
+  const leftAnkle = landmarks[POSE_LANDMARKS_LEFT.LEFT_ANKLE];
+  const rightAnkle = landmarks[POSE_LANDMARKS_RIGHT.RIGHT_ANKLE];
+  let tiltDeg: number | null = null;
+  if (
+    leftAnkle != null &&
+    rightAnkle != null &&
+    getVisibility(landmarks, POSE_LANDMARKS_LEFT.LEFT_ANKLE) >= CALIBRATION_MIN_VISIBILITY &&
+    getVisibility(landmarks, POSE_LANDMARKS_RIGHT.RIGHT_ANKLE) >= CALIBRATION_MIN_VISIBILITY
+  ) {
+    const dx = (midShoulder.x - (leftAnkle.x + rightAnkle.x) / 2) * aspectRatio;
+    const dy = (leftAnkle.y + rightAnkle.y) / 2 - midShoulder.y;
+    if (dy > 0) tiltDeg = Math.round(((Math.atan2(dx, dy) * 180) / Math.PI) * 10) / 10;
+  }
+
+  return {
+    top,
+    bottom,
+    centerX: (midShoulder.x + (leftHip.x + rightHip.x) / 2) / 2,
+    tiltDeg,
+  };
+}
+
+/**
+ * Calibration frame: mid hip Y, mid shoulder Y, standing trunk lean, leg length, and whether frame is good.
  * Good = pose + frameQuality >= 60 + hip/shoulder visibility >= 0.6.
+ * Leg length = hip → knee → ankle (aspect-scaled, image-height units), avg of the visible legs.
+ * bodyWidthRatio = shoulder/hip width vs torso length; averaged and passed to classifyCameraView.
+ * standingHeight = nose → lowest visible heel (image-height units); scaled to cm with the profile height.
+ * framing = body position in the frame (see getSetupFraming); also set on frames that are not good.
+ * Body dimensions (torso length, shoulder and hip width) are aspect-scaled image-height units;
+ * tilts are the shoulder / hip line vs horizontal, positive = right side lower.
+ * ankleSeparation (distance between the ankles) changes with every step: calibration uses it to
+ * tell walking from standing.
  */
 export type CalibrationFrameData = {
   midHipY: number | null;
   midShoulderY: number | null;
+  trunkLeanDeg: number | null;
+  legLength: number | null;
+  bodyWidthRatio: number | null;
+  standingHeight: number | null;
+  torsoLength: number | null;
+  shoulderWidth: number | null;
+  hipWidth: number | null;
+  /** Mean knee flexion (°, 0 = straight) of the visible legs. */
+  kneeFlexionDeg: number | null;
+  pelvicTiltDeg: number | null;
+  shoulderTiltDeg: number | null;
+  ankleSeparation: number | null;
+  frameQuality: number;
   isGood: boolean;
+  framing: SetupFraming | null;
 };
 
+function toPoint(lm: { x: number; y: number }, aspectRatio: number): { x: number; y: number } {
+  return { x: lm.x * aspectRatio, y: lm.y };
+}
+
+/** Line from left to right landmark vs horizontal (°); positive = right side lower. */
+function getLineTilt(
+  left: { x: number; y: number },
+  right: { x: number; y: number },
+  aspectRatio: number
+): number {
+  const deg =
+    (Math.atan2(right.y - left.y, Math.abs(right.x - left.x) * aspectRatio) * 180) / Math.PI;
+  return Math.round(deg * 10) / 10;
+}
+
+function getStandingKneeFlexion(
+  landmarks: NonNullable<Results['poseLandmarks']>,
+  aspectRatio: number
+): number | null {
+  const angles: number[] = [];
+  for (const [hipIndex, kneeIndex, ankleIndex] of [
+    [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS_LEFT.LEFT_KNEE, POSE_LANDMARKS_LEFT.LEFT_ANKLE],
+    [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS_RIGHT.RIGHT_KNEE, POSE_LANDMARKS_RIGHT.RIGHT_ANKLE],
+  ] as const) {
+    const hip = landmarks[hipIndex];
+    const knee = landmarks[kneeIndex];
+    const ankle = landmarks[ankleIndex];
+    if (
+      hip == null ||
+      knee == null ||
+      ankle == null ||
+      getVisibility(landmarks, kneeIndex) < CALIBRATION_MIN_VISIBILITY ||
+      getVisibility(landmarks, ankleIndex) < CALIBRATION_MIN_VISIBILITY
+    ) {
+      continue;
+    }
+    angles.push(
+      180 - angleAt(toPoint(hip, aspectRatio), toPoint(knee, aspectRatio), toPoint(ankle, aspectRatio))
+    );
+  }
+  return angles.length > 0
+    ? Math.round((angles.reduce((a, b) => a + b, 0) / angles.length) * 10) / 10
+    : null;
+}
+
+function getStandingHeight(
+  landmarks: NonNullable<Results['poseLandmarks']>
+): number | null {
+  const nose = landmarks[POSE_LANDMARKS.NOSE];
+  if (nose == null || getVisibility(landmarks, POSE_LANDMARKS.NOSE) < CALIBRATION_MIN_VISIBILITY) {
+    return null;
+  }
+  const heelYs: number[] = [];
+  for (const heelIndex of [POSE_LANDMARKS_LEFT.LEFT_HEEL, POSE_LANDMARKS_RIGHT.RIGHT_HEEL]) {
+    const heel = landmarks[heelIndex];
+    if (heel != null && getVisibility(landmarks, heelIndex) >= CALIBRATION_MIN_VISIBILITY) {
+      heelYs.push(heel.y);
+    }
+  }
+  if (heelYs.length === 0) return null;
+  const height = Math.max(...heelYs) - nose.y;
+  return height > 0 ? height : null;
+}
+
+function getLegLength(
+  landmarks: NonNullable<Results['poseLandmarks']>,
+  aspectRatio: number
+): number | null {
+  const lengths: number[] = [];
+  for (const [hipIndex, kneeIndex, ankleIndex] of [
+    [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS_LEFT.LEFT_KNEE, POSE_LANDMARKS_LEFT.LEFT_ANKLE],
+    [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS_RIGHT.RIGHT_KNEE, POSE_LANDMARKS_RIGHT.RIGHT_ANKLE],
+  ] as const) {
+    const hip = landmarks[hipIndex];
+    const knee = landmarks[kneeIndex];
+    const ankle = landmarks[ankleIndex];
+    if (
+      hip == null ||
+      knee == null ||
+      ankle == null ||
+      getVisibility(landmarks, kneeIndex) < CALIBRATION_MIN_VISIBILITY ||
+      getVisibility(landmarks, ankleIndex) < CALIBRATION_MIN_VISIBILITY
+    ) {
+      continue;
+    }
+    const thigh = Math.hypot((knee.x - hip.x) * aspectRatio, knee.y - hip.y);
+    const shank = Math.hypot((ankle.x - knee.x) * aspectRatio, ankle.y - knee.y);
+    lengths.push(thigh + shank);
+  }
+  return lengths.length > 0
+    ? lengths.reduce((a, b) => a + b, 0) / lengths.length
+    : null;
+}
+
 export function getCalibrationFrameData(
-  results: Results,
-  frameQuality: number
+  results: PoseResults,
+  frameQuality: number,
+  aspectRatio = 1
 ): CalibrationFrameData {
   const landmarks = results.poseLandmarks;
+  const framing = getSetupFraming(results, aspectRatio);
   if (!landmarks?.length || frameQuality < 60) {
-    return { midHipY: null, midShoulderY: null, isGood: false };
+    return {
+      midHipY: null,
+      midShoulderY: null,
+      trunkLeanDeg: null,
+      legLength: null,
+      bodyWidthRatio: null,
+      standingHeight: null,
+      torsoLength: null,
+      shoulderWidth: null,
+      hipWidth: null,
+      kneeFlexionDeg: null,
+      pelvicTiltDeg: null,
+      shoulderTiltDeg: null,
+      ankleSeparation: null,
+      frameQuality,
+      isGood: false,
+      framing,
+    };
   }
 
   const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
@@ -157,21 +454,193 @@ export function getCalibrationFrameData(
       ? (leftShoulder.y + rightShoulder.y) / 2
       : null;
 
+  const trunkLeanDeg =
+    leftHip != null && rightHip != null && leftShoulder != null && rightShoulder != null
+      ? computeTrunkLean(
+          { x: ((leftShoulder.x + rightShoulder.x) / 2) * aspectRatio, y: midShoulderY! },
+          { x: ((leftHip.x + rightHip.x) / 2) * aspectRatio, y: midHipY! },
+          getFacing(landmarks)
+        )
+      : null;
+
   const isGood =
     hipVisOk &&
     shoulderVisOk &&
     midHipY != null &&
     midShoulderY != null;
 
-  return { midHipY, midShoulderY, isGood };
+  const legLength = getLegLength(landmarks, aspectRatio);
+  const bodyWidthRatio = getBodyWidthRatio(landmarks, aspectRatio);
+  const standingHeight = getStandingHeight(landmarks);
+
+  const shouldersOk = leftShoulder != null && rightShoulder != null && shoulderVisOk;
+  const hipsOk = leftHip != null && rightHip != null && hipVisOk;
+  const torsoLength =
+    shouldersOk && hipsOk
+      ? Math.hypot(
+          ((leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2) * aspectRatio,
+          midShoulderY! - midHipY!
+        )
+      : null;
+  const shoulderWidth = shouldersOk
+    ? Math.hypot((leftShoulder.x - rightShoulder.x) * aspectRatio, leftShoulder.y - rightShoulder.y)
+    : null;
+  const hipWidth = hipsOk
+    ? Math.hypot((leftHip.x - rightHip.x) * aspectRatio, leftHip.y - rightHip.y)
+    : null;
+
+  const leftAnkle = landmarks[POSE_LANDMARKS_LEFT.LEFT_ANKLE];
+  const rightAnkle = landmarks[POSE_LANDMARKS_RIGHT.RIGHT_ANKLE];
+  const ankleSeparation =
+    leftAnkle != null &&
+    rightAnkle != null &&
+    getVisibility(landmarks, POSE_LANDMARKS_LEFT.LEFT_ANKLE) >= CALIBRATION_MIN_VISIBILITY &&
+    getVisibility(landmarks, POSE_LANDMARKS_RIGHT.RIGHT_ANKLE) >= CALIBRATION_MIN_VISIBILITY
+      ? Math.hypot((leftAnkle.x - rightAnkle.x) * aspectRatio, leftAnkle.y - rightAnkle.y)
+      : null;
+
+  return {
+    midHipY,
+    midShoulderY,
+    trunkLeanDeg,
+    legLength,
+    bodyWidthRatio,
+    standingHeight,
+    torsoLength,
+    shoulderWidth,
+    hipWidth,
+    kneeFlexionDeg: getStandingKneeFlexion(landmarks, aspectRatio),
+    pelvicTiltDeg: hipsOk ? getLineTilt(leftHip, rightHip, aspectRatio) : null,
+    shoulderTiltDeg: shouldersOk ? getLineTilt(leftShoulder, rightShoulder, aspectRatio) : null,
+    ankleSeparation,
+    frameQuality,
+    isGood,
+    framing,
+  };
 }
 
 const METRICS_MIN_FRAME_QUALITY = 55;
 
+export type Point2D = { x: number; y: number };
+
+/**
+ * One leg's landmarks for contact detection and joint angles. x is multiplied by the frame
+ * aspect ratio (width / height) so both axes are in image-height units and angles are not skewed.
+ */
+export type LegLandmarks = {
+  shoulder: Point2D;
+  hip: Point2D;
+  knee: Point2D;
+  ankle: Point2D;
+  heel: Point2D;
+  footIndex: Point2D;
+};
+
+/** Per-leg tracking data; ankleVis lets metrics skip a hidden leg. */
+export type LegFrame = {
+  ankleVis: number;
+  landmarks: LegLandmarks;
+};
+
+/** Arm landmarks (aspect-scaled like legs); visibility = min of elbow and wrist. */
+export type ArmLandmarks = {
+  shoulder: Point2D;
+  elbow: Point2D;
+  wrist: Point2D;
+  visibility: number;
+};
+
+const ARM_INDICES = {
+  L: {
+    shoulder: POSE_LANDMARKS.LEFT_SHOULDER,
+    elbow: POSE_LANDMARKS.LEFT_ELBOW,
+    wrist: POSE_LANDMARKS.LEFT_WRIST,
+  },
+  R: {
+    shoulder: POSE_LANDMARKS.RIGHT_SHOULDER,
+    elbow: POSE_LANDMARKS.RIGHT_ELBOW,
+    wrist: POSE_LANDMARKS.RIGHT_WRIST,
+  },
+} as const;
+
+function getArmLandmarks(
+  landmarks: NonNullable<Results['poseLandmarks']>,
+  side: 'L' | 'R',
+  aspectRatio: number
+): ArmLandmarks | null {
+  const idx = ARM_INDICES[side];
+  const shoulder = landmarks[idx.shoulder];
+  const elbow = landmarks[idx.elbow];
+  const wrist = landmarks[idx.wrist];
+  if (shoulder == null || elbow == null || wrist == null) return null;
+  return {
+    shoulder: { x: shoulder.x * aspectRatio, y: shoulder.y },
+    elbow: { x: elbow.x * aspectRatio, y: elbow.y },
+    wrist: { x: wrist.x * aspectRatio, y: wrist.y },
+    visibility: Math.min(
+      getVisibility(landmarks, idx.elbow),
+      getVisibility(landmarks, idx.wrist)
+    ),
+  };
+}
+
+const LEG_INDICES = {
+  L: {
+    shoulder: POSE_LANDMARKS.LEFT_SHOULDER,
+    hip: POSE_LANDMARKS.LEFT_HIP,
+    knee: POSE_LANDMARKS_LEFT.LEFT_KNEE,
+    ankle: POSE_LANDMARKS_LEFT.LEFT_ANKLE,
+    heel: POSE_LANDMARKS_LEFT.LEFT_HEEL,
+    footIndex: POSE_LANDMARKS_LEFT.LEFT_FOOT_INDEX,
+  },
+  R: {
+    shoulder: POSE_LANDMARKS.RIGHT_SHOULDER,
+    hip: POSE_LANDMARKS.RIGHT_HIP,
+    knee: POSE_LANDMARKS_RIGHT.RIGHT_KNEE,
+    ankle: POSE_LANDMARKS_RIGHT.RIGHT_ANKLE,
+    heel: POSE_LANDMARKS_RIGHT.RIGHT_HEEL,
+    footIndex: POSE_LANDMARKS_RIGHT.RIGHT_FOOT_INDEX,
+  },
+} as const;
+
+function getLegFrame(
+  landmarks: NonNullable<Results['poseLandmarks']>,
+  side: 'L' | 'R',
+  aspectRatio: number
+): LegFrame | null {
+  const idx = LEG_INDICES[side];
+  const shoulder = landmarks[idx.shoulder];
+  const hip = landmarks[idx.hip];
+  const knee = landmarks[idx.knee];
+  const ankle = landmarks[idx.ankle];
+  if (shoulder == null || hip == null || knee == null || ankle == null) {
+    return null;
+  }
+  const toPoint = (lm: { x: number; y: number }): Point2D => ({
+    x: lm.x * aspectRatio,
+    y: lm.y,
+  });
+  return {
+    ankleVis: getVisibility(landmarks, idx.ankle),
+    landmarks: {
+      shoulder: toPoint(shoulder),
+      hip: toPoint(hip),
+      knee: toPoint(knee),
+      ankle: toPoint(ankle),
+      heel: toPoint(landmarks[idx.heel] ?? ankle),
+      footIndex: toPoint(landmarks[idx.footIndex] ?? ankle),
+    },
+  };
+}
+
 /**
- * Tracking frame for metrics: best-leg ankle/knee Y and visibility, mid hip Y.
+ * Tracking frame for metrics: best-leg ankle/knee Y and visibility, mid hip Y, plus both legs.
  * Only when pose + frameQuality >= 55.
- * Best leg = higher ankle visibility (L vs R). Step detection can use ankle or knee by visibility.
+ * Best leg = higher ankle visibility (L vs R); it drives the combined cadence step stream.
+ * Step detection can use ankle or knee by visibility.
+ * legs.L / legs.R feed per-leg contact detection, joint angles and left/right symmetry.
+ * arms.L / arms.R feed arm swing (elbow angle, amplitude, crossover).
+ * midShoulder / midHip / facing feed trunk lean (aspect-scaled like legs).
  */
 export type TrackingFrameData = {
   ankleY: number;
@@ -180,11 +649,17 @@ export type TrackingFrameData = {
   kneeVis: number;
   ankleUsed: 'L' | 'R';
   midHipY: number;
+  legs: { L: LegFrame | null; R: LegFrame | null };
+  arms: { L: ArmLandmarks | null; R: ArmLandmarks | null };
+  midShoulder: Point2D;
+  midHip: Point2D;
+  facing: 1 | -1;
 } | null;
 
 export function getTrackingFrameData(
-  results: Results,
-  frameQuality: number
+  results: PoseResults,
+  frameQuality: number,
+  aspectRatio = 1
 ): TrackingFrameData {
   const landmarks = results.poseLandmarks;
   if (!landmarks?.length || frameQuality < METRICS_MIN_FRAME_QUALITY) {
@@ -211,10 +686,25 @@ export function getTrackingFrameData(
 
   const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
   const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
-  const midHipY =
-    leftHip != null && rightHip != null
-      ? (leftHip.y + rightHip.y) / 2
-      : 0;
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+  if (
+    leftHip == null ||
+    rightHip == null ||
+    leftShoulder == null ||
+    rightShoulder == null
+  ) {
+    return null;
+  }
+  const midHipY = (leftHip.y + rightHip.y) / 2;
+  const midShoulder = {
+    x: ((leftShoulder.x + rightShoulder.x) / 2) * aspectRatio,
+    y: (leftShoulder.y + rightShoulder.y) / 2,
+  };
+  const midHip = {
+    x: ((leftHip.x + rightHip.x) / 2) * aspectRatio,
+    y: midHipY,
+  };
 
   return {
     ankleY: ankle.y,
@@ -223,5 +713,16 @@ export function getTrackingFrameData(
     kneeVis,
     ankleUsed: useLeft ? 'L' : 'R',
     midHipY,
+    legs: {
+      L: getLegFrame(landmarks, 'L', aspectRatio),
+      R: getLegFrame(landmarks, 'R', aspectRatio),
+    },
+    arms: {
+      L: getArmLandmarks(landmarks, 'L', aspectRatio),
+      R: getArmLandmarks(landmarks, 'R', aspectRatio),
+    },
+    midShoulder,
+    midHip,
+    facing: getFacing(landmarks),
   };
 }
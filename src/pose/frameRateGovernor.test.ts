@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { FrameRateGovernor, type PoseRunSettings } from './frameRateGovernor'
+
+const FULL: PoseRunSettings = { modelComplexity: 1, inputScale: 1 }
+const FULL_REDUCED: PoseRunSettings = { modelComplexity: 1, inputScale: 0.75 }
+const HEAVY: PoseRunSettings = { modelComplexity: 2, inputScale: 1 }
+
+/** One status window per second from fromMs; returns every change. */
+function run(
+  governor: FrameRateGovernor,
+  fps: number,
+  fromMs: number,
+  toMs: number,
+  latencyMs = 5
+): { t: number; settings: PoseRunSettings }[] {
+  const changes: { t: number; settings: PoseRunSettings }[] = []
+  for (let t = fromMs; t <= toMs; t += 1000) {
+    const settings = governor.update(fps, latencyMs, t)
+    if (settings) changes.push({ t, settings })
+  }
+  return changes
+}
+
+describe('FrameRateGovernor', () => {
+  it('starts with the full model at camera resolution', () => {
+    expect(new FrameRateGovernor().settings).toEqual(FULL)
+  })
+
+  it('steps down after three slow windows', () => {
+    const governor = new FrameRateGovernor()
+    expect(run(governor, 15, 1000, 3000)).toEqual([{ t: 3000, settings: FULL_REDUCED }])
+  })
+
+  it('steps up with headroom, but not to a level that was too slow within the hold time', () => {
+    const governor = new FrameRateGovernor()
+    run(governor, 15, 1000, 3000)
+    // Fast from 4 s: the too-slow level stays blocked until 30 s after the step down.
+    const changes = run(governor, 30, 4000, 35_000)
+    expect(changes).toEqual([{ t: 33_000, settings: FULL }])
+  })
+
+  it('does not step up when inference uses most of the frame budget', () => {
+    const governor = new FrameRateGovernor()
+    expect(run(governor, 30, 1000, 20_000, 25)).toEqual([])
+  })
+
+  it('reverts a failed change and never retries that level', () => {
+    const governor = new FrameRateGovernor()
+    expect(run(governor, 30, 1000, 3000)).toEqual([{ t: 3000, settings: HEAVY }])
+    expect(governor.revertChange()).toEqual(FULL)
+    expect(governor.settings).toEqual(FULL)
+    expect(run(governor, 30, 4000, 120_000)).toEqual([])
+  })
+
+  it('allows the failed level again after reset', () => {
+    const governor = new FrameRateGovernor()
+    run(governor, 30, 1000, 3000)
+    governor.revertChange()
+    governor.reset()
+    expect(run(governor, 30, 1000, 3000)).toEqual([{ t: 3000, settings: HEAVY }])
+  })
+})
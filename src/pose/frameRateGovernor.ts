@@ -0,0 +1,121 @@
+/**
+ * RunForm PoC – Frame-rate governor: trades model complexity and input resolution for frame rate.
+ * Fed once a second with the runner's measured FPS and inference latency; steps one level
+ * down when step detection would suffer, one level up when there is headroom. A level whose
+ * model fails to load is reverted and not tried again in the session.
+ */
+
+import type { ModelComplexity } from './poseBackend'
+
+export type PoseRunSettings = {
+  /** 0 = lite, 1 = full, 2 = heavy landmark model. */
+  modelComplexity: ModelComplexity
+  /** Share of the camera resolution fed to the model (landmarks stay normalized). */
+  inputScale: number
+}
+
+/**
+ * Cheapest → most accurate. Only the full model is precached (pwa/offlinePlugin.ts); the others
+ * are cached on first use, so offline a switch to one can fail and is reverted (revertChange).
+ */
+const SETTINGS_LADDER: readonly PoseRunSettings[] = [
+  { modelComplexity: 0, inputScale: 0.5 },
+  { modelComplexity: 0, inputScale: 0.75 },
+  { modelComplexity: 0, inputScale: 1 },
+  { modelComplexity: 1, inputScale: 0.75 },
+  { modelComplexity: 1, inputScale: 1 },
+  { modelComplexity: 2, inputScale: 1 },
+]
+/** Full model at camera resolution (the fixed setting before the governor). */
+const DEFAULT_LEVEL = 4
+
+/** Front cameras deliver ~30 fps; tracking frames are throttled to this rate too. */
+export const TARGET_FPS = 30
+/**
+ * Below this, a ~200 ms ground contact spans too few frames for contact/step detection.
+ * The governor steps down; sessions spending long below it get a lower reliability.
+ */
+export const STEP_DETECTION_MIN_FPS = 20
+/** Step up only near the target and with inference using at most this share of the frame budget. */
+const STEP_UP_MIN_FPS = 27
+const STEP_UP_MAX_LATENCY_SHARE = 0.5
+/** Consecutive one-second windows needed before a change. */
+const DECISION_WINDOWS = 3
+/** After a change, ignore windows while the new model loads and the FPS settles. */
+const SETTLE_MS = 3_000
+/** A level that was too slow is not retried for this long. */
+const CEILING_HOLD_MS = 30_000
+
+export class FrameRateGovernor {
+  private level = DEFAULT_LEVEL
+  private slowWindows = 0
+  private fastWindows = 0
+  private lastChangeMs: number | null = null
+  private ceiling = SETTINGS_LADDER.length - 1
+  private ceilingUntilMs = 0
+  /** Highest level for the rest of the session; lowered when a model fails to load. */
+  private maxLevel = SETTINGS_LADDER.length - 1
+  private previousLevel = DEFAULT_LEVEL
+
+  get settings(): PoseRunSettings {
+    return SETTINGS_LADDER[this.level]!
+  }
+
+  /**
+   * One status window: frames per second and mean inference latency (ms).
+   * Returns the new settings when the level changes, else null.
+   */
+  update(fps: number, latencyMs: number, timestampMs: number): PoseRunSettings | null {
+    if (this.lastChangeMs != null && timestampMs - this.lastChangeMs < SETTLE_MS) return null
+    if (timestampMs >= this.ceilingUntilMs) this.ceiling = this.maxLevel
+
+    const frameBudgetMs = 1000 / TARGET_FPS
+    const slow = fps < STEP_DETECTION_MIN_FPS
+    const fast =
+      fps >= STEP_UP_MIN_FPS && latencyMs <= frameBudgetMs * STEP_UP_MAX_LATENCY_SHARE
+    this.slowWindows = slow ? this.slowWindows + 1 : 0
+    this.fastWindows = fast ? this.fastWindows + 1 : 0
+
+    if (this.slowWindows >= DECISION_WINDOWS && this.level > 0) {
+      this.ceiling = this.level - 1
+      this.ceilingUntilMs = timestampMs + CEILING_HOLD_MS
+      return this.changeLevel(this.level - 1, timestampMs)
+    }
+    if (this.fastWindows >= DECISION_WINDOWS && this.level < this.ceiling) {
+      return this.changeLevel(this.level + 1, timestampMs)
+    }
+    return null
+  }
+
+  /**
+   * The last change could not be applied (e.g. the model failed to load): back to the previous
+   * level, and the ceiling is lowered below the failed level for the rest of the session.
+   */
+  revertChange(): PoseRunSettings {
+    const failed = this.level
+    this.maxLevel = Math.min(this.maxLevel, Math.max(this.previousLevel, failed - 1))
+    this.ceiling = Math.min(this.ceiling, this.maxLevel)
+    this.level = this.previousLevel
+    return this.settings
+  }
+
+  reset(): void {
+    this.level = DEFAULT_LEVEL
+    this.slowWindows = 0
+    this.fastWindows = 0
+    this.lastChangeMs = null
+    this.ceiling = SETTINGS_LADDER.length - 1
+    this.ceilingUntilMs = 0
+    this.maxLevel = SETTINGS_LADDER.length - 1
+    this.previousLevel = DEFAULT_LEVEL
+  }
+
+  private changeLevel(level: number, timestampMs: number): PoseRunSettings {
+    this.previousLevel = this.level
+    this.level = level
+    this.slowWindows = 0
+    this.fastWindows = 0
+    this.lastChangeMs = timestampMs
+    return this.settings
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * RunForm PoC – Frame sources for the pose runner: a live camera (front by default, or any
+ * device from enumerateDevices) or a recorded video file (treadmill clip from a phone or GoPro),
+ * stepped frame by frame at the video's own timestamps, so analysis speed never drops frames.
+ * Frames are never flipped: landmarks keep anatomical left/right. Mirroring is display-only
+ * (CameraInfo.mirrored).
+ */
+
+import { TARGET_FPS } from './frameRateGovernor';
+
+/** What the runner analyzes. deviceId null/missing = default front camera. */
+export type PoseSource =
+  | { kind: 'camera'; deviceId?: string | null }
+  | { kind: 'file'; file: File };
+
+/** The camera actually opened (a remembered device may be gone). */
+export type CameraInfo = {
+  deviceId: string | null;
+  label: string;
+  /** Show the preview mirrored: user-facing cameras (front, laptop/USB webcams), not rear ones. */
+  mirrored: boolean;
+};
+
+export const CAMERA_SOURCE: PoseSource = { kind: 'camera' };
+
+export type FrameSource = {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  /** The camera keeps delivering (the runner drops the frames); a file waits. */
+  pause(): void;
+  resume(): void;
+};
+
+export type FrameSourceCallbacks = {
+  /** Awaited, so frames never queue up. Timestamp: performance clock or video time (ms). */
+  onFrame: (timestampMs: number) => Promise<void>;
+  /** Video files only, after every frame. */
+  onProgress?: (currentMs: number, durationMs: number) => void;
+  /** Video files only: the last frame has been analyzed. */
+  onEnded?: () => void;
+  /** Cameras only, once the stream is open. */
+  onCamera?: (camera: CameraInfo) => void;
+  onError: (message: string) => void;
+};
+
+/**
+ * Video files are sampled at the tracking frame rate (also 60 fps footage); whole ms, so every
+ * sample clears the runner's tracking-frame throttle.
+ */
+const FILE_FRAME_INTERVAL_MS = Math.ceil(1000 / TARGET_FPS);
+
+export function createFrameSource(
+  video: HTMLVideoElement,
+  source: PoseSource,
+  callbacks: FrameSourceCallbacks
+): FrameSource {
+  return source.kind === 'file'
+    ? new VideoFileSource(video, source.file, callbacks)
+    : new CameraFrameSource(video, source.deviceId ?? null, callbacks);
+}
+
+/** Camera resolution requested (as camera_utils did); the pose models run far below it. */
+const CAMERA_WIDTH = 640;
+const CAMERA_HEIGHT = 480;
+/** Labels of rear cameras where the browser reports no facingMode (da/en). */
+const REAR_CAMERA_LABEL = /\b(back|rear)\b|environment|bagside/i;
+
+/** Rear cameras film the scene as seen; everything else faces the user and is shown mirrored. */
+export function isMirroredCamera(facingMode: string | undefined, label: string): boolean {
+  if (facingMode) return facingMode !== 'environment';
+  return !REAR_CAMERA_LABEL.test(label);
+}
+
+async function openCameraStream(deviceId: string | null): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Browseren giver ikke adgang til kameraet.');
+  }
+  const size = { width: CAMERA_WIDTH, height: CAMERA_HEIGHT };
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        video: { ...size, deviceId: { exact: deviceId } },
+        audio: false,
+      });
+    } catch (err) {
+      // Unplugged webcam or a new device id: fall back to the front camera.
+      console.warn('Selected camera unavailable, using front camera:', err);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({
+    video: { ...size, facingMode: 'user' },
+    audio: false,
+  });
+}
+
+/** getUserMedia stream; onFrame runs once per new video frame (checked every animation frame). */
+class CameraFrameSource implements FrameSource {
+  private readonly video: HTMLVideoElement;
+  private readonly deviceId: string | null;
+  private readonly callbacks: FrameSourceCallbacks;
+  private stream: MediaStream | null = null;
+  private stopped = false;
+  private lastVideoTime = -1;
+
+  constructor(video: HTMLVideoElement, deviceId: string | null, callbacks: FrameSourceCallbacks) {
+    this.video = video;
+    this.deviceId = deviceId;
+    this.callbacks = callbacks;
+  }
+
+  async start(): Promise<void> {
+    const stream = await openCameraStream(this.deviceId);
+    this.stream = stream;
+    const track = stream.getVideoTracks()[0];
+    const settings = track?.getSettings() ?? {};
+    const label = track?.label ?? '';
+    this.callbacks.onCamera?.({
+      deviceId: settings.deviceId ?? null,
+      label,
+      mirrored: isMirroredCamera(settings.facingMode, label),
+    });
+
+    const video = this.video;
+    video.removeAttribute('src');
+    video.srcObject = stream;
+    await video.play();
+    requestAnimationFrame(() => void this.tick());
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.video.srcObject = null;
+  }
+
+  pause(): void {}
+
+  resume(): void {}
+
+  private async tick(): Promise<void> {
+    if (this.stopped) return;
+    const video = this.video;
+    if (!video.paused && video.currentTime !== this.lastVideoTime) {
+      this.lastVideoTime = video.currentTime;
+      try {
+        await this.callbacks.onFrame(performance.now());
+      } catch (err) {
+        console.warn('Camera frame failed:', err);
+      }
+    }
+    if (!this.stopped) requestAnimationFrame(() => void this.tick());
+  }
+}
+
+function waitForVideoEvent(video: HTMLVideoElement, type: 'loadedmetadata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(type, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Kunne ikke læse videofilen.'));
+    };
+    video.addEventListener(type, onEvent);
+    video.addEventListener('error', onError);
+  });
+}
+
+class VideoFileSource implements FrameSource {
+  private readonly video: HTMLVideoElement;
+  private readonly file: File;
+  private readonly callbacks: FrameSourceCallbacks;
+  private url: string | null = null;
+  private stopped = false;
+  private paused = false;
+  private resumeWaiter: (() => void) | null = null;
+
+  constructor(video: HTMLVideoElement, file: File, callbacks: FrameSourceCallbacks) {
+    this.video = video;
+    this.file = file;
+    this.callbacks = callbacks;
+  }
+
+  async start(): Promise<void> {
+    const video = this.video;
+    this.url = URL.createObjectURL(this.file);
+    video.srcObject = null;
+    const loaded = waitForVideoEvent(video, 'loadedmetadata');
+    video.src = this.url;
+    await loaded;
+    video.pause();
+    if (!Number.isFinite(video.duration) || video.duration <= 0) {
+      throw new Error('Videofilen har ingen gyldig længde.');
+    }
+    void this.run();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.resume();
+    this.video.pause();
+    this.video.removeAttribute('src');
+    this.video.load();
+    if (this.url) {
+      URL.revokeObjectURL(this.url);
+      this.url = null;
+    }
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.resumeWaiter?.();
+    this.resumeWaiter = null;
+  }
+
+  /** Seek → analyze → next frame; the frame timestamp is the video time. */
+  private async run(): Promise<void> {
+    const durationMs = this.video.duration * 1000;
+    const frameCount = Math.floor(durationMs / FILE_FRAME_INTERVAL_MS) + 1;
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        if (this.paused) {
+          await new Promise<void>((resolve) => {
+            this.resumeWaiter = resolve;
+          });
+        }
+        if (this.stopped) return;
+        const timestampMs = Math.min(i * FILE_FRAME_INTERVAL_MS, durationMs);
+        await this.seek(timestampMs / 1000);
+        if (this.stopped) return;
+        await this.callbacks.onFrame(timestampMs);
+        this.callbacks.onProgress?.(timestampMs, durationMs);
+      }
+    } catch (err) {
+      if (this.stopped) return;
+      this.callbacks.onError(err instanceof Error ? err.message : 'Kunne ikke læse videofilen.');
+      return;
+    }
+    if (!this.stopped) this.callbacks.onEnded?.();
+  }
+
+  private async seek(timeSec: number): Promise<void> {
+    const video = this.video;
+    if (Math.abs(video.currentTime - timeSec) < 1e-3 && video.readyState >= 2) return;
+    const seeked = waitForVideoEvent(video, 'seeked');
+    video.currentTime = timeSec;
+    await seeked;
+  }
+}
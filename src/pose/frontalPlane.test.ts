@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import type { LegFrame, Point2D } from './frameQuality'
+import { FrontalPlaneTracker, isTurnedAway } from './frontalPlane'
+
+const STANDING_HIP_WIDTH = 0.08
+
+function leg(hip: Point2D, knee: Point2D, ankle: Point2D): LegFrame {
+  return {
+    ankleVis: 1,
+    landmarks: { shoulder: { x: hip.x, y: 0.35 }, hip, knee, ankle, heel: ankle, footIndex: ankle },
+  }
+}
+
+/** Camera in front, midline at x 0.5: the runner's left leg is on the image's right. */
+function stanceFrame(hipHalfWidth: number): Record<'L' | 'R', LegFrame> {
+  const left = 0.5 + hipHalfWidth
+  const right = 0.5 - hipHalfWidth
+  return {
+    // Left stance leg with the knee pulled toward the midline.
+    L: leg({ x: left, y: 0.55 }, { x: left - 0.02, y: 0.75 }, { x: left, y: 0.95 }),
+    // The right hip hangs 0.02 lower.
+    R: leg({ x: right, y: 0.57 }, { x: right, y: 0.75 }, { x: right, y: 0.85 }),
+  }
+}
+
+describe('FrontalPlaneTracker', () => {
+  it('measures pelvic drop and knee valgus peaks over a stance', () => {
+    const tracker = new FrontalPlaneTracker()
+    tracker.onInitialContact('L')
+    tracker.update(stanceFrame(0.04), 0.5, 0, STANDING_HIP_WIDTH)
+    const peaks = tracker.onToeOff('L')
+    expect(peaks.pelvicDropDeg).toBeCloseTo(14, 0)
+    expect(peaks.kneeValgusDeg).toBeGreaterThan(5)
+  })
+
+  it('skips frames where the hips are turned away from the camera', () => {
+    const tracker = new FrontalPlaneTracker()
+    tracker.onInitialContact('L')
+    // Half the standing hip width: turned about 60° away.
+    tracker.update(stanceFrame(0.02), 0.5, 0, STANDING_HIP_WIDTH)
+    expect(tracker.onToeOff('L')).toEqual({ pelvicDropDeg: null, kneeValgusDeg: null })
+
+    // Without a calibrated hip width, every frame counts.
+    tracker.onInitialContact('L')
+    tracker.update(stanceFrame(0.02), 0.5, 0, null)
+    expect(tracker.onToeOff('L').pelvicDropDeg).toBeGreaterThan(20)
+  })
+})
+
+describe('isTurnedAway', () => {
+  it('compares the line width with the standing width', () => {
+    const left = { x: 0.54, y: 0.55 }
+    expect(isTurnedAway(left, { x: 0.46, y: 0.55 }, STANDING_HIP_WIDTH)).toBe(false)
+    expect(isTurnedAway(left, { x: 0.49, y: 0.55 }, STANDING_HIP_WIDTH)).toBe(true)
+    expect(isTurnedAway(left, { x: 0.49, y: 0.55 }, null)).toBe(false)
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * RunForm PoC – Frontal-plane metrics (camera in front): contralateral pelvic drop and
+ * dynamic knee valgus, as peaks during each single-leg stance (initial contact → toe-off).
+ * Angles in degrees. Points are in height-normalized units (x scaled by aspect ratio).
+ */
+
+import type { LegFrame, Point2D } from './frameQuality'
+import { angleAt } from './kinematics'
+
+export type LegSide = 'L' | 'R'
+
+export type StancePeaks = {
+  /** Peak drop of the opposite hip during stance; positive = opposite hip lower. */
+  pelvicDropDeg: number | null
+  /** Peak knee frontal-plane projection angle; positive = knee medial of hip–ankle line. */
+  kneeValgusDeg: number | null
+}
+
+function toDegrees(rad: number): number {
+  return (rad * 180) / Math.PI
+}
+
+/** Below this share of its standing width, a hip or shoulder line is turned away from the camera. */
+const FACING_MIN_WIDTH_SHARE = 0.7
+
+/**
+ * The runner is turned away from a front camera: the line between two points (aspect-scaled)
+ * is much narrower than standing. False without a standing width.
+ */
+export function isTurnedAway(a: Point2D, b: Point2D, standingWidth: number | null): boolean {
+  return (
+    standingWidth != null &&
+    standingWidth > 0 &&
+    Math.hypot(a.x - b.x, a.y - b.y) < FACING_MIN_WIDTH_SHARE * standingWidth
+  )
+}
+
+function maxOrValue(current: number | null, value: number): number {
+  return current == null ? value : Math.max(current, value)
+}
+
+/** Hip-line tilt seen from the stance leg; positive when the other hip is lower. */
+export function computePelvicDrop(stanceHip: Point2D, otherHip: Point2D): number {
+  return toDegrees(
+    Math.atan2(otherHip.y - stanceHip.y, Math.abs(otherHip.x - stanceHip.x))
+  )
+}
+
+/**
+ * Knee frontal-plane projection angle: 180° − hip-knee-ankle angle, signed positive when
+ * the knee sits medial (toward midlineX) of the straight hip–ankle line.
+ */
+export function computeKneeValgus(
+  hip: Point2D,
+  knee: Point2D,
+  ankle: Point2D,
+  midlineX: number
+): number {
+  const deviation = 180 - angleAt(hip, knee, ankle)
+  const dy = ankle.y - hip.y
+  const lineX = dy === 0 ? hip.x : hip.x + ((ankle.x - hip.x) * (knee.y - hip.y)) / dy
+  const medialDirection = Math.sign(midlineX - hip.x)
+  return Math.sign(knee.x - lineX) === medialDirection ? deviation : -deviation
+}
+
+/**
+ * Tracks stance peaks per leg. Call update() only with the camera in front;
+ * stance boundaries come from MetricsSession's per-leg contact events.
+ * Pelvic drop is relative to the standing pelvic tilt, so a natural hip-height difference
+ * (or a slightly rolled camera) does not show up as drop on one side. Frames where the hips are
+ * turned away from the camera are skipped: the foreshortened hip line inflates both angles.
+ */
+export class FrontalPlaneTracker {
+  private stance: Record<LegSide, StancePeaks | null> = { L: null, R: null }
+
+  /**
+   * standingPelvicTiltDeg: hip line vs horizontal when standing, positive = right hip lower.
+   * standingHipWidth: calibrated hip width; null = no facing check.
+   */
+  update(
+    legs: Record<LegSide, LegFrame | null>,
+    midlineX: number,
+    standingPelvicTiltDeg = 0,
+    standingHipWidth: number | null = null
+  ): void {
+    const left = legs.L?.landmarks
+    const right = legs.R?.landmarks
+    if (!left || !right) return
+    if (isTurnedAway(left.hip, right.hip, standingHipWidth)) return
+    for (const side of ['L', 'R'] as const) {
+      const peaks = this.stance[side]
+      if (!peaks) continue
+      const stanceLeg = side === 'L' ? left : right
+      const otherLeg = side === 'L' ? right : left
+      // Standing, the drop seen from the left leg is +tilt and from the right leg −tilt.
+      const standingDrop = side === 'L' ? standingPelvicTiltDeg : -standingPelvicTiltDeg
+      peaks.pelvicDropDeg = maxOrValue(
+        peaks.pelvicDropDeg,
+        computePelvicDrop(stanceLeg.hip, otherLeg.hip) - standingDrop
+      )
+      peaks.kneeValgusDeg = maxOrValue(
+        peaks.kneeValgusDeg,
+        computeKneeValgus(stanceLeg.hip, stanceLeg.knee, stanceLeg.ankle, midlineX)
+      )
+    }
+  }
+
+  onInitialContact(side: LegSide): void {
+    this.stance[side] = { pelvicDropDeg: null, kneeValgusDeg: null }
+  }
+
+  /** Closes the stance; null values when no frontal frame was seen during it. */
+  onToeOff(side: LegSide): StancePeaks {
+    const peaks = this.stance[side]
+    this.stance[side] = null
+    const round = (v: number | null) => (v != null ? Math.round(v * 10) / 10 : null)
+    return {
+      pelvicDropDeg: round(peaks?.pelvicDropDeg ?? null),
+      kneeValgusDeg: round(peaks?.kneeValgusDeg ?? null),
+    }
+  }
+
+  reset(): void {
+    this.stance = { L: null, R: null }
+  }
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { computeFrameQuality } from './frameQuality';
+import { ImageQualityMeter, type ImageQuality } from './imageQuality';
+import { syntheticRunnerFrame } from './syntheticRunner';
+
+const GAIT = { stepMs: { L: 330, R: 330 }, contactMs: { L: 250, R: 250 } };
+const FRAME = { image: {} as CanvasImageSource, width: 640, height: 480 };
+
+/** Grey levels (0–255) of the stub canvas's pixels, alternating like a checkerboard. */
+let pixelLevels: [number, number] = [80, 180];
+
+/** OffscreenCanvas (as in the worker) that draws nothing and reads back pixelLevels. */
+function stubCanvas(low: number, high: number): void {
+  pixelLevels = [low, high];
+  vi.stubGlobal(
+    'OffscreenCanvas',
+    class {
+      width = 1;
+      height = 1;
+      convertToBlob() {}
+      getContext() {
+        return {
+          canvas: this,
+          drawImage: () => {},
+          getImageData: (_x: number, _y: number, width: number, height: number) => {
+            const data = new Uint8ClampedArray(width * height * 4);
+            for (let i = 0; i < width * height; i++) {
+              const level = pixelLevels[(i + Math.floor(i / width)) % 2]!;
+              data.fill(level, i * 4, i * 4 + 3);
+            }
+            return { data };
+          },
+        };
+      }
+    }
+  );
+}
+
+function image(score: number): ImageQuality {
+  return { luminance: 0.5, contrast: 0.2, backlight: null, blur: null, issue: null, score };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ImageQualityMeter', () => {
+  it('finds no problem in an evenly lit image', () => {
+    stubCanvas(80, 180);
+    const quality = new ImageQualityMeter().measure(FRAME, null, 0);
+    expect(quality).toMatchObject({ luminance: 0.51, issue: null, score: 1 });
+  });
+
+  it('flags a dark image and lowers the score', () => {
+    stubCanvas(10, 60);
+    const quality = new ImageQualityMeter().measure(FRAME, null, 0);
+    expect(quality).toMatchObject({ issue: 'dark', score: 0.85 });
+  });
+
+  it('flags a flat image as low contrast', () => {
+    stubCanvas(120, 130);
+    expect(new ImageQualityMeter().measure(FRAME, null, 0)?.issue).toBe('lowContrast');
+  });
+
+  it('measures a few times a second and keeps the last result in between', () => {
+    stubCanvas(10, 60);
+    const meter = new ImageQualityMeter();
+    const first = meter.measure(FRAME, null, 0);
+    pixelLevels = [80, 180];
+    expect(meter.measure(FRAME, null, 100)).toBe(first);
+    expect(meter.measure(FRAME, null, 300)?.issue).toBeNull();
+  });
+
+  it('gives up without a canvas', () => {
+    const meter = new ImageQualityMeter();
+    expect(meter.measure(FRAME, null, 0)).toBeNull();
+    stubCanvas(80, 180);
+    expect(meter.measure(FRAME, null, 1000)).toBeNull();
+  });
+});
+
+describe('computeFrameQuality with image quality', () => {
+  it('multiplies the landmark score by the image score', () => {
+    // Every key landmark seen at 0.6: 60 from the landmarks alone.
+    const landmarks = syntheticRunnerFrame(GAIT, 0).map((lm) => ({ ...lm, visibility: 0.6 }));
+    expect(computeFrameQuality({ poseLandmarks: landmarks })).toBe(60);
+    expect(computeFrameQuality({ poseLandmarks: landmarks }, image(1))).toBe(60);
+    // Dark: below the tracking gate of 55.
+    expect(computeFrameQuality({ poseLandmarks: landmarks }, image(0.85))).toBe(51);
+  });
+
+  it('stays within 0–100', () => {
+    const landmarks = syntheticRunnerFrame(GAIT, 0).map((lm) => ({ ...lm, visibility: 1 }));
+    // 1 + 0.15 full-body bonus.
+    expect(computeFrameQuality({ poseLandmarks: landmarks }, image(1))).toBe(100);
+    expect(computeFrameQuality({ poseLandmarks: landmarks }, image(0.85))).toBe(98);
+    expect(computeFrameQuality({ poseLandmarks: [] }, image(0.85))).toBe(0);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * RunForm PoC – Image quality from the camera pixels (not the landmarks): exposure, contrast,
+ * backlight (bright window behind the runner) and motion blur, so setup hints can say whether
+ * the problem is light, blur or framing.
+ * Measured a few times a second on small downscaled copies of the frame: the whole frame for
+ * exposure and backlight, the body's bounding box for sharpness. Blur is sharpness relative to
+ * the sharpest body crop of the session (standing still in calibration), plus an absolute floor.
+ */
+
+import type { NormalizedLandmarkList } from '@mediapipe/pose';
+
+export type ImageIssue = 'dark' | 'overexposed' | 'backlight' | 'motionBlur' | 'lowContrast';
+
+export type ImageQuality = {
+  /** Mean luminance 0–1. */
+  luminance: number;
+  /** RMS contrast (luminance standard deviation) 0–1. */
+  contrast: number;
+  /** Surroundings minus body luminance (0–1 scale); null without a body. > 0 = body darker. */
+  backlight: number | null;
+  /** 0 = as sharp as the session's sharpest body crop, 1 = no edges left; null without a body. */
+  blur: number | null;
+  /** Most important problem, in the order of ISSUE_PRIORITY. */
+  issue: ImageIssue | null;
+  /** Factor for the frame quality score: 1 = no image problems. */
+  score: number;
+};
+
+/** Anything that can be drawn to a canvas, with its pixel size. */
+export type ImageFrame = {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+};
+
+const MEASURE_INTERVAL_MS = 250;
+/** Whole-frame sample (exposure, backlight). */
+const FRAME_SAMPLE_WIDTH = 64;
+/** Body crop sample height (sharpness); roughly half the body's camera resolution. */
+const BODY_SAMPLE_HEIGHT = 128;
+const BODY_MIN_VISIBILITY = 0.5;
+const BODY_BOX_PADDING = 0.1;
+
+const DARK_LUMINANCE = 0.2;
+const OVEREXPOSED_LUMINANCE = 0.85;
+/** Share of near-white pixels that counts as blown out. */
+const OVEREXPOSED_CLIPPED_SHARE = 0.4;
+const CLIPPED_LUMINANCE = 0.95;
+const BACKLIGHT_DIFFERENCE = 0.25;
+const BACKLIGHT_MIN_SURROUNDINGS = 0.6;
+const LOW_CONTRAST = 0.07;
+/** Sharpness below this share of the session's sharpest crop = motion blur. */
+const BLUR_RELATIVE = 0.5;
+/** Edge strength per unit of contrast below which any crop counts as blurred (out of focus). */
+const BLUR_MIN_SHARPNESS = 0.08;
+
+const ISSUE_PRIORITY: ImageIssue[] = [
+  'dark',
+  'overexposed',
+  'backlight',
+  'motionBlur',
+  'lowContrast',
+];
+/** Mild: landmarks are often still usable, and the score also gates tracking frames. */
+const ISSUE_SCORE: Record<ImageIssue, number> = {
+  dark: 0.85,
+  overexposed: 0.9,
+  backlight: 0.9,
+  motionBlur: 0.9,
+  lowContrast: 0.9,
+};
+
+type SampleCanvas = HTMLCanvasElement | OffscreenCanvas;
+type SampleContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type Box = { x: number; y: number; width: number; height: number };
+
+function createSampleContext(): SampleContext | null {
+  // The worker has no document.
+  const canvas: SampleCanvas | null =
+    typeof document !== 'undefined'
+      ? document.createElement('canvas')
+      : typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(1, 1)
+        : null;
+  if (!canvas) return null;
+  return 'convertToBlob' in canvas
+    ? canvas.getContext('2d', { willReadFrequently: true })
+    : (canvas as HTMLCanvasElement).getContext('2d', { willReadFrequently: true });
+}
+
+/** Luminance 0–1 per pixel of a drawn region. */
+function sampleLuminance(
+  ctx: SampleContext,
+  frame: ImageFrame,
+  source: Box,
+  width: number,
+  height: number
+): Float32Array {
+  const canvas = ctx.canvas;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  ctx.drawImage(frame.image, source.x, source.y, source.width, source.height, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.299 * data[i * 4]! + 0.587 * data[i * 4 + 1]! + 0.114 * data[i * 4 + 2]!) / 255;
+  }
+  return luma;
+}
+
+function meanAndDeviation(values: ArrayLike<number>): { mean: number; deviation: number } {
+  if (values.length === 0) return { mean: 0, deviation: 0 };
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i]!;
+  const mean = sum / values.length;
+  let sq = 0;
+  for (let i = 0; i < values.length; i++) sq += (values[i]! - mean) ** 2;
+  return { mean, deviation: Math.sqrt(sq / values.length) };
+}
+
+/** Bounding box of the visible landmarks (normalized, padded, clamped); null if too few. */
+function getBodyBox(landmarks: NormalizedLandmarkList | null): Box | null {
+  const visible = (landmarks ?? []).filter((lm) => (lm.visibility ?? 0) >= BODY_MIN_VISIBILITY);
+  if (visible.length < 4) return null;
+  const xs = visible.map((lm) => lm.x);
+  const ys = visible.map((lm) => lm.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const padX = (maxX - minX) * BODY_BOX_PADDING;
+  const padY = (maxY - minY) * BODY_BOX_PADDING;
+  const x = Math.max(0, minX - padX);
+  const y = Math.max(0, minY - padY);
+  const width = Math.min(1, maxX + padX) - x;
+  const height = Math.min(1, maxY + padY) - y;
+  return width > 0.02 && height > 0.05 ? { x, y, width, height } : null;
+}
+
+/** Mean absolute Laplacian per unit of contrast: edge strength independent of lighting. */
+function computeSharpness(luma: Float32Array, width: number, height: number): number {
+  const { deviation } = meanAndDeviation(luma);
+  if (deviation === 0 || width < 3 || height < 3) return 0;
+  let sum = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        4 * luma[i]! - luma[i - 1]! - luma[i + 1]! - luma[i - width]! - luma[i + width]!;
+      sum += Math.abs(laplacian);
+      count += 1;
+    }
+  }
+  return sum / count / deviation;
+}
+
+export class ImageQualityMeter {
+  private ctx: SampleContext | null = null;
+  private unavailable = false;
+  private lastMeasureTime = -Infinity;
+  private last: ImageQuality | null = null;
+  private referenceSharpness = 0;
+
+  /** Latest measurement; re-measured at most every MEASURE_INTERVAL_MS (frame timestamps). */
+  measure(
+    frame: ImageFrame | null,
+    landmarks: NormalizedLandmarkList | null,
+    timestampMs: number
+  ): ImageQuality | null {
+    if (!frame || !frame.width || !frame.height || this.unavailable) return this.last;
+    if (timestampMs - this.lastMeasureTime < MEASURE_INTERVAL_MS) return this.last;
+    this.lastMeasureTime = timestampMs;
+    if (!this.ctx) {
+      this.ctx = createSampleContext();
+      if (!this.ctx) {
+        this.unavailable = true;
+        return null;
+      }
+    }
+    try {
+      this.last = this.analyze(this.ctx, frame, getBodyBox(landmarks));
+    } catch (err) {
+      // Tainted or closed images: give up on pixel checks, landmarks still work.
+      console.warn('Image quality check failed:', err);
+      this.unavailable = true;
+      this.last = null;
+    }
+    return this.last;
+  }
+
+  reset(): void {
+    this.lastMeasureTime = -Infinity;
+    this.last = null;
+    this.referenceSharpness = 0;
+  }
+
+  private analyze(ctx: SampleContext, frame: ImageFrame, body: Box | null): ImageQuality {
+    const sampleWidth = FRAME_SAMPLE_WIDTH;
+    const sampleHeight = Math.max(
+      1,
+      Math.round((FRAME_SAMPLE_WIDTH * frame.height) / frame.width)
+    );
+    const full = { x: 0, y: 0, width: frame.width, height: frame.height };
+    const luma = sampleLuminance(ctx, frame, full, sampleWidth, sampleHeight);
+    const { mean: luminance, deviation: contrast } = meanAndDeviation(luma);
+    let clipped = 0;
+    for (let i = 0; i < luma.length; i++) if (luma[i]! >= CLIPPED_LUMINANCE) clipped += 1;
+    const clippedShare = clipped / luma.length;
+
+    let backlight: number | null = null;
+    let surroundings = luminance;
+    let blur: number | null = null;
+    if (body) {
+      const inside: number[] = [];
+      const outside: number[] = [];
+      for (let y = 0; y < sampleHeight; y++) {
+        const ny = (y + 0.5) / sampleHeight;
+        for (let x = 0; x < sampleWidth; x++) {
+          const nx = (x + 0.5) / sampleWidth;
+          const inBody =
+            nx >= body.x && nx <= body.x + body.width && ny >= body.y && ny <= body.y + body.height;
+          (inBody ? inside : outside).push(luma[y * sampleWidth + x]!);
+        }
+      }
+      if (inside.length > 0 && outside.length > 0) {
+        surroundings = meanAndDeviation(outside).mean;
+        backlight = surroundings - meanAndDeviation(inside).mean;
+      }
+
+      const crop = {
+        x: body.x * frame.width,
+        y: body.y * frame.height,
+        width: body.width * frame.width,
+        height: body.height * frame.height,
+      };
+      const cropHeight = Math.min(BODY_SAMPLE_HEIGHT, Math.round(crop.height));
+      const cropWidth = Math.max(3, Math.round((crop.width * cropHeight) / crop.height));
+      if (cropHeight >= 3) {
+        const sharpness = computeSharpness(
+          sampleLuminance(ctx, frame, crop, cropWidth, cropHeight),
+          cropWidth,
+          cropHeight
+        );
+        this.referenceSharpness = Math.max(this.referenceSharpness, sharpness);
+        const relative = this.referenceSharpness > 0 ? sharpness / this.referenceSharpness : 1;
+        blur =
+          sharpness < BLUR_MIN_SHARPNESS
+            ? 1
+            : Math.round(Math.max(0, Math.min(1, 1 - relative)) * 100) / 100;
+      }
+    }
+
+    const issues = new Set<ImageIssue>();
+    if (luminance < DARK_LUMINANCE) issues.add('dark');
+    if (luminance > OVEREXPOSED_LUMINANCE || clippedShare > OVEREXPOSED_CLIPPED_SHARE) {
+      issues.add('overexposed');
+    }
+    if (
+      backlight != null &&
+      backlight > BACKLIGHT_DIFFERENCE &&
+      surroundings > BACKLIGHT_MIN_SURROUNDINGS
+    ) {
+      issues.add('backlight');
+    }
+    if (blur != null && blur > 1 - BLUR_RELATIVE) issues.add('motionBlur');
+    if (contrast < LOW_CONTRAST) issues.add('lowContrast');
+
+    const issue = ISSUE_PRIORITY.find((i) => issues.has(i)) ?? null;
+    return {
+      luminance: Math.round(luminance * 100) / 100,
+      contrast: Math.round(contrast * 100) / 100,
+      backlight: backlight != null ? Math.round(backlight * 100) / 100 : null,
+      blur,
+      issue,
+      score: issue ? ISSUE_SCORE[issue] : 1,
+    };
+  }
+}
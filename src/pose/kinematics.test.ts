@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import type { LegLandmarks } from './frameQuality'
+import { computeJointAngles, KinematicsSession, type JointAngles } from './kinematics'
+
+function leg(knee: { x: number; y: number }, ankle: { x: number; y: number }): LegLandmarks {
+  return {
+    shoulder: { x: 0.5, y: 0.2 },
+    hip: { x: 0.5, y: 0.5 },
+    knee,
+    ankle,
+    heel: { x: ankle.x - 0.02, y: ankle.y + 0.02 },
+    footIndex: { x: ankle.x + 0.08, y: ankle.y + 0.02 },
+  }
+}
+
+function angles(kneeFlexion: number, hipFlexion = 0, ankleDorsiflexion = 0): JointAngles {
+  return { hipFlexion, kneeFlexion, ankleDorsiflexion }
+}
+
+describe('computeJointAngles', () => {
+  it('gives a straight leg under the trunk zero knee and hip flexion', () => {
+    const result = computeJointAngles(leg({ x: 0.5, y: 0.7 }, { x: 0.5, y: 0.9 }), 1)
+    expect(result.kneeFlexion).toBeCloseTo(0)
+    expect(result.hipFlexion).toBeCloseTo(0)
+  })
+
+  it('signs hip flexion by the running direction', () => {
+    // Thigh forward (+x), shank hanging down: hip and knee flexed 45°.
+    const forward = leg({ x: 0.6, y: 0.6 }, { x: 0.6, y: 0.75 })
+    expect(computeJointAngles(forward, 1).hipFlexion).toBeCloseTo(45, 0)
+    expect(computeJointAngles(forward, 1).kneeFlexion).toBeCloseTo(45, 0)
+    expect(computeJointAngles(forward, -1).hipFlexion).toBeCloseTo(-45, 0)
+  })
+})
+
+describe('KinematicsSession', () => {
+  it('closes a stride at the next initial contact with its key values', () => {
+    const session = new KinematicsSession()
+    session.update(angles(12, 0, 6))
+    expect(session.onInitialContact(0)).toBeNull()
+
+    session.update(angles(30, 5))
+    session.update(angles(25, -12))
+    session.onToeOff()
+    session.update(angles(70))
+    session.update(angles(105))
+    session.update(angles(60))
+    session.update(angles(15))
+    expect(session.onInitialContact(700)).toEqual({
+      t: 700,
+      kneeFlexionAtContact: 12,
+      ankleDorsiflexionAtContact: 6,
+      peakKneeFlexionSwing: 105,
+      hipExtensionAtToeOff: 12,
+    })
+    expect(session.getSnapshot(700)).toMatchObject({
+      kneeFlexionAtContact: 12,
+      ankleDorsiflexionAtContact: 6,
+      peakKneeFlexionSwing: 105,
+      hipExtensionAtToeOff: 12,
+    })
+  })
+
+  it('drops a stride without toe-off', () => {
+    const session = new KinematicsSession()
+    session.update(angles(10))
+    session.onInitialContact(0)
+    session.update(angles(20))
+    expect(session.onInitialContact(700)).toBeNull()
+  })
+
+  it('drops the stride in progress on resetStride', () => {
+    const session = new KinematicsSession()
+    session.update(angles(10))
+    session.onInitialContact(0)
+    session.onToeOff()
+    session.resetStride()
+    session.update(angles(20))
+    expect(session.onInitialContact(700)).toBeNull()
+  })
+})
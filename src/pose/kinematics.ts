@@ -0,0 +1,211 @@
+/**
+ * RunForm PoC – Joint-angle kinematics (side view): hip, knee and ankle angles per frame,
+ * plus per-stride key values at initial contact (knee, ankle), swing and toe-off, and trunk lean.
+ * Angles in degrees. Points are in height-normalized units (x scaled by aspect ratio).
+ */
+
+import type { LegLandmarks, Point2D } from './frameQuality'
+
+/** Per-stride values older than this are dropped from the live snapshot. */
+const STRIDE_WINDOW_MS = 10_000
+
+export type JointAngles = {
+  /** Thigh vs trunk line. Positive = flexion (knee in front), negative = extension. */
+  hipFlexion: number
+  /** 0 = straight knee. */
+  kneeFlexion: number
+  /** Shank vs foot minus 90°. Positive = dorsiflexion, negative = plantarflexion. */
+  ankleDorsiflexion: number
+}
+
+export type StrideKinematics = {
+  t: number
+  kneeFlexionAtContact: number
+  ankleDorsiflexionAtContact: number
+  peakKneeFlexionSwing: number
+  hipExtensionAtToeOff: number
+}
+
+export type KinematicsSnapshot = {
+  /** Latest frame; null before the first tracked frame. */
+  current: JointAngles | null
+  /** Averages over strides in last 10s; null = no strides yet. */
+  kneeFlexionAtContact: number | null
+  ankleDorsiflexionAtContact: number | null
+  peakKneeFlexionSwing: number | null
+  hipExtensionAtToeOff: number | null
+}
+
+function mean(arr: number[]): number {
+  if (arr.length === 0) return 0
+  return arr.reduce((a, b) => a + b, 0) / arr.length
+}
+
+function roundedMeanOrNull(arr: number[]): number | null {
+  return arr.length > 0 ? Math.round(mean(arr) * 10) / 10 : null
+}
+
+function toDegrees(rad: number): number {
+  return (rad * 180) / Math.PI
+}
+
+/** Unsigned angle (0–180°) at vertex b between b→a and b→c. */
+export function angleAt(a: Point2D, b: Point2D, c: Point2D): number {
+  const v1x = a.x - b.x
+  const v1y = a.y - b.y
+  const v2x = c.x - b.x
+  const v2y = c.y - b.y
+  const len = Math.hypot(v1x, v1y) * Math.hypot(v2x, v2y)
+  if (len === 0) return 0
+  const cos = Math.max(-1, Math.min(1, (v1x * v2x + v1y * v2y) / len))
+  return toDegrees(Math.acos(cos))
+}
+
+/**
+ * Joint angles for one leg. facing = running direction in image x (+1 / -1),
+ * so hip flexion is signed correctly whichever way the runner faces the camera.
+ */
+export function computeJointAngles(leg: LegLandmarks, facing: 1 | -1): JointAngles {
+  const kneeFlexion = 180 - angleAt(leg.hip, leg.knee, leg.ankle)
+
+  // Trunk line continued downward through the hip vs thigh (hip → knee).
+  const trunkX = leg.hip.x - leg.shoulder.x
+  const trunkY = leg.hip.y - leg.shoulder.y
+  const thighX = leg.knee.x - leg.hip.x
+  const thighY = leg.knee.y - leg.hip.y
+  const cross = trunkX * thighY - trunkY * thighX
+  const dot = trunkX * thighX + trunkY * thighY
+  // Image Y points down, so a positive cross product means the thigh is rotated toward -x.
+  const hipFlexion = toDegrees(Math.atan2(-cross, dot)) * facing
+
+  const shankX = leg.knee.x - leg.ankle.x
+  const shankY = leg.knee.y - leg.ankle.y
+  const footX = leg.footIndex.x - leg.heel.x
+  const footY = leg.footIndex.y - leg.heel.y
+  const len = Math.hypot(shankX, shankY) * Math.hypot(footX, footY)
+  const shankFootAngle =
+    len === 0
+      ? 90
+      : toDegrees(
+          Math.acos(
+            Math.max(-1, Math.min(1, (shankX * footX + shankY * footY) / len))
+          )
+        )
+  const ankleDorsiflexion = 90 - shankFootAngle
+
+  return {
+    hipFlexion: Math.round(hipFlexion * 10) / 10,
+    kneeFlexion: Math.round(kneeFlexion * 10) / 10,
+    ankleDorsiflexion: Math.round(ankleDorsiflexion * 10) / 10,
+  }
+}
+
+/**
+ * Trunk lean (°): mid-hip → mid-shoulder segment vs vertical.
+ * Positive = leaning forward (toward facing), negative = backward.
+ */
+export function computeTrunkLean(
+  midShoulder: Point2D,
+  midHip: Point2D,
+  facing: 1 | -1
+): number {
+  const dx = (midShoulder.x - midHip.x) * facing
+  const dy = midHip.y - midShoulder.y
+  if (dx === 0 && dy === 0) return 0
+  return Math.round(toDegrees(Math.atan2(dx, dy)) * 10) / 10
+}
+
+/**
+ * Collects angles per frame and extracts per-stride key values.
+ * Stride events (initial contact / toe-off) come from MetricsSession's contact detection.
+ */
+export class KinematicsSession {
+  private current: JointAngles | null = null
+  private swingPeakKneeFlexion: number | null = null
+  private pendingKneeFlexionAtContact: number | null = null
+  private pendingAnkleDorsiflexionAtContact: number | null = null
+  private pendingHipExtensionAtToeOff: number | null = null
+  private strides: StrideKinematics[] = []
+
+  update(angles: JointAngles): void {
+    this.current = angles
+    if (this.swingPeakKneeFlexion != null) {
+      this.swingPeakKneeFlexion = Math.max(
+        this.swingPeakKneeFlexion,
+        angles.kneeFlexion
+      )
+    }
+  }
+
+  /**
+   * Closes the stride (toe-off → swing → this contact) and starts a new one.
+   * Returns the closed stride's key values; null if it was incomplete.
+   */
+  onInitialContact(timestampMs: number): StrideKinematics | null {
+    if (!this.current) return null
+    let closed: StrideKinematics | null = null
+    if (
+      this.pendingKneeFlexionAtContact != null &&
+      this.pendingAnkleDorsiflexionAtContact != null &&
+      this.pendingHipExtensionAtToeOff != null &&
+      this.swingPeakKneeFlexion != null
+    ) {
+      closed = {
+        t: timestampMs,
+        kneeFlexionAtContact: this.pendingKneeFlexionAtContact,
+        ankleDorsiflexionAtContact: this.pendingAnkleDorsiflexionAtContact,
+        peakKneeFlexionSwing: this.swingPeakKneeFlexion,
+        hipExtensionAtToeOff: this.pendingHipExtensionAtToeOff,
+      }
+      this.strides.push(closed)
+    }
+    this.pendingKneeFlexionAtContact = this.current.kneeFlexion
+    this.pendingAnkleDorsiflexionAtContact = this.current.ankleDorsiflexion
+    this.pendingHipExtensionAtToeOff = null
+    this.swingPeakKneeFlexion = null
+    const cutoff = timestampMs - STRIDE_WINDOW_MS
+    this.strides = this.strides.filter((s) => s.t >= cutoff)
+    return closed
+  }
+
+  onToeOff(): void {
+    if (!this.current || this.pendingKneeFlexionAtContact == null) return
+    this.pendingHipExtensionAtToeOff = -this.current.hipFlexion
+    this.swingPeakKneeFlexion = this.current.kneeFlexion
+  }
+
+  /** Drop the stride in progress (e.g. the leg was hidden, so swing peak or toe-off may be missed). */
+  resetStride(): void {
+    this.swingPeakKneeFlexion = null
+    this.pendingKneeFlexionAtContact = null
+    this.pendingAnkleDorsiflexionAtContact = null
+    this.pendingHipExtensionAtToeOff = null
+  }
+
+  getSnapshot(timestampMs: number): KinematicsSnapshot {
+    const strides = this.strides.filter(
+      (s) => s.t >= timestampMs - STRIDE_WINDOW_MS
+    )
+    return {
+      current: this.current,
+      kneeFlexionAtContact: roundedMeanOrNull(
+        strides.map((s) => s.kneeFlexionAtContact)
+      ),
+      ankleDorsiflexionAtContact: roundedMeanOrNull(
+        strides.map((s) => s.ankleDorsiflexionAtContact)
+      ),
+      peakKneeFlexionSwing: roundedMeanOrNull(
+        strides.map((s) => s.peakKneeFlexionSwing)
+      ),
+      hipExtensionAtToeOff: roundedMeanOrNull(
+        strides.map((s) => s.hipExtensionAtToeOff)
+      ),
+    }
+  }
+
+  reset(): void {
+    this.current = null
+    this.strides = []
+    this.resetStride()
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * RunForm PoC – Landmark smoothing between pose output and metrics.
+ * Each landmark coordinate (x, y, z) gets its own scalar filter; visibility passes through.
+ * Filters are swappable at runtime (see setLandmarkFilter in poseRunner.ts) for comparison.
+ * Jitter = mean |second difference| of visible landmarks, raw vs filtered.
+ */
+
+import type { NormalizedLandmarkList } from '@mediapipe/pose'
+
+export type LandmarkFilterKind = 'none' | 'oneEuro' | 'kalman'
+
+export const LANDMARK_FILTER_KINDS: readonly LandmarkFilterKind[] = [
+  'none',
+  'oneEuro',
+  'kalman',
+]
+
+/** Kalman adds the least lag at running frequencies (≈ 1.5–3 Hz limb motion). */
+export const DEFAULT_LANDMARK_FILTER: LandmarkFilterKind = 'kalman'
+
+/** A gap longer than this (pose lost) restarts the filter state. */
+const FILTER_RESET_GAP_MS = 500
+
+/**
+ * One-Euro: cutoff (Hz) at rest and how fast it opens with speed (units/s).
+ * Kept high because feet reverse direction several times a second; lower values lag visibly.
+ */
+const ONE_EURO_MIN_CUTOFF_HZ = 5
+const ONE_EURO_BETA = 50
+const ONE_EURO_DERIVATIVE_CUTOFF_HZ = 1
+
+/** Kalman (constant velocity): acceleration noise density and measurement variance. */
+const KALMAN_PROCESS_NOISE = 0.5
+const KALMAN_MEASUREMENT_NOISE = 3e-6
+
+/** Landmarks below this visibility are left out of the jitter statistics. */
+const JITTER_MIN_VISIBILITY = 0.5
+/** Smoothing of the per-frame jitter value (EMA weight of the newest frame). */
+const JITTER_EMA_ALPHA = 0.05
+
+export type LandmarkFilter = {
+  readonly kind: LandmarkFilterKind
+  apply(landmarks: NormalizedLandmarkList, timestampMs: number): NormalizedLandmarkList
+  reset(): void
+}
+
+export type LandmarkJitterStats = {
+  filter: LandmarkFilterKind
+  /** Mean |p(t) − 2p(t−1) + p(t−2)| per visible landmark (image units); null until 3 frames. */
+  rawJitter: number | null
+  filteredJitter: number | null
+  /** 1 − filtered / raw (0–1); null until both are known. */
+  reduction: number | null
+}
+
+type ScalarFilter = {
+  next(value: number, dtSec: number): number
+}
+
+function smoothingFactor(cutoffHz: number, dtSec: number): number {
+  const r = 2 * Math.PI * cutoffHz * dtSec
+  return r / (r + 1)
+}
+
+/** One-Euro filter (Casiez et al. 2012): low-pass whose cutoff rises with speed. */
+class OneEuroScalar implements ScalarFilter {
+  private value: number | null = null
+  private derivative = 0
+
+  next(value: number, dtSec: number): number {
+    if (this.value == null || dtSec <= 0) {
+      this.value = value
+      return value
+    }
+    const rawDerivative = (value - this.value) / dtSec
+    this.derivative +=
+      smoothingFactor(ONE_EURO_DERIVATIVE_CUTOFF_HZ, dtSec) *
+      (rawDerivative - this.derivative)
+    const cutoff = ONE_EURO_MIN_CUTOFF_HZ + ONE_EURO_BETA * Math.abs(this.derivative)
+    this.value += smoothingFactor(cutoff, dtSec) * (value - this.value)
+    return this.value
+  }
+}
+
+/** Constant-velocity Kalman filter on one coordinate; state = [position, velocity]. */
+class KalmanScalar implements ScalarFilter {
+  private p: number | null = null
+  private v = 0
+  private pp = KALMAN_MEASUREMENT_NOISE
+  private pv = 0
+  private vv = 1
+
+  next(value: number, dtSec: number): number {
+    if (this.p == null || dtSec <= 0) {
+      this.p = value
+      return value
+    }
+    // Predict.
+    const q = KALMAN_PROCESS_NOISE
+    const dt2 = dtSec * dtSec
+    this.p += this.v * dtSec
+    const pp = this.pp + 2 * dtSec * this.pv + dt2 * this.vv + (q * dt2 * dtSec) / 3
+    const pv = this.pv + dtSec * this.vv + (q * dt2) / 2
+    const vv = this.vv + q * dtSec
+    // Update with the measured position.
+    const s = pp + KALMAN_MEASUREMENT_NOISE
+    const kp = pp / s
+    const kv = pv / s
+    const innovation = value - this.p
+    this.p += kp * innovation
+    this.v += kv * innovation
+    this.pp = (1 - kp) * pp
+    this.pv = (1 - kp) * pv
+    this.vv = vv - kv * pv
+    return this.p
+  }
+}
+
+/** Applies one scalar filter per landmark coordinate. */
+class PerCoordinateFilter implements LandmarkFilter {
+  readonly kind: LandmarkFilterKind
+  private readonly createScalar: () => ScalarFilter
+  private states: ScalarFilter[][] = []
+  private lastTimestampMs: number | null = null
+
+  constructor(kind: LandmarkFilterKind, createScalar: () => ScalarFilter) {
+    this.kind = kind
+    this.createScalar = createScalar
+  }
+
+  apply(landmarks: NormalizedLandmarkList, timestampMs: number): NormalizedLandmarkList {
+    if (
+      this.lastTimestampMs == null ||
+      timestampMs - this.lastTimestampMs > FILTER_RESET_GAP_MS ||
+      this.states.length !== landmarks.length
+    ) {
+      this.states = landmarks.map(() => [
+        this.createScalar(),
+        this.createScalar(),
+        this.createScalar(),
+      ])
+    }
+    const dtSec =
+      this.lastTimestampMs != null ? (timestampMs - this.lastTimestampMs) / 1000 : 0
+    this.lastTimestampMs = timestampMs
+    return landmarks.map((lm, i) => {
+      const [fx, fy, fz] = this.states[i]!
+      return {
+        ...lm,
+        x: fx!.next(lm.x, dtSec),
+        y: fy!.next(lm.y, dtSec),
+        z: fz!.next(lm.z, dtSec),
+      }
+    })
+  }
+
+  reset(): void {
+    this.states = []
+    this.lastTimestampMs = null
+  }
+}
+
+class PassThroughFilter implements LandmarkFilter {
+  readonly kind = 'none'
+
+  apply(landmarks: NormalizedLandmarkList): NormalizedLandmarkList {
+    return landmarks
+  }
+
+  reset(): void {}
+}
+
+export function createLandmarkFilter(kind: LandmarkFilterKind): LandmarkFilter {
+  switch (kind) {
+    case 'oneEuro':
+      return new PerCoordinateFilter(kind, () => new OneEuroScalar())
+    case 'kalman':
+      return new PerCoordinateFilter(kind, () => new KalmanScalar())
+    case 'none':
+      return new PassThroughFilter()
+  }
+}
+
+/** Mean second-difference magnitude over landmarks visible in all three frames. */
+function secondDifference(
+  frames: NormalizedLandmarkList[]
+): number | null {
+  const [a, b, c] = frames
+  if (!a || !b || !c) return null
+  let sum = 0
+  let count = 0
+  for (let i = 0; i < c.length; i++) {
+    const p0 = a[i]
+    const p1 = b[i]
+    const p2 = c[i]
+    if (
+      p0 == null ||
+      p1 == null ||
+      p2 == null ||
+      (p2.visibility ?? 0) < JITTER_MIN_VISIBILITY
+    ) {
+      continue
+    }
+    sum += Math.hypot(p2.x - 2 * p1.x + p0.x, p2.y - 2 * p1.y + p0.y)
+    count++
+  }
+  return count > 0 ? sum / count : null
+}
+
+/** Tracks raw vs filtered jitter for diagnostics. */
+export class JitterMeter {
+  private raw: NormalizedLandmarkList[] = []
+  private filtered: NormalizedLandmarkList[] = []
+  private rawJitter: number | null = null
+  private filteredJitter: number | null = null
+
+  push(raw: NormalizedLandmarkList, filtered: NormalizedLandmarkList): void {
+    this.raw = [...this.raw, raw].slice(-3)
+    this.filtered = [...this.filtered, filtered].slice(-3)
+    const ema = (current: number | null, value: number | null) =>
+      value == null
+        ? current
+        : current == null
+          ? value
+          : current + JITTER_EMA_ALPHA * (value - current)
+    this.rawJitter = ema(this.rawJitter, secondDifference(this.raw))
+    this.filteredJitter = ema(this.filteredJitter, secondDifference(this.filtered))
+  }
+
+  getStats(filter: LandmarkFilterKind): LandmarkJitterStats {
+    const round = (v: number | null) => (v != null ? Math.round(v * 100_000) / 100_000 : null)
+    return {
+      filter,
+      rawJitter: round(this.rawJitter),
+      filteredJitter: round(this.filteredJitter),
+      reduction:
+        this.rawJitter != null && this.filteredJitter != null && this.rawJitter > 0
+          ? Math.round((1 - this.filteredJitter / this.rawJitter) * 100) / 100
+          : null,
+    }
+  }
+
+  /** Drop frame history (pose lost / filter swapped); averages are kept until new frames. */
+  resetFrames(): void {
+    this.raw = []
+    this.filtered = []
+  }
+
+  reset(): void {
+    this.resetFrames()
+    this.rawJitter = null
+    this.filteredJitter = null
+  }
+}
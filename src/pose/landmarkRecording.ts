@@ -0,0 +1,254 @@
+/**
+ * RunForm PoC – Landmark recordings: every raw pose result of a session (timestamp, all 33
+ * landmarks with visibility, frame quality) in a compact, versioned JSON file.
+ * Landmarks are quantized to 1/10000 and packed as little-endian int16 (base64), about
+ * 350 bytes per frame in the file. landmarkReplay.ts feeds a recording back through the pipeline.
+ * Version 1 stored selfie-mirrored landmarks; they are mirrored back to the captured frame
+ * (anatomical left/right, as backends now return them) when decoded.
+ */
+
+import type { NormalizedLandmarkList } from '@mediapipe/pose';
+import type { LandmarkFilterKind } from './landmarkFilter';
+import type { MetricsBaseline } from './metrics';
+import type { PoseBackendKind } from './poseBackend';
+
+export const LANDMARK_RECORDING_FORMAT = 'runform-landmarks';
+/** Bump on any change to the packed layout or landmark meaning; parse accepts SUPPORTED_VERSIONS. */
+export const LANDMARK_RECORDING_VERSION = 2;
+const SUPPORTED_VERSIONS = [1, LANDMARK_RECORDING_VERSION];
+/** Recordings before this version hold selfie-mirrored landmarks. */
+const UNMIRRORED_SINCE_VERSION = 2;
+
+const LANDMARK_COUNT = 33;
+/** x, y, z, visibility. */
+const VALUES_PER_LANDMARK = 4;
+const FRAME_BYTES = LANDMARK_COUNT * VALUES_PER_LANDMARK * 2;
+const QUANT = 10_000;
+/** Timestamps are stored as deltas in 0.1 ms. */
+const TIME_QUANT = 10;
+const FRAMES_PER_CHUNK = 512;
+
+export type LandmarkRecording = {
+  format: typeof LANDMARK_RECORDING_FORMAT;
+  version: number;
+  recordedAt: string;
+  backend: PoseBackendKind;
+  /** Filter in use when the recording started; landmarks themselves are unfiltered. */
+  landmarkFilter: LandmarkFilterKind;
+  /** Camera frame size (for the aspect ratio); null if no frame had a size. */
+  frameSize: { width: number; height: number } | null;
+  /** Calibration done: tracking started after the frame at startMs with this baseline. */
+  tracking: { startMs: number; baseline: MetricsBaseline } | null;
+  frameCount: number;
+  /** Timestamp of the first frame (ms, performance clock of the session). */
+  startMs: number;
+  /** Per frame: delta to the previous frame in 0.1 ms (0 for the first). */
+  timeDeltas: number[];
+  /** Per frame: frame quality 0–100, -1 = no pose detected. */
+  frameQuality: number[];
+  /** Base64 int16 LE, LANDMARK_COUNT × (x, y, z, visibility) × QUANT per frame with a pose. */
+  landmarks: string;
+};
+
+export type RecordedPoseFrame = {
+  timestampMs: number;
+  /** Raw backend output (before the landmark filter); null = no pose. */
+  landmarks: NormalizedLandmarkList | null;
+  frameQuality: number | null;
+};
+
+/** Left/right landmark index pairs of the 33-point BlazePose topology. */
+const LEFT_RIGHT_PAIRS: readonly [number, number][] = [
+  [1, 4], [2, 5], [3, 6], [7, 8], [9, 10], [11, 12], [13, 14], [15, 16],
+  [17, 18], [19, 20], [21, 22], [23, 24], [25, 26], [27, 28], [29, 30], [31, 32],
+];
+
+/** Undoes the legacy selfieMode output of version 1: x flipped and left/right swapped. */
+function unmirrorLandmarks(landmarks: NormalizedLandmarkList): NormalizedLandmarkList {
+  const result = landmarks.map((lm) => ({ ...lm, x: 1 - lm.x }));
+  for (const [left, right] of LEFT_RIGHT_PAIRS) {
+    const l = result[left];
+    const r = result[right];
+    if (l == null || r == null) continue;
+    result[left] = r;
+    result[right] = l;
+  }
+  return result;
+}
+
+function quantize(value: number | undefined): number {
+  const q = Math.round((value ?? 0) * QUANT);
+  return Math.max(-32768, Math.min(32767, q));
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Collects frames while a session runs; landmarks go straight into packed chunks. */
+export class LandmarkRecorder {
+  private readonly backend: PoseBackendKind;
+  private readonly landmarkFilter: LandmarkFilterKind;
+  private readonly recordedAt = new Date().toISOString();
+  private frameSize: { width: number; height: number } | null = null;
+  private tracking: LandmarkRecording['tracking'] = null;
+  private startMs: number | null = null;
+  private lastMs = 0;
+  private lastTick = 0;
+  private readonly timeDeltas: number[] = [];
+  private readonly frameQuality: number[] = [];
+  private readonly chunks: Uint8Array[] = [];
+  private chunkFrames = FRAMES_PER_CHUNK;
+
+  constructor(backend: PoseBackendKind, landmarkFilter: LandmarkFilterKind) {
+    this.backend = backend;
+    this.landmarkFilter = landmarkFilter;
+  }
+
+  get frameCount(): number {
+    return this.timeDeltas.length;
+  }
+
+  push(
+    timestampMs: number,
+    landmarks: NormalizedLandmarkList | null,
+    frameQuality: number | null,
+    frameSize: { width: number; height: number } | null
+  ): void {
+    if (!this.frameSize && frameSize && frameSize.width > 0 && frameSize.height > 0) {
+      this.frameSize = { width: frameSize.width, height: frameSize.height };
+    }
+    if (this.startMs == null) this.startMs = timestampMs;
+    // Deltas between rounded ticks, so rounding does not accumulate over a long session.
+    const tick = Math.round((timestampMs - this.startMs) * TIME_QUANT);
+    this.timeDeltas.push(tick - this.lastTick);
+    this.lastTick = tick;
+    this.lastMs = timestampMs;
+
+    if (!landmarks?.length) {
+      this.frameQuality.push(-1);
+      return;
+    }
+    this.frameQuality.push(Math.round(frameQuality ?? 0));
+    if (this.chunkFrames === FRAMES_PER_CHUNK) {
+      this.chunks.push(new Uint8Array(FRAMES_PER_CHUNK * FRAME_BYTES));
+      this.chunkFrames = 0;
+    }
+    const chunk = this.chunks[this.chunks.length - 1]!;
+    const view = new DataView(chunk.buffer, this.chunkFrames * FRAME_BYTES, FRAME_BYTES);
+    for (let i = 0; i < LANDMARK_COUNT; i++) {
+      const lm = landmarks[i];
+      const offset = i * VALUES_PER_LANDMARK * 2;
+      view.setInt16(offset, quantize(lm?.x), true);
+      view.setInt16(offset + 2, quantize(lm?.y), true);
+      view.setInt16(offset + 4, quantize(lm?.z), true);
+      view.setInt16(offset + 6, quantize(lm?.visibility), true);
+    }
+    this.chunkFrames += 1;
+  }
+
+  /** Tracking started after the latest frame. */
+  markTracking(baseline: MetricsBaseline): void {
+    this.tracking = { startMs: this.lastMs, baseline: { ...baseline } };
+  }
+
+  /** The recording so far; the recorder keeps recording. */
+  finish(): LandmarkRecording {
+    const poseFrames =
+      this.chunks.length === 0 ? 0 : (this.chunks.length - 1) * FRAMES_PER_CHUNK + this.chunkFrames;
+    const packed = new Uint8Array(poseFrames * FRAME_BYTES);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      const bytes = chunk.subarray(0, Math.min(chunk.length, packed.length - offset));
+      packed.set(bytes, offset);
+      offset += bytes.length;
+    }
+    return {
+      format: LANDMARK_RECORDING_FORMAT,
+      version: LANDMARK_RECORDING_VERSION,
+      recordedAt: this.recordedAt,
+      backend: this.backend,
+      landmarkFilter: this.landmarkFilter,
+      frameSize: this.frameSize,
+      tracking: this.tracking,
+      frameCount: this.frameCount,
+      startMs: this.startMs ?? 0,
+      timeDeltas: [...this.timeDeltas],
+      frameQuality: [...this.frameQuality],
+      landmarks: encodeBase64(packed),
+    };
+  }
+}
+
+/** Parses and validates a recording file. Throws with a user-facing message. */
+export function parseLandmarkRecording(text: string): LandmarkRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Filen er ikke en gyldig landmark-optagelse (ugyldig JSON).');
+  }
+  const rec = data as Partial<LandmarkRecording> | null;
+  if (!rec || rec.format !== LANDMARK_RECORDING_FORMAT) {
+    throw new Error('Filen er ikke en RunForm landmark-optagelse.');
+  }
+  if (rec.version == null || !SUPPORTED_VERSIONS.includes(rec.version)) {
+    throw new Error(`Optagelsen har version ${rec.version}; kun version ${SUPPORTED_VERSIONS.join(' og ')} understøttes.`);
+  }
+  if (
+    !Array.isArray(rec.timeDeltas) ||
+    !Array.isArray(rec.frameQuality) ||
+    typeof rec.landmarks !== 'string' ||
+    rec.timeDeltas.length !== rec.frameCount ||
+    rec.frameQuality.length !== rec.frameCount
+  ) {
+    throw new Error('Landmark-optagelsen er ufuldstændig.');
+  }
+  return rec as LandmarkRecording;
+}
+
+/** Unpacks all frames with absolute timestamps. */
+export function decodeLandmarkRecording(recording: LandmarkRecording): RecordedPoseFrame[] {
+  const bytes = decodeBase64(recording.landmarks);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames: RecordedPoseFrame[] = [];
+  let tick = 0;
+  let offset = 0;
+  for (let f = 0; f < recording.frameCount; f++) {
+    tick += recording.timeDeltas[f]!;
+    const timestampMs = recording.startMs + tick / TIME_QUANT;
+    const quality = recording.frameQuality[f]!;
+    if (quality < 0 || offset + FRAME_BYTES > bytes.length) {
+      frames.push({ timestampMs, landmarks: null, frameQuality: null });
+      continue;
+    }
+    const landmarks: NormalizedLandmarkList = [];
+    for (let i = 0; i < LANDMARK_COUNT; i++) {
+      const o = offset + i * VALUES_PER_LANDMARK * 2;
+      landmarks.push({
+        x: view.getInt16(o, true) / QUANT,
+        y: view.getInt16(o + 2, true) / QUANT,
+        z: view.getInt16(o + 4, true) / QUANT,
+        visibility: view.getInt16(o + 6, true) / QUANT,
+      });
+    }
+    offset += FRAME_BYTES;
+    frames.push({
+      timestampMs,
+      landmarks: recording.version < UNMIRRORED_SINCE_VERSION ? unmirrorLandmarks(landmarks) : landmarks,
+      frameQuality: quality,
+    });
+  }
+  return frames;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { FakePoseBackend } from './fakePoseBackend';
+import { DEFAULT_LANDMARK_FILTER } from './landmarkFilter';
+import {
+  decodeLandmarkRecording,
+  LandmarkRecorder,
+  parseLandmarkRecording,
+  type LandmarkRecording,
+} from './landmarkRecording';
+import { replayLandmarkRecording } from './landmarkReplay';
+import type { MetricsSnapshot } from './metrics';
+import { PoseRunner } from './poseRunner';
+import { SYNTHETIC_BASELINE, syntheticRun, type SyntheticGait } from './syntheticRunner';
+
+const FRAME_SIZE = { width: 480, height: 480 };
+const FRAME_MS = 35;
+const TRACKING_START_MS = 2000;
+const GAIT: SyntheticGait = { stepMs: { L: 360, R: 300 }, contactMs: { L: 260, R: 220 } };
+
+/** Synthetic frames at the precision a recording stores them. */
+function recordedPrecisionFrames(durationMs: number) {
+  const recorder = new LandmarkRecorder('fake', 'none');
+  for (const frame of syntheticRun(GAIT, durationMs, FRAME_MS)) {
+    recorder.push(frame.timestampMs, frame.landmarks, 100, FRAME_SIZE);
+  }
+  return decodeLandmarkRecording(recorder.finish());
+}
+
+/** A live session: calibration frames, then tracking from TRACKING_START_MS. */
+async function recordSession(durationMs = 12_000) {
+  const frames = recordedPrecisionFrames(durationMs);
+  let snapshot: MetricsSnapshot | null = null;
+  const runner = new PoseRunner(
+    {
+      onStatus: () => {},
+      onMetricsSnapshot: (snap) => {
+        snapshot = snap;
+      },
+      onError: (message) => {
+        throw new Error(message);
+      },
+    },
+    new FakePoseBackend(frames.map((frame) => frame.landmarks)),
+    DEFAULT_LANDMARK_FILTER
+  );
+  await runner.initialize();
+  runner.startRecording();
+  let tracking = false;
+  for (const frame of frames) {
+    await runner.processFrame(null, frame.timestampMs, FRAME_SIZE);
+    if (!tracking && frame.timestampMs >= TRACKING_START_MS) {
+      runner.startTracking(SYNTHETIC_BASELINE);
+      tracking = true;
+    }
+  }
+  const steps = await runner.getStepLog();
+  // Exported as JSON and imported again, like a bug report.
+  const recording = parseLandmarkRecording(JSON.stringify(await runner.getRecording()));
+  await runner.stop();
+  return { recording, steps, snapshot: snapshot as MetricsSnapshot | null };
+}
+
+describe('replayLandmarkRecording', () => {
+  it('replays a recorded session to the same steps and metrics', async () => {
+    const live = await recordSession();
+    const replay = await replayLandmarkRecording(live.recording);
+
+    expect(replay.frameCount).toBe(live.recording.frameCount);
+    expect(replay.poseFrameCount).toBe(live.recording.frameCount);
+    expect(live.steps.length).toBeGreaterThanOrEqual(25);
+    expect(replay.steps).toEqual(live.steps);
+    expect(replay.snapshot).toEqual(live.snapshot);
+  });
+
+  it('uses the recorded frame quality for the tracking gate', async () => {
+    const live = await recordSession();
+    // As if the image had been too dark from 6 to 8 s: the live quality was low there.
+    const frames = decodeLandmarkRecording(live.recording);
+    const darkened: LandmarkRecording = {
+      ...live.recording,
+      frameQuality: live.recording.frameQuality.map((quality, i) =>
+        frames[i]!.timestampMs >= 6000 && frames[i]!.timestampMs < 8000 ? 40 : quality
+      ),
+    };
+    const replay = await replayLandmarkRecording(darkened);
+
+    expect(replay.steps.some((s) => s.t >= 6000 && s.t < 8000)).toBe(false);
+    expect(replay.steps.filter((s) => s.t >= 8000).length).toBeGreaterThanOrEqual(8);
+    expect(live.steps.filter((s) => s.t >= 6000 && s.t < 8000).length).toBeGreaterThanOrEqual(5);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * RunForm PoC – Replays a landmark recording without a camera: the recorded raw landmarks go
+ * through a PoseRunner with the fake backend, so landmark filter, getCalibrationFrameData,
+ * getTrackingFrameData and MetricsSession run exactly as live. Frame quality is the recorded one
+ * (it includes the camera image's light and blur), so the same frames pass the tracking gate.
+ * Used to re-run old sessions after metric changes and to reproduce bug reports.
+ */
+
+import { FakePoseBackend } from './fakePoseBackend';
+import type { LandmarkFilterKind } from './landmarkFilter';
+import { decodeLandmarkRecording, type LandmarkRecording } from './landmarkRecording';
+import type { MetricsBaseline, MetricsSnapshot, StepRecord } from './metrics';
+import { PoseRunner, type PoseRunnerCallbacks } from './poseRunner';
+
+export type LandmarkReplayOptions = {
+  /** Defaults to the filter the recording was made with. */
+  landmarkFilter?: LandmarkFilterKind;
+  /** Defaults to the recorded calibration baseline. */
+  baseline?: MetricsBaseline;
+};
+
+export type LandmarkReplayCallbacks = Partial<
+  Pick<PoseRunnerCallbacks, 'onCalibrationFrame' | 'onTrackingFrame' | 'onMetricsSnapshot'>
+>;
+
+export type LandmarkReplayResult = {
+  frameCount: number;
+  poseFrameCount: number;
+  /** Frames after the recorded tracking start (0 if calibration never finished). */
+  trackingFrameCount: number;
+  /** Final metrics snapshot; null without tracking. */
+  snapshot: MetricsSnapshot | null;
+  steps: StepRecord[];
+};
+
+/** Runs all frames as fast as possible; timestamps are the recorded ones. */
+export async function replayLandmarkRecording(
+  recording: LandmarkRecording,
+  callbacks: LandmarkReplayCallbacks = {},
+  options: LandmarkReplayOptions = {}
+): Promise<LandmarkReplayResult> {
+  const frames = decodeLandmarkRecording(recording);
+  const tracking = recording.tracking;
+  const baseline = options.baseline ?? tracking?.baseline ?? null;
+  let snapshot: MetricsSnapshot | null = null;
+  let replayError: string | null = null;
+
+  const runner = new PoseRunner(
+    {
+      onStatus: () => {},
+      onCalibrationFrame: callbacks.onCalibrationFrame,
+      onTrackingFrame: callbacks.onTrackingFrame,
+      onMetricsSnapshot: (snap, timestampMs) => {
+        snapshot = snap;
+        callbacks.onMetricsSnapshot?.(snap, timestampMs);
+      },
+      onError: (message) => {
+        replayError = message;
+      },
+    },
+    new FakePoseBackend(frames.map((frame) => frame.landmarks)),
+    options.landmarkFilter ?? recording.landmarkFilter
+  );
+
+  await runner.initialize();
+  let trackingStarted = false;
+  let trackingFrameCount = 0;
+  try {
+    for (const frame of frames) {
+      await runner.processFrame(null, frame.timestampMs, recording.frameSize, frame.frameQuality);
+      if (replayError) throw new Error(replayError);
+      if (trackingStarted) {
+        trackingFrameCount += 1;
+      } else if (tracking && baseline && frame.timestampMs >= tracking.startMs) {
+        runner.startTracking(baseline);
+        trackingStarted = true;
+      }
+    }
+    return {
+      frameCount: frames.length,
+      poseFrameCount: frames.filter((frame) => frame.landmarks != null).length,
+      trackingFrameCount,
+      snapshot,
+      steps: await runner.getStepLog(),
+    };
+  } finally {
+    await runner.stop();
+  }
+}
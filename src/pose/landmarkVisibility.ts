@@ -0,0 +1,196 @@
+/**
+ * RunForm PoC – Per-landmark visibility: which joints the pose model actually sees, frame by frame.
+ * Treadmill consoles and handrails often hide a knee or ankle for part of every stride; the
+ * single frame quality number hides that. LandmarkVisibilitySession gives the visible share per
+ * joint over the last snapshot interval; summarizeLandmarkVisibility turns the session samples
+ * into a per-joint timeline, finds recurring occlusions and the metrics they make less reliable.
+ */
+
+import type { NormalizedLandmarkList } from '@mediapipe/pose'
+import type { MetricKey } from './metrics'
+
+export type BodyJoint =
+  | 'shoulder'
+  | 'elbow'
+  | 'wrist'
+  | 'hip'
+  | 'knee'
+  | 'ankle'
+  | 'heel'
+  | 'footIndex'
+
+export type BodySide = 'L' | 'R'
+
+/** Joint and side, e.g. 'ankleL'. */
+export type VisibilityKey = `${BodyJoint}${BodySide}`
+
+/** Visible share (0–1) of pose frames per joint; joints without frames are missing. */
+export type LandmarkVisibility = Partial<Record<VisibilityKey, number>>
+
+export type JointVisibilitySummary = {
+  key: VisibilityKey
+  /** Share of pose frames (0–1) the joint was visible over the session. */
+  visibleShare: number
+  /** Hidden for part of most sample windows (e.g. every stride), not one long dropout. */
+  recurring: boolean
+  /** Visible share in % per time bin (at most VISIBILITY_TIMELINE_BINS). */
+  timeline: number[]
+}
+
+/** BlazePose indices of the tracked joints. */
+const JOINT_INDEX: Record<BodyJoint, { L: number; R: number }> = {
+  shoulder: { L: 11, R: 12 },
+  elbow: { L: 13, R: 14 },
+  wrist: { L: 15, R: 16 },
+  hip: { L: 23, R: 24 },
+  knee: { L: 25, R: 26 },
+  ankle: { L: 27, R: 28 },
+  heel: { L: 29, R: 30 },
+  footIndex: { L: 31, R: 32 },
+}
+
+export const VISIBILITY_KEYS: VisibilityKey[] = (Object.keys(JOINT_INDEX) as BodyJoint[]).flatMap(
+  (joint) => [`${joint}L`, `${joint}R`] as VisibilityKey[]
+)
+
+/** A landmark counts as seen at or above this visibility (as the metrics' leg/arm checks). */
+const VISIBLE_MIN = 0.5
+/** Matches the metrics snapshot interval, so each session sample covers its own frames. */
+const VISIBILITY_WINDOW_MS = 500
+/** A joint hidden in at least this share of frames is occluded. */
+export const OCCLUSION_MIN_HIDDEN_SHARE = 0.15
+/** Hidden share above this makes dependent metrics unreliable (Low), not just less reliable. */
+const OCCLUSION_SEVERE_HIDDEN_SHARE = 0.4
+/** Partly hidden in this share of windows = recurring (every stride) rather than one dropout. */
+const RECURRING_WINDOW_SHARE = 0.5
+const PARTIAL_WINDOW_MIN = 0.05
+const PARTIAL_WINDOW_MAX = 0.95
+const VISIBILITY_TIMELINE_BINS = 40
+
+/**
+ * Joints each metric is computed from. bothSides: the metric compares or combines left and right,
+ * so either side hidden hurts; otherwise the better-visible side is enough.
+ */
+const METRIC_JOINTS: Partial<Record<MetricKey, { joints: BodyJoint[]; bothSides: boolean }>> = {
+  cadence: { joints: ['hip', 'ankle'], bothSides: false },
+  vo: { joints: ['hip'], bothSides: false },
+  contactTime: { joints: ['ankle', 'footIndex'], bothSides: false },
+  asymmetry: { joints: ['ankle', 'footIndex'], bothSides: true },
+  jointAngles: { joints: ['hip', 'knee', 'ankle', 'heel', 'footIndex'], bothSides: false },
+  trunkLean: { joints: ['shoulder', 'hip'], bothSides: false },
+  overstride: { joints: ['hip', 'heel'], bothSides: false },
+  armSwing: { joints: ['shoulder', 'elbow', 'wrist'], bothSides: false },
+  armCrossover: { joints: ['shoulder', 'wrist', 'hip'], bothSides: true },
+  pelvicDrop: { joints: ['hip'], bothSides: true },
+  kneeValgus: { joints: ['hip', 'knee', 'ankle'], bothSides: false },
+}
+
+function mean(arr: number[]): number {
+  if (arr.length === 0) return 0
+  return arr.reduce((a, b) => a + b, 0) / arr.length
+}
+
+/** Bit per VISIBILITY_KEYS entry. */
+function visibleMask(landmarks: NormalizedLandmarkList): number {
+  let mask = 0
+  VISIBILITY_KEYS.forEach((key, bit) => {
+    const side = key.slice(-1) as BodySide
+    const joint = key.slice(0, -1) as BodyJoint
+    const lm = landmarks[JOINT_INDEX[joint][side]]
+    if ((lm?.visibility ?? 0) >= VISIBLE_MIN) mask |= 1 << bit
+  })
+  return mask
+}
+
+/** Visible share per joint over the last VISIBILITY_WINDOW_MS of pose frames. */
+export class LandmarkVisibilitySession {
+  private frames: { t: number; mask: number }[] = []
+
+  /** Every frame with a pose while tracking, also those too poor for the metrics. */
+  update(landmarks: NormalizedLandmarkList, timestampMs: number): void {
+    this.frames.push({ t: timestampMs, mask: visibleMask(landmarks) })
+    const cutoff = timestampMs - VISIBILITY_WINDOW_MS
+    this.frames = this.frames.filter((f) => f.t >= cutoff)
+  }
+
+  getSnapshot(timestampMs: number): LandmarkVisibility {
+    const frames = this.frames.filter((f) => f.t >= timestampMs - VISIBILITY_WINDOW_MS)
+    if (frames.length === 0) return {}
+    const result: LandmarkVisibility = {}
+    VISIBILITY_KEYS.forEach((key, bit) => {
+      const visible = frames.filter((f) => f.mask & (1 << bit)).length
+      result[key] = Math.round((visible / frames.length) * 100) / 100
+    })
+    return result
+  }
+
+  reset(): void {
+    this.frames = []
+  }
+}
+
+/** Per-joint summary from the session samples' visibility windows (in time order). */
+export function summarizeLandmarkVisibility(
+  windows: (LandmarkVisibility | undefined)[]
+): JointVisibilitySummary[] {
+  const summaries: JointVisibilitySummary[] = []
+  for (const key of VISIBILITY_KEYS) {
+    const shares = windows
+      .map((w) => w?.[key])
+      .filter((v): v is number => v != null)
+    if (shares.length === 0) continue
+    const partial = shares.filter(
+      (v) => 1 - v >= PARTIAL_WINDOW_MIN && 1 - v <= PARTIAL_WINDOW_MAX
+    ).length
+    const binSize = Math.max(1, Math.ceil(shares.length / VISIBILITY_TIMELINE_BINS))
+    const timeline: number[] = []
+    for (let i = 0; i < shares.length; i += binSize) {
+      timeline.push(Math.round(mean(shares.slice(i, i + binSize)) * 100))
+    }
+    const visibleShare = Math.round(mean(shares) * 100) / 100
+    summaries.push({
+      key,
+      visibleShare,
+      recurring:
+        1 - visibleShare >= OCCLUSION_MIN_HIDDEN_SHARE &&
+        partial / shares.length >= RECURRING_WINDOW_SHARE,
+      timeline,
+    })
+  }
+  return summaries
+}
+
+export type Reliability = 'High' | 'Medium' | 'Low'
+
+/**
+ * Reliability per metric after occlusions: a level down when a joint it needs was hidden at least
+ * OCCLUSION_MIN_HIDDEN_SHARE of the time, Low from OCCLUSION_SEVERE_HIDDEN_SHARE.
+ * Only metrics valid for the camera view that end up below the session reliability are returned.
+ */
+export function getOccludedMetricReliability(
+  joints: JointVisibilitySummary[],
+  sessionReliability: Reliability,
+  isValid: (metric: MetricKey) => boolean
+): Partial<Record<MetricKey, Reliability>> {
+  const visible = new Map(joints.map((j) => [j.key, j.visibleShare]))
+  const result: Partial<Record<MetricKey, Reliability>> = {}
+  for (const [metric, dependency] of Object.entries(METRIC_JOINTS) as [
+    MetricKey,
+    { joints: BodyJoint[]; bothSides: boolean },
+  ][]) {
+    if (!isValid(metric)) continue
+    const hidden = Math.max(
+      0,
+      ...dependency.joints.map((joint) => {
+        const left = 1 - (visible.get(`${joint}L`) ?? 1)
+        const right = 1 - (visible.get(`${joint}R`) ?? 1)
+        return dependency.bothSides ? Math.max(left, right) : Math.min(left, right)
+      })
+    )
+    if (hidden < OCCLUSION_MIN_HIDDEN_SHARE) continue
+    const reliability: Reliability =
+      hidden >= OCCLUSION_SEVERE_HIDDEN_SHARE || sessionReliability !== 'High' ? 'Low' : 'Medium'
+    if (reliability !== sessionReliability) result[metric] = reliability
+  }
+  return result
+}
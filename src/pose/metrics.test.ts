@@ -0,0 +1,128 @@
+import { POSE_LANDMARKS_LEFT } from '@mediapipe/pose'
+import { describe, expect, it } from 'vitest'
+import { computeSummary } from '../sessionSummary'
+import { getTrackingFrameData } from './frameQuality'
+import { MetricsSession, type StepRecord } from './metrics'
+import { SYNTHETIC_BASELINE, syntheticRun, type SyntheticGait } from './syntheticRunner'
+
+/** Contact edges are detected within about one frame of the scripted ones. */
+const TOLERANCE_MS = 20
+/** Steps before this are still settling (ground level, first strides). */
+const SETTLED_MS = 2000
+
+function runMetrics(gait: SyntheticGait, durationMs = 8000, frameMs = 10): MetricsSession {
+  const session = new MetricsSession()
+  for (const frame of syntheticRun(gait, durationMs, frameMs)) {
+    const track = getTrackingFrameData({ poseLandmarks: frame.landmarks }, 100)
+    if (track) session.update(track, SYNTHETIC_BASELINE, frame.timestampMs)
+  }
+  return session
+}
+
+function settledSteps(session: MetricsSession, leg: 'L' | 'R'): StepRecord[] {
+  return session.getStepLog().filter((s) => s.leg === leg && s.t >= SETTLED_MS)
+}
+
+const ASYMMETRIC: SyntheticGait = {
+  stepMs: { L: 360, R: 300 },
+  contactMs: { L: 260, R: 220 },
+}
+
+describe('MetricsSession ground contact', () => {
+  it('detects alternating initial contacts with the scripted step times', () => {
+    const session = runMetrics(ASYMMETRIC)
+    for (const leg of ['L', 'R'] as const) {
+      const steps = settledSteps(session, leg)
+      expect(steps.length).toBeGreaterThanOrEqual(8)
+      for (const step of steps) {
+        expect(step.stepTimeMs).not.toBeNull()
+        expect(Math.abs(step.stepTimeMs! - ASYMMETRIC.stepMs[leg])).toBeLessThanOrEqual(TOLERANCE_MS)
+      }
+    }
+  })
+
+  it('measures contact time per step', () => {
+    const session = runMetrics(ASYMMETRIC)
+    for (const leg of ['L', 'R'] as const) {
+      // The last contact of each leg may still be open.
+      for (const step of settledSteps(session, leg).slice(0, -1)) {
+        expect(Math.abs(step.contactMs! - ASYMMETRIC.contactMs[leg])).toBeLessThanOrEqual(
+          TOLERANCE_MS
+        )
+      }
+    }
+  })
+
+  it("measures flight time from the other foot's toe-off, also when steps are asymmetric", () => {
+    const session = runMetrics(ASYMMETRIC)
+    // Right contact: left toe-off at 260 ms → right contact at 300 ms.
+    for (const step of settledSteps(session, 'R')) {
+      expect(Math.abs(step.flightMs! - 40)).toBeLessThanOrEqual(TOLERANCE_MS)
+    }
+    // Left contact: right toe-off 220 ms after its contact → left contact 360 ms after it.
+    for (const step of settledSteps(session, 'L')) {
+      expect(Math.abs(step.flightMs! - 140)).toBeLessThanOrEqual(TOLERANCE_MS)
+    }
+    const snapshot = session.getSnapshot(8000)
+    expect(Math.abs(snapshot.flightTimeMs - 90)).toBeLessThanOrEqual(TOLERANCE_MS)
+  })
+
+  it('reports zero flight time while the other foot is still down', () => {
+    const session = runMetrics({ stepMs: { L: 330, R: 330 }, contactMs: { L: 420, R: 420 } })
+    const steps = session.getStepLog().filter((s) => s.t >= SETTLED_MS)
+    expect(steps.length).toBeGreaterThan(0)
+    expect(steps.every((s) => s.flightMs === 0)).toBe(true)
+  })
+})
+
+describe('MetricsSession joint angles per stride', () => {
+  it('stores each stride’s angles on its step, not a rolling average', () => {
+    // Alternating long and short reach → alternating knee flexion at contact.
+    const session = runMetrics({ ...ASYMMETRIC, reach: [0.12, 0.02] })
+    const steps = settledSteps(session, 'L')
+    // The last step's stride is still open.
+    expect(steps.at(-1)!.kneeFlexionAtContact).toBeNull()
+    const knees = steps.slice(0, -1).map((s) => s.kneeFlexionAtContact!)
+    expect(knees.length).toBeGreaterThanOrEqual(6)
+    for (let i = 2; i < knees.length; i++) {
+      expect(knees[i]).toBeCloseTo(knees[i - 2]!, 0)
+    }
+    expect(Math.abs(knees[1]! - knees[0]!)).toBeGreaterThan(3)
+    for (const step of steps.slice(0, -1)) {
+      expect(step.peakKneeFlexionSwing).toBeGreaterThan(step.kneeFlexionAtContact!)
+      expect(step.hipExtensionAtToeOff).not.toBeNull()
+      expect(step.ankleDorsiflexionAtContact).not.toBeNull()
+    }
+
+    const summary = computeSummary([], 0, 8000, 8, 8, session.getStepLog(), 'side')
+    const all = session
+      .getStepLog()
+      .map((s) => s.kneeFlexionAtContact)
+      .filter((v) => v != null)
+    expect(summary.kneeFlexionAtContact?.min).toBeCloseTo(Math.min(...all), 1)
+    expect(summary.kneeFlexionAtContact?.max).toBeCloseTo(Math.max(...all), 1)
+  })
+
+  it('drops the stride in progress while the leg is hidden', () => {
+    const frames = syntheticRun(ASYMMETRIC, 8000, 10)
+    // Left ankle hidden for a moment in the swing after the left contact at 3960 ms.
+    const hiddenFrom = 4300
+    const hiddenTo = 4400
+    const session = new MetricsSession()
+    for (const frame of frames) {
+      const landmarks = frame.landmarks.map((lm, i) =>
+        i === POSE_LANDMARKS_LEFT.LEFT_ANKLE &&
+        frame.timestampMs >= hiddenFrom &&
+        frame.timestampMs < hiddenTo
+          ? { ...lm, visibility: 0.1 }
+          : lm
+      )
+      const track = getTrackingFrameData({ poseLandmarks: landmarks }, 100)
+      if (track) session.update(track, SYNTHETIC_BASELINE, frame.timestampMs)
+    }
+    const steps = settledSteps(session, 'L').slice(0, -1)
+    const hiddenStride = steps.find((s) => s.t < hiddenFrom && s.t > hiddenFrom - 660)!
+    expect(hiddenStride.kneeFlexionAtContact).toBeNull()
+    expect(steps.filter((s) => s.kneeFlexionAtContact == null)).toEqual([hiddenStride])
+  })
+})
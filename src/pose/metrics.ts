@@ -1,18 +1,109 @@
 /**
- * RunForm PoC – Metrics in tracking mode: cadence, VO proxy, stability.
+ * RunForm PoC – Metrics in tracking mode: cadence, VO proxy, stability, ground contact.
  * Cadence = steps_per_minute (foot strikes); steps in last 10s → cadence = stepsLast10s * 6.
+ * When confident, the continuous autocorrelation estimate (see cadenceEstimator.ts) is used instead.
+ * VO proxy = mid-hip Y range (image-height units); voCm scales it with the calibrated cm per unit.
+ * Ground contact = initial contact → toe-off per leg (lowest of ankle / foot index); each visible
+ * leg is tracked on its own, giving left/right step time, contact time and symmetry index.
+ * Flight time = one leg's toe-off → the other leg's next initial contact (per step).
+ * Joint angles per frame and per stride via KinematicsSession (see kinematics.ts).
+ * Trunk lean = mid-hip → mid-shoulder vs vertical, relative to the standing baseline.
+ * Overstride index = heel ahead of mid-hip at initial contact / calibrated leg length.
+ * Arm swing via ArmSwingSession (see armSwing.ts).
+ * Frontal view: pelvic drop and knee valgus peaks per stance via FrontalPlaneTracker (see frontalPlane.ts).
+ * Which metrics are valid depends on the camera view found in calibration (see METRICS_BY_VIEW).
+ * Per-joint visibility over every pose frame via LandmarkVisibilitySession (see landmarkVisibility.ts).
+ * Camera moves: discardSince() drops what was measured across the move (see cameraShift.ts).
  */
 
+import type { NormalizedLandmarkList } from '@mediapipe/pose'
+import type { CameraView, LegLandmarks, TrackingFrameData } from './frameQuality'
+import { ArmSwingSession, type ArmSwingSnapshot } from './armSwing'
+import { CadenceEstimator, type CadenceEstimate } from './cadenceEstimator'
+import { FrontalPlaneTracker } from './frontalPlane'
+import {
+  computeJointAngles,
+  computeTrunkLean,
+  KinematicsSession,
+  type KinematicsSnapshot,
+  type StrideKinematics,
+} from './kinematics'
+import { LandmarkVisibilitySession, type LandmarkVisibility } from './landmarkVisibility'
+
 const SMOOTH_SAMPLES = 5
 const STEP_AMPLITUDE_THRESHOLD = 0.012
 const STEP_COOLDOWN_MS = 280
 const STEP_WINDOW_MS = 10_000
 const VO_WINDOW_MS = 5_000
+const TRUNK_LEAN_WINDOW_MS = 2_000
 const CADENCE_SAMPLE_INTERVAL_MS = 500
 const CADENCE_SAMPLE_WINDOW_MS = 30_000
 
+/** Window for the foot's ground level (max image Y) and swing range. */
+const CONTACT_GROUND_WINDOW_MS = 3_000
+/** Foot is grounded when within this fraction of its swing range from ground level. */
+const CONTACT_GROUND_FRACTION = 0.15
+const CONTACT_MIN_TOLERANCE = 0.008
+/** Toe-off needs the foot to rise a bit further than initial contact (hysteresis). */
+const CONTACT_RELEASE_FACTOR = 1.5
+const CONTACT_MIN_MS = 80
+const CONTACT_MAX_MS = 800
+const STRIDE_MIN_MS = 400
+const STRIDE_MAX_MS = 1_600
+/** Plausible time from one foot's initial contact to the other's. */
+const STEP_TIME_MIN_MS = 200
+const STEP_TIME_MAX_MS = 800
+/** Legs below this ankle visibility are skipped (e.g. far leg hidden in side view). */
+const LEG_MIN_VISIBILITY = 0.5
+
 /** Cadence = steps in last 10s * 6 (10s * 6 = 60s). */
 const CADENCE_FACTOR = 6
+/** Autocorrelation cadence replaces the step count at or above this confidence. */
+export const CADENCE_MIN_CONFIDENCE = 0.5
+
+export type MetricKey =
+  | 'cadence'
+  | 'vo'
+  | 'contactTime'
+  | 'asymmetry'
+  | 'jointAngles'
+  | 'trunkLean'
+  | 'overstride'
+  | 'armSwing'
+  | 'armCrossover'
+  | 'pelvicDrop'
+  | 'kneeValgus'
+
+/**
+ * Metrics that can be measured from each camera view. Sagittal angles (joints, trunk lean,
+ * overstride) need the side view; frontal-plane ones (pelvic drop, valgus, crossover) need the front.
+ */
+const METRICS_BY_VIEW: Record<CameraView, readonly MetricKey[]> = {
+  side: [
+    'cadence',
+    'vo',
+    'contactTime',
+    'asymmetry',
+    'jointAngles',
+    'trunkLean',
+    'overstride',
+    'armSwing',
+  ],
+  front: [
+    'cadence',
+    'vo',
+    'contactTime',
+    'asymmetry',
+    'armSwing',
+    'armCrossover',
+    'pelvicDrop',
+    'kneeValgus',
+  ],
+}
+
+export function isMetricValidForView(metric: MetricKey, view: CameraView): boolean {
+  return METRICS_BY_VIEW[view].includes(metric)
+}
 
 function mean(arr: number[]): number {
   if (arr.length === 0) return 0
@@ -27,11 +118,232 @@ function stddev(arr: number[]): number {
 }
 
 export type MetricsSnapshot = {
+  /** Autocorrelation estimate when confident, else step count × 6. */
   cadence: number
+  /** Step count cadence (6 spm steps), kept as cross-check. */
+  cadencePeak: number
+  /** 0–1 confidence of the autocorrelation estimate; 0 = no periodic signal yet. */
+  cadenceConfidence: number
   voProxy: number
+  /** VO proxy in cm; null without a profile height / standing scale. */
+  voCm: number | null
   stability: number
   stepsLast10s: number
   currentAnkle: 'L' | 'R'
+  /** Avg ground contact time (ms) over strides in last 10s; 0 = no strides yet. */
+  contactTimeMs: number
+  /** Avg flight time (ms) over steps in last 10s (both legs); 0 = no measured steps. */
+  flightTimeMs: number
+  /** Contact time / stride time (0–1). */
+  dutyFactor: number
+  kinematics: KinematicsSnapshot
+  /** Trunk lean (°) vs standing baseline, avg over last 2s. Positive = more forward. */
+  trunkLeanDeg: number
+  /** Avg overstride index over steps in last 10s; null = no steps or no leg length. */
+  overstrideIndex: number | null
+  /** Per-leg averages over steps in last 10s. */
+  legs: { L: LegSnapshot; R: LegSnapshot }
+  /** Symmetry index (%) of left vs right; null until both legs have steps. */
+  stepTimeSymmetry: number | null
+  contactTimeSymmetry: number | null
+  armSwing: ArmSwingSnapshot
+  /** Avg stance peaks over steps in last 10s; null when not frontal / no steps. */
+  pelvicDropDeg: number | null
+  kneeValgusDeg: number | null
+  /** Visible share per joint over the last snapshot interval (all pose frames). */
+  landmarkVisibility: LandmarkVisibility
+}
+
+export type LegSnapshot = {
+  stepTimeMs: number | null
+  contactTimeMs: number | null
+}
+
+/** One initial contact of either foot; kept for the whole session (summary). */
+export type StepRecord = {
+  t: number
+  leg: 'L' | 'R'
+  /** Time since the other foot's initial contact; null if a contact was missed. */
+  stepTimeMs: number | null
+  /** Set at toe-off; null until then or if implausible. */
+  contactMs: number | null
+  /** Other foot's toe-off → this initial contact; 0 = both feet down, null if not measured. */
+  flightMs: number | null
+  /**
+   * Joint angles (°) of the stride starting at this contact: knee flexion and ankle dorsiflexion
+   * here, hip extension at toe-off, peak knee flexion in the swing. Set at the leg's next initial contact; null until
+   * then or if the stride was incomplete.
+   */
+  kneeFlexionAtContact: number | null
+  ankleDorsiflexionAtContact: number | null
+  hipExtensionAtToeOff: number | null
+  peakKneeFlexionSwing: number | null
+  /** Stance peaks (frontal view only), set at toe-off. */
+  pelvicDropDeg: number | null
+  kneeValgusDeg: number | null
+  /** Heel ahead of mid-hip (in running direction) / leg length. Null without leg length. */
+  overstrideIndex: number | null
+}
+
+/** Stance event of one leg in a tracking frame (MetricsSession.update). */
+export type LegContactEvent = {
+  leg: 'L' | 'R'
+  event: 'initialContact' | 'toeOff'
+  /** Toe-off only: the contact time, or null if implausible. */
+  contactMs: number | null
+}
+
+export type MetricsFrame = NonNullable<TrackingFrameData>
+
+/** Standing reference from calibration. */
+export type MetricsBaseline = {
+  hipY: number
+  trunkLeanDeg: number
+  /** Hip → knee → ankle (image-height units); null if legs were not visible. */
+  legLength: number | null
+  view: CameraView
+  /** Centimetres per image-height unit (profile height / standing pose); null = unknown. */
+  cmPerUnit: number | null
+  /** Standing body dimensions; missing on baselines from older recordings. */
+  body?: BodyDimensions
+  /** Natural standing posture; frontal-plane metrics are measured relative to it. */
+  posture?: StandingPosture
+}
+
+/**
+ * Image-height units, measured standing (see calibration.ts). null = not visible.
+ * Front view: frames where the hip or shoulder line is much narrower than this are turned away
+ * from the camera and skipped by the frontal-plane metrics and arm crossover.
+ */
+export type BodyDimensions = {
+  shoulderWidth: number | null
+  hipWidth: number | null
+}
+
+/** Standing angles (°). Tilts: shoulder / hip line vs horizontal, positive = right side lower. */
+export type StandingPosture = {
+  kneeFlexionDeg: number | null
+  pelvicTiltDeg: number | null
+  shoulderTiltDeg: number | null
+}
+
+/** One stride of one leg: closed at the next initial contact of the same foot. */
+type StrideEvent = {
+  t: number
+  contactMs: number
+  dutyFactor: number
+}
+
+type LegSide = 'L' | 'R'
+
+type ContactEvent = 'initialContact' | 'toeOff' | null
+
+/**
+ * Ground contact for one leg: initial contact / toe-off from the lowest foot point
+ * (max of ankle and foot index Y). Ground level = lowest point in the last 3s.
+ * Owns the leg's KinematicsSession so per-stride angles follow the same events.
+ */
+class LegContactTracker {
+  readonly kinematics = new KinematicsSession()
+  strides: StrideEvent[] = []
+  /** Joint angles of the stride closed by the latest initial contact; null if incomplete. */
+  lastStrideKinematics: StrideKinematics | null = null
+  private footTrace: { t: number; y: number }[] = []
+  private inContact = false
+  private contactStartTime = 0
+  private lastInitialContactTime = 0
+  private lastToeOffTime = 0
+  private lastContactMs = 0
+
+  update(landmarks: LegLandmarks, facing: 1 | -1, timestampMs: number): ContactEvent {
+    this.kinematics.update(computeJointAngles(landmarks, facing))
+
+    const footY = Math.max(landmarks.ankle.y, landmarks.footIndex.y)
+    this.footTrace.push({ t: timestampMs, y: footY })
+    const cutoff = timestampMs - CONTACT_GROUND_WINDOW_MS
+    this.footTrace = this.footTrace.filter((p) => p.t >= cutoff)
+    this.strides = this.strides.filter((s) => s.t >= timestampMs - STEP_WINDOW_MS)
+    if (this.footTrace.length < SMOOTH_SAMPLES) return null
+
+    const ys = this.footTrace.map((p) => p.y)
+    const groundY = Math.max(...ys)
+    const tolerance = Math.max(
+      CONTACT_MIN_TOLERANCE,
+      (groundY - Math.min(...ys)) * CONTACT_GROUND_FRACTION
+    )
+
+    if (!this.inContact && footY >= groundY - tolerance) {
+      this.inContact = true
+      this.contactStartTime = timestampMs
+      const strideMs = timestampMs - this.lastInitialContactTime
+      if (
+        this.lastInitialContactTime > 0 &&
+        this.lastContactMs > 0 &&
+        strideMs >= STRIDE_MIN_MS &&
+        strideMs <= STRIDE_MAX_MS
+      ) {
+        this.strides.push({
+          t: timestampMs,
+          contactMs: this.lastContactMs,
+          dutyFactor: this.lastContactMs / strideMs,
+        })
+      }
+      this.lastInitialContactTime = timestampMs
+      this.lastContactMs = 0
+      this.lastStrideKinematics = this.kinematics.onInitialContact(timestampMs)
+      return 'initialContact'
+    }
+    if (this.inContact && footY < groundY - tolerance * CONTACT_RELEASE_FACTOR) {
+      this.inContact = false
+      this.lastToeOffTime = timestampMs
+      const contactMs = timestampMs - this.contactStartTime
+      this.lastContactMs =
+        contactMs >= CONTACT_MIN_MS && contactMs <= CONTACT_MAX_MS
+          ? contactMs
+          : 0
+      this.kinematics.onToeOff()
+      return 'toeOff'
+    }
+    return null
+  }
+
+  /** Contact time (ms) of the contact that just ended; 0 if implausible. */
+  getLastContactMs(): number {
+    return this.lastContactMs
+  }
+
+  /** Timestamp of the latest toe-off; 0 before the first. */
+  getLastToeOffTime(): number {
+    return this.lastToeOffTime
+  }
+
+  isInContact(): boolean {
+    return this.inContact
+  }
+
+  reset(): void {
+    this.kinematics.reset()
+    this.strides = []
+    this.lastStrideKinematics = null
+    this.footTrace = []
+    this.inContact = false
+    this.contactStartTime = 0
+    this.lastInitialContactTime = 0
+    this.lastToeOffTime = 0
+    this.lastContactMs = 0
+  }
+}
+
+/** Symmetry index (%) = |L − R| / mean(L, R) × 100. 0 = symmetric. */
+export function symmetryIndex(left: number, right: number): number | null {
+  const avg = (left + right) / 2
+  if (left <= 0 || right <= 0 || avg === 0) return null
+  return Math.round((Math.abs(left - right) / avg) * 1000) / 10
+}
+
+function meanOrNull(arr: (number | null)[]): number | null {
+  const values = arr.filter((v): v is number => v != null)
+  return values.length > 0 ? mean(values) : null
 }
 
 export class MetricsSession {
@@ -44,20 +356,55 @@ export class MetricsSession {
   private deviations: { t: number; v: number }[] = []
   private cadenceSamples: { t: number; cadence: number }[] = []
   private lastCadenceSampleTime: number = 0
-  private currentAnkle: 'L' | 'R' = 'L'
-
-  update(
-    ankleY: number,
-    kneeY: number,
-    ankleVis: number,
-    kneeVis: number,
-    ankleUsed: 'L' | 'R',
-    midHipY: number,
-    baselineHipY: number,
-    timestampMs: number
-  ): void {
+  private currentAnkle: LegSide = 'L'
+  private legTrackers: Record<LegSide, LegContactTracker> = {
+    L: new LegContactTracker(),
+    R: new LegContactTracker(),
+  }
+  private lastInitialContact: Record<LegSide, number> = { L: 0, R: 0 }
+  /** Latest step per leg still waiting for its toe-off (contact time). */
+  private openSteps: Record<LegSide, StepRecord | null> = { L: null, R: null }
+  /** Latest step per leg; gets its stride's joint angles at the leg's next initial contact. */
+  private lastSteps: Record<LegSide, StepRecord | null> = { L: null, R: null }
+  private trunkLeans: { t: number; v: number }[] = []
+  private armSwing = new ArmSwingSession()
+  private frontalPlane = new FrontalPlaneTracker()
+  private stepLog: StepRecord[] = []
+  private cmPerUnit: number | null = null
+  private cadenceEstimator = new CadenceEstimator()
+  private cadenceEstimate: CadenceEstimate = { cadence: null, confidence: 0 }
+  private visibility = new LandmarkVisibilitySession()
+
+  /** Returns the stance events detected in this frame (key frames follow them). */
+  update(frame: MetricsFrame, baseline: MetricsBaseline, timestampMs: number): LegContactEvent[] {
+    const { ankleY, kneeY, ankleVis, kneeVis, ankleUsed, midHipY } = frame
     this.currentAnkle = ankleUsed
+    this.cmPerUnit = baseline.cmPerUnit
+
+    const lean = computeTrunkLean(frame.midShoulder, frame.midHip, frame.facing)
+    this.trunkLeans.push({ t: timestampMs, v: lean - baseline.trunkLeanDeg })
+    const cutoffLean = timestampMs - TRUNK_LEAN_WINDOW_MS
+    this.trunkLeans = this.trunkLeans.filter((d) => d.t >= cutoffLean)
 
+    const frontal = baseline.view === 'front'
+    this.armSwing.update(
+      frame.arms,
+      frame.midShoulder,
+      frame.midHip,
+      frontal,
+      timestampMs,
+      baseline.body?.shoulderWidth ?? null
+    )
+    if (frontal) {
+      this.frontalPlane.update(
+        frame.legs,
+        frame.midHip.x,
+        baseline.posture?.pelvicTiltDeg ?? 0,
+        baseline.body?.hipWidth ?? null
+      )
+    }
+
+    // Combined step stream (best leg per frame) drives cadence.
     const stepY = ankleVis >= kneeVis ? ankleY : kneeY
     this.stepSignalBuffer.push(stepY)
     if (this.stepSignalBuffer.length > SMOOTH_SAMPLES) {
@@ -83,10 +430,42 @@ export class MetricsSession {
 
     this.prevSmoothedY = smoothedY
 
+    // Per-leg step events: each visible leg on its own.
+    const events: LegContactEvent[] = []
+    for (const side of ['L', 'R'] as const) {
+      const legFrame = frame.legs[side]
+      if (legFrame == null || legFrame.ankleVis < LEG_MIN_VISIBILITY) {
+        this.legTrackers[side].kinematics.resetStride()
+        continue
+      }
+      const event = this.legTrackers[side].update(
+        legFrame.landmarks,
+        frame.facing,
+        timestampMs
+      )
+      if (event === 'initialContact') {
+        this.onInitialContact(side, legFrame.landmarks, frame, baseline, timestampMs)
+        events.push({ leg: side, event, contactMs: null })
+      } else if (event === 'toeOff') {
+        const contactMs = this.legTrackers[side].getLastContactMs()
+        events.push({ leg: side, event, contactMs: contactMs > 0 ? contactMs : null })
+        const peaks = this.frontalPlane.onToeOff(side)
+        const record = this.openSteps[side]
+        if (record) {
+          if (contactMs > 0) record.contactMs = contactMs
+          record.pelvicDropDeg = peaks.pelvicDropDeg
+          record.kneeValgusDeg = peaks.kneeValgusDeg
+        }
+        this.openSteps[side] = null
+      }
+    }
+
     const cutoffSteps = timestampMs - STEP_WINDOW_MS
     this.stepTimestamps = this.stepTimestamps.filter((t) => t >= cutoffSteps)
 
-    const deviation = midHipY - baselineHipY
+    this.cadenceEstimator.push(midHipY, timestampMs)
+
+    const deviation = midHipY - baseline.hipY
     this.deviations.push({ t: timestampMs, v: deviation })
     const cutoffVo = timestampMs - VO_WINDOW_MS
     this.deviations = this.deviations.filter((d) => d.t >= cutoffVo)
@@ -96,20 +475,100 @@ export class MetricsSession {
       const stepsIn10s = this.stepTimestamps.filter(
         (t) => t >= timestampMs - STEP_WINDOW_MS
       ).length
-      const cadence = stepsIn10s * CADENCE_FACTOR
+      const peakCadence = stepsIn10s * CADENCE_FACTOR
+      this.cadenceEstimate = this.cadenceEstimator.estimate(peakCadence)
+      const cadence = this.fuseCadence(peakCadence)
       this.cadenceSamples.push({ t: timestampMs, cadence })
       const cutoffCadence = timestampMs - CADENCE_SAMPLE_WINDOW_MS
       this.cadenceSamples = this.cadenceSamples.filter(
         (s) => s.t >= cutoffCadence
       )
     }
+    return events
+  }
+
+  /**
+   * Step time for a leg = its initial contact − the other leg's previous initial contact
+   * (only when the other foot landed in between, i.e. no missed contacts).
+   * Flight time = this initial contact − the other leg's toe-off after its own initial contact;
+   * 0 if the other foot is still down (walking), null if its toe-off was missed.
+   */
+  private onInitialContact(
+    side: LegSide,
+    landmarks: LegLandmarks,
+    frame: MetricsFrame,
+    baseline: MetricsBaseline,
+    timestampMs: number
+  ): void {
+    const other = side === 'L' ? 'R' : 'L'
+    const otherIc = this.lastInitialContact[other]
+    const stepMs = timestampMs - otherIc
+    const stepTimeMs =
+      otherIc > this.lastInitialContact[side] &&
+      stepMs >= STEP_TIME_MIN_MS &&
+      stepMs <= STEP_TIME_MAX_MS
+        ? stepMs
+        : null
+    const otherTracker = this.legTrackers[other]
+    const otherToeOff = otherTracker.getLastToeOffTime()
+    const flightMs =
+      stepTimeMs == null
+        ? null
+        : otherTracker.isInContact()
+          ? 0
+          : otherToeOff > otherIc && timestampMs - otherToeOff <= STEP_TIME_MAX_MS
+            ? timestampMs - otherToeOff
+            : null
+    const stride = this.legTrackers[side].lastStrideKinematics
+    const previous = this.lastSteps[side]
+    if (stride && previous) {
+      previous.kneeFlexionAtContact = stride.kneeFlexionAtContact
+      previous.ankleDorsiflexionAtContact = stride.ankleDorsiflexionAtContact
+      previous.hipExtensionAtToeOff = stride.hipExtensionAtToeOff
+      previous.peakKneeFlexionSwing = stride.peakKneeFlexionSwing
+    }
+    this.lastInitialContact[side] = timestampMs
+    this.frontalPlane.onInitialContact(side)
+    const record: StepRecord = {
+      t: timestampMs,
+      leg: side,
+      stepTimeMs,
+      contactMs: null,
+      flightMs,
+      kneeFlexionAtContact: null,
+      ankleDorsiflexionAtContact: null,
+      hipExtensionAtToeOff: null,
+      peakKneeFlexionSwing: null,
+      pelvicDropDeg: null,
+      kneeValgusDeg: null,
+      overstrideIndex:
+        baseline.legLength != null && baseline.legLength > 0
+          ? Math.round(
+              (((landmarks.heel.x - frame.midHip.x) * frame.facing) /
+                baseline.legLength) *
+                100
+            ) / 100
+          : null,
+    }
+    this.stepLog.push(record)
+    this.openSteps[side] = record
+    this.lastSteps[side] = record
+  }
+
+  /** Cross-checked estimate (see CadenceEstimator.estimate) if confident, else the step count. */
+  private fuseCadence(peakCadence: number): number {
+    const { cadence, confidence } = this.cadenceEstimate
+    return cadence != null && confidence >= CADENCE_MIN_CONFIDENCE
+      ? cadence
+      : peakCadence
   }
 
   getSnapshot(timestampMs: number): MetricsSnapshot {
     const stepsIn10s = this.stepTimestamps.filter(
       (t) => t >= timestampMs - STEP_WINDOW_MS
     ).length
-    const cadence = stepsIn10s * CADENCE_FACTOR
+    const peakCadence = stepsIn10s * CADENCE_FACTOR
+    const cadence = this.fuseCadence(peakCadence)
 
     const devs = this.deviations
       .filter((d) => d.t >= timestampMs - VO_WINDOW_MS)
@@ -122,16 +581,128 @@ export class MetricsSession {
       .map((s) => s.cadence)
     const stability = stddev(cadenceValues)
 
+    const strides = [
+      ...this.legTrackers.L.strides,
+      ...this.legTrackers.R.strides,
+    ].filter((s) => s.t >= timestampMs - STEP_WINDOW_MS)
+    const contactTimeMs = mean(strides.map((s) => s.contactMs))
+    const dutyFactor = mean(strides.map((s) => s.dutyFactor))
+
+    const recentSteps = this.stepLog.filter(
+      (s) => s.t >= timestampMs - STEP_WINDOW_MS
+    )
+    const flightTimeMs = meanOrNull(recentSteps.map((s) => s.flightMs)) ?? 0
+    const overstrides = recentSteps
+      .map((s) => s.overstrideIndex)
+      .filter((v): v is number => v != null)
+    const perLeg = (side: LegSide): LegSnapshot => {
+      const legSteps = recentSteps.filter((s) => s.leg === side)
+      const stepTime = meanOrNull(legSteps.map((s) => s.stepTimeMs))
+      const contact = meanOrNull(legSteps.map((s) => s.contactMs))
+      return {
+        stepTimeMs: stepTime != null ? Math.round(stepTime) : null,
+        contactTimeMs: contact != null ? Math.round(contact) : null,
+      }
+    }
+    const left = perLeg('L')
+    const right = perLeg('R')
+
+    const legKinematics = [
+      this.legTrackers.L.kinematics.getSnapshot(timestampMs),
+      this.legTrackers.R.kinematics.getSnapshot(timestampMs),
+    ]
+    const roundAngle = (v: number | null) =>
+      v != null ? Math.round(v * 10) / 10 : null
+    const kinematics: KinematicsSnapshot = {
+      current: this.legTrackers[this.currentAnkle].kinematics.getSnapshot(
+        timestampMs
+      ).current,
+      kneeFlexionAtContact: roundAngle(
+        meanOrNull(legKinematics.map((k) => k.kneeFlexionAtContact))
+      ),
+      ankleDorsiflexionAtContact: roundAngle(
+        meanOrNull(legKinematics.map((k) => k.ankleDorsiflexionAtContact))
+      ),
+      peakKneeFlexionSwing: roundAngle(
+        meanOrNull(legKinematics.map((k) => k.peakKneeFlexionSwing))
+      ),
+      hipExtensionAtToeOff: roundAngle(
+        meanOrNull(legKinematics.map((k) => k.hipExtensionAtToeOff))
+      ),
+    }
+
+    const trunkLeanDeg = mean(
+      this.trunkLeans
+        .filter((d) => d.t >= timestampMs - TRUNK_LEAN_WINDOW_MS)
+        .map((d) => d.v)
+    )
+
     return {
       cadence: Math.round(cadence * 10) / 10,
+      cadencePeak: peakCadence,
+      cadenceConfidence: this.cadenceEstimate.confidence,
       voProxy: Math.round(voProxy * 1000) / 1000,
+      voCm:
+        this.cmPerUnit != null ? Math.round(voProxy * this.cmPerUnit * 10) / 10 : null,
       stability: Math.round(stability * 10) / 10,
       stepsLast10s: stepsIn10s,
       currentAnkle: this.currentAnkle,
+      contactTimeMs: Math.round(contactTimeMs),
+      flightTimeMs: Math.round(flightTimeMs),
+      dutyFactor: Math.round(dutyFactor * 100) / 100,
+      kinematics,
+      trunkLeanDeg: Math.round(trunkLeanDeg * 10) / 10,
+      overstrideIndex:
+        overstrides.length > 0
+          ? Math.round(mean(overstrides) * 100) / 100
+          : null,
+      legs: { L: left, R: right },
+      stepTimeSymmetry:
+        left.stepTimeMs != null && right.stepTimeMs != null
+          ? symmetryIndex(left.stepTimeMs, right.stepTimeMs)
+          : null,
+      contactTimeSymmetry:
+        left.contactTimeMs != null && right.contactTimeMs != null
+          ? symmetryIndex(left.contactTimeMs, right.contactTimeMs)
+          : null,
+      armSwing: this.armSwing.getSnapshot(timestampMs),
+      pelvicDropDeg: roundAngle(
+        meanOrNull(recentSteps.map((s) => s.pelvicDropDeg))
+      ),
+      kneeValgusDeg: roundAngle(
+        meanOrNull(recentSteps.map((s) => s.kneeValgusDeg))
+      ),
+      landmarkVisibility: this.visibility.getSnapshot(timestampMs),
     }
   }
 
+  /** Every frame with a pose, also those below the tracking quality gate (occlusions). */
+  updateVisibility(landmarks: NormalizedLandmarkList, timestampMs: number): void {
+    this.visibility.update(landmarks, timestampMs)
+  }
+
+  /** All initial contacts since start/reset, for per-step session values. */
+  getStepLog(): StepRecord[] {
+    return [...this.stepLog]
+  }
+
+  /**
+   * Camera moved at timestampMs: drops the steps since then and restarts the rolling windows
+   * (hip level, foot ground level, cadence signal), so nothing measured across the move is kept.
+   */
+  discardSince(timestampMs: number): void {
+    this.stepLog = this.stepLog.filter((s) => s.t < timestampMs)
+    this.restartWindows()
+  }
+
   reset(): void {
+    this.restartWindows()
+    this.stepLog = []
+    this.cmPerUnit = null
+    this.visibility.reset()
+  }
+
+  private restartWindows(): void {
     this.stepSignalBuffer = []
     this.prevSmoothedY = 0
     this.direction = null
@@ -141,5 +712,15 @@ export class MetricsSession {
     this.deviations = []
     this.cadenceSamples = []
     this.lastCadenceSampleTime = 0
+    this.legTrackers.L.reset()
+    this.legTrackers.R.reset()
+    this.lastInitialContact = { L: 0, R: 0 }
+    this.openSteps = { L: null, R: null }
+    this.lastSteps = { L: null, R: null }
+    this.trunkLeans = []
+    this.armSwing.reset()
+    this.frontalPlane.reset()
+    this.cadenceEstimator.reset()
+    this.cadenceEstimate = { cadence: null, confidence: 0 }
   }
 }
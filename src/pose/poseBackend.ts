@@ -0,0 +1,174 @@
+/**
+ * RunForm PoC – Pose-estimation backends behind PoseRunner.
+ * A backend turns one video frame into 33 BlazePose landmarks or null: normalized coordinates of the
+ * frame as captured (never mirrored), so left/right labels are the runner's anatomical sides.
+ * Mirroring the preview of user-facing cameras is left to the UI (frameSource.ts CameraInfo).
+ * legacy = @mediapipe/pose solution, tasks = MediaPipe Tasks PoseLandmarker,
+ * fake = scripted landmarks (see fakePoseBackend.ts).
+ * tasks and fake also run inside the pose worker (poseWorker.ts); legacy needs the main thread.
+ */
+
+import {
+  Pose,
+  type InputImage,
+  type NormalizedLandmarkList,
+  type Results,
+} from '@mediapipe/pose';
+import type { PoseLandmarker } from '@mediapipe/tasks-vision';
+
+/** Model/WASM files are bundled with the app (pwa/offlinePlugin.ts) so sessions start offline. */
+const MEDIAPIPE_POSE_ASSET_PATH = `${import.meta.env.BASE_URL}mediapipe/pose`;
+const MEDIAPIPE_TASKS_WASM_PATH = `${import.meta.env.BASE_URL}mediapipe/tasks-vision/wasm`;
+const MEDIAPIPE_TASKS_MODEL_PATH = `${import.meta.env.BASE_URL}mediapipe/pose_landmarker`;
+const TASKS_POSE_MODEL_NAMES = ['lite', 'full', 'heavy'] as const;
+
+/** 0 = lite, 1 = full, 2 = heavy (legacy modelComplexity; Tasks model variant). */
+export type ModelComplexity = 0 | 1 | 2;
+
+function getTasksModelUrl(complexity: ModelComplexity): string {
+  return `${MEDIAPIPE_TASKS_MODEL_PATH}/pose_landmarker_${TASKS_POSE_MODEL_NAMES[complexity]}.task`;
+}
+
+export type PoseBackendKind = 'legacy' | 'tasks' | 'fake';
+
+/** Backends that run on camera frames; the fake backend is constructed directly with its script. */
+export type CameraPoseBackendKind = Exclude<PoseBackendKind, 'fake'>;
+
+export const CAMERA_POSE_BACKENDS: readonly CameraPoseBackendKind[] = ['legacy', 'tasks'];
+
+/** Tasks runs in the pose worker where the browser supports it (see activePoseRunner.ts). */
+export const DEFAULT_POSE_BACKEND: CameraPoseBackendKind = 'tasks';
+
+/** The legacy solution loads its WASM through DOM script tags, so it cannot run in a module worker. */
+export function canRunInWorker(kind: PoseBackendKind): boolean {
+  return kind !== 'legacy';
+}
+
+/**
+ * A camera frame: the video element on the main thread, an ImageBitmap in the pose worker,
+ * or a canvas holding a downscaled frame (see FrameRateGovernor).
+ */
+export type PoseImage = HTMLVideoElement | HTMLCanvasElement | OffscreenCanvas | ImageBitmap;
+
+export type PoseBackend = {
+  readonly kind: PoseBackendKind;
+  initialize(): Promise<void>;
+  /** Landmarks for one frame; null = no pose. image is null when driven without a camera. */
+  detect(image: PoseImage | null, timestampMs: number): Promise<NormalizedLandmarkList | null>;
+  /** Switch landmark model; takes effect from the next detect (may reload the model). */
+  setModelComplexity(complexity: ModelComplexity): Promise<void>;
+  close(): Promise<void>;
+};
+
+function getLocateFile(): (path: string, prefix?: string) => string {
+  return (path: string) => {
+    return `${MEDIAPIPE_POSE_ASSET_PATH}/${path}`;
+  };
+}
+
+/** The legacy solution only takes DOM images (no ImageBitmap / OffscreenCanvas). */
+function isLegacyInput(image: PoseImage): image is PoseImage & InputImage {
+  return typeof HTMLElement !== 'undefined' && image instanceof HTMLElement;
+}
+
+/** @mediapipe/pose: callback-based, so detect() waits for onResults during send(). */
+class LegacyPoseBackend implements PoseBackend {
+  readonly kind = 'legacy';
+  private pose: Pose | null = null;
+  private latest: NormalizedLandmarkList | null = null;
+  private modelComplexity: ModelComplexity = 1;
+
+  async initialize(): Promise<void> {
+    this.pose = new Pose({
+      locateFile: getLocateFile(),
+    });
+    this.pose.setOptions({
+      // selfieMode would flip the frame, and with it which side the model calls left.
+      selfieMode: false,
+      modelComplexity: this.modelComplexity,
+      smoothLandmarks: true,
+      minDetectionConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+    this.pose.onResults((results: Results) => {
+      this.latest = results.poseLandmarks?.length ? results.poseLandmarks : null;
+    });
+    await this.pose.initialize();
+  }
+
+  async detect(image: PoseImage | null): Promise<NormalizedLandmarkList | null> {
+    if (!this.pose || !image || !isLegacyInput(image)) return null;
+    this.latest = null;
+    await this.pose.send({ image });
+    return this.latest;
+  }
+
+  async setModelComplexity(complexity: ModelComplexity): Promise<void> {
+    this.modelComplexity = complexity;
+    this.pose?.setOptions({ modelComplexity: complexity });
+  }
+
+  async close(): Promise<void> {
+    if (!this.pose) return;
+    try {
+      await this.pose.close();
+    } catch {
+      // ignore
+    }
+    this.pose = null;
+  }
+}
+
+/** MediaPipe Tasks PoseLandmarker in VIDEO mode (loaded on demand to keep the default bundle small). */
+class TasksPoseBackend implements PoseBackend {
+  readonly kind = 'tasks';
+  private landmarker: PoseLandmarker | null = null;
+  private lastTimestampMs = -1;
+  private modelComplexity: ModelComplexity = 1;
+
+  async initialize(): Promise<void> {
+    const { FilesetResolver, PoseLandmarker } = await import('@mediapipe/tasks-vision');
+    // Module workers cannot importScripts the classic WASM loader; use the ES module build there.
+    const inWorker = typeof document === 'undefined';
+    const fileset = await FilesetResolver.forVisionTasks(MEDIAPIPE_TASKS_WASM_PATH, inWorker);
+    this.landmarker = await PoseLandmarker.createFromOptions(fileset, {
+      baseOptions: {
+        modelAssetPath: getTasksModelUrl(this.modelComplexity),
+        delegate: 'GPU',
+      },
+      runningMode: 'VIDEO',
+      numPoses: 1,
+      minPoseDetectionConfidence: 0.5,
+      minPosePresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+  }
+
+  async detect(image: PoseImage | null, timestampMs: number): Promise<NormalizedLandmarkList | null> {
+    // detectForVideo requires strictly increasing timestamps.
+    if (!this.landmarker || !image || timestampMs <= this.lastTimestampMs) return null;
+    this.lastTimestampMs = timestampMs;
+    const result = this.landmarker.detectForVideo(image, timestampMs);
+    const landmarks = result.landmarks[0];
+    return landmarks?.length ? landmarks : null;
+  }
+
+  /** On failure the previous model stays loaded and in use. */
+  async setModelComplexity(complexity: ModelComplexity): Promise<void> {
+    if (complexity === this.modelComplexity) return;
+    await this.landmarker?.setOptions({
+      baseOptions: { modelAssetPath: getTasksModelUrl(complexity), delegate: 'GPU' },
+    });
+    this.modelComplexity = complexity;
+  }
+
+  async close(): Promise<void> {
+    this.landmarker?.close();
+    this.landmarker = null;
+    this.lastTimestampMs = -1;
+  }
+}
+
+export function createPoseBackend(kind: CameraPoseBackendKind): PoseBackend {
+  return kind === 'tasks' ? new TasksPoseBackend() : new LegacyPoseBackend();
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CameraShiftEvent } from './cameraShift';
+import { FakePoseBackend } from './fakePoseBackend';
+import type { PoseRunSettings } from './frameRateGovernor';
+import type { MetricsSnapshot } from './metrics';
+import type { ModelComplexity, PoseBackend } from './poseBackend';
+import { PoseRunner } from './poseRunner';
+import { SYNTHETIC_BASELINE, syntheticRun, type SyntheticGait } from './syntheticRunner';
+
+const FRAME_SIZE = { width: 480, height: 480 };
+/** Just above the tracking frame throttle, so every frame is a tracking frame. */
+const FRAME_MS = 35;
+const GAIT: SyntheticGait = { stepMs: { L: 330, R: 330 }, contactMs: { L: 250, R: 250 } };
+
+describe('PoseRunner with FakePoseBackend', () => {
+  it('runs scripted landmarks through tracking and metrics', async () => {
+    const frames = syntheticRun(GAIT, 12_000, FRAME_MS);
+    let snapshot: MetricsSnapshot | null = null;
+    let trackingFrames = 0;
+    const runner = new PoseRunner(
+      {
+        onStatus: () => {},
+        onTrackingFrame: () => {
+          trackingFrames += 1;
+        },
+        onMetricsSnapshot: (snap) => {
+          snapshot = snap;
+        },
+        onError: (message) => {
+          throw new Error(message);
+        },
+      },
+      new FakePoseBackend(frames.map((frame) => frame.landmarks)),
+      'none'
+    );
+    await runner.initialize();
+    runner.startTracking(SYNTHETIC_BASELINE);
+    for (const frame of frames) {
+      await runner.processFrame(null, frame.timestampMs, FRAME_SIZE);
+    }
+
+    // The throttle counts from 0 ms, so only the first frame is skipped.
+    expect(trackingFrames).toBe(frames.length - 1);
+    const steps = await runner.getStepLog();
+    const settled = steps.filter((s) => s.t >= 2000);
+    expect(settled.length).toBeGreaterThanOrEqual(28);
+    expect(settled.every((s, i) => i === 0 || s.leg !== settled[i - 1]!.leg)).toBe(true);
+
+    const snap = snapshot as MetricsSnapshot | null;
+    expect(snap).not.toBeNull();
+    // 330 ms per step = 181.8 spm.
+    expect(Math.abs(snap!.cadence - 181.8)).toBeLessThan(4);
+    expect(Math.abs(snap!.contactTimeMs - 250)).toBeLessThan(FRAME_MS * 1.5);
+    expect(Math.abs(snap!.flightTimeMs - 80)).toBeLessThan(FRAME_MS * 1.5);
+    await runner.stop();
+  });
+
+  it('reports frames without a pose and measures nothing', async () => {
+    const statuses: boolean[] = [];
+    const runner = new PoseRunner(
+      {
+        onStatus: (_fps, poseDetected) => statuses.push(poseDetected),
+        onError: () => {},
+      },
+      new FakePoseBackend([null], { loop: true }),
+      'none'
+    );
+    await runner.initialize();
+    runner.startTracking(SYNTHETIC_BASELINE);
+    for (let t = 0; t < 3000; t += FRAME_MS) {
+      expect(await runner.processFrame(null, t, FRAME_SIZE)).toBeNull();
+    }
+
+    expect(statuses.length).toBeGreaterThan(0);
+    expect(statuses.slice(1).every((detected) => !detected)).toBe(true);
+    expect(await runner.getStepLog()).toEqual([]);
+  });
+});
+
+describe('PoseRunner camera shifts', () => {
+  it('pauses metrics while the camera moves and resumes on the new baseline', async () => {
+    const frames = syntheticRun(GAIT, 20_000, FRAME_MS, { atMs: 8000, dx: 0.2, dy: 0 });
+    const shifts: CameraShiftEvent[] = [];
+    const runner = new PoseRunner(
+      {
+        onStatus: () => {},
+        onCameraShift: (event) => shifts.push(event),
+        onError: () => {},
+      },
+      new FakePoseBackend(frames.map((frame) => frame.landmarks)),
+      'none'
+    );
+    await runner.initialize();
+    runner.startTracking(SYNTHETIC_BASELINE);
+    for (const frame of frames) {
+      await runner.processFrame(null, frame.timestampMs, FRAME_SIZE);
+    }
+
+    expect(shifts).toHaveLength(2);
+    const { startMs, endMs } = shifts[1]!;
+    const steps = await runner.getStepLog();
+    // Steps measured across the move are dropped; counting resumes after it.
+    expect(steps.some((s) => s.t >= startMs && s.t < endMs!)).toBe(false);
+    expect(steps.filter((s) => s.t >= endMs!).length).toBeGreaterThanOrEqual(10);
+    expect(steps.filter((s) => s.t < startMs).length).toBeGreaterThanOrEqual(10);
+  });
+});
+
+describe('PoseRunner model switches', () => {
+  it('keeps the current model when the governor picks one that fails to load', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fake = new FakePoseBackend([null], { loop: true });
+    const requested: ModelComplexity[] = [];
+    // Heavy is not available (e.g. offline without it in the cache).
+    const backend: PoseBackend = {
+      kind: 'fake',
+      initialize: () => fake.initialize(),
+      detect: () => fake.detect(),
+      setModelComplexity: async (complexity) => {
+        requested.push(complexity);
+        if (complexity === 2) throw new Error('Model not available');
+      },
+      close: () => fake.close(),
+    };
+    const settingsChanges: PoseRunSettings[] = [];
+    const runner = new PoseRunner(
+      {
+        onStatus: () => {},
+        onSettingsChange: (settings) => settingsChanges.push(settings),
+        onError: () => {},
+      },
+      backend,
+      'none'
+    );
+    await runner.initialize();
+    // ~29 fps with near-zero inference time: the governor wants to step up all along.
+    for (let t = 0; t < 60_000; t += FRAME_MS) {
+      await runner.processFrame(null, t, FRAME_SIZE);
+    }
+
+    expect(requested.filter((complexity) => complexity === 2)).toHaveLength(1);
+    expect(runner.settings).toEqual({ modelComplexity: 1, inputScale: 1 });
+    expect(settingsChanges.every((settings) => settings.modelComplexity === 1)).toBe(true);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -1,34 +1,71 @@
 /**
- * RunForm PoC – MediaPipe Pose + Camera setup and skeleton overlay.
- * Uses front (selfie) camera, runs Pose on each frame, draws to canvas.
+ * RunForm PoC – Pose runner: camera → pose backend → landmark filter → frame data → metrics, plus skeleton overlay.
+ * Frames come from a camera (front by default) or a video file (frameSource.ts);
+ * the backend (legacy Pose, Tasks PoseLandmarker or fake) is pluggable.
+ * Landmarks pass through a swappable smoothing filter (landmarkFilter.ts) before any metrics.
+ * Frame quality also weighs light and blur measured on the camera pixels (imageQuality.ts).
+ * A FrameRateGovernor adapts model complexity and input resolution to the measured frame rate.
+ * Camera and video sessions record the raw landmark stream (landmarkRecording.ts) for later replay.
+ * While tracking, key frames at stride events are captured for the summary (strideKeyFrames.ts).
+ * A camera moved mid-session pauses the metrics until a new baseline is found (cameraShift.ts).
+ * PoseRunner runs on the main thread or inside the pose worker (poseWorker.ts);
+ * activePoseRunner.ts picks one for the app.
  */
 
-import { Camera } from '@mediapipe/camera_utils';
-import {
-  drawConnectors,
-  drawLandmarks,
-  type NormalizedLandmarkList,
-} from '@mediapipe/drawing_utils';
-import {
-  Pose,
-  POSE_CONNECTIONS,
-  type Results,
-} from '@mediapipe/pose';
+import { drawConnectors, drawLandmarks } from '@mediapipe/drawing_utils';
+import { POSE_CONNECTIONS, type NormalizedLandmarkList } from '@mediapipe/pose';
 import {
   computeFrameQuality,
   getCalibrationFrameData,
   getFrameQualityHint,
   getTrackingFrameData,
   type FrameQualityHint,
+  type ArmLandmarks,
+  type LegFrame,
+  type Point2D,
+  type CalibrationFrameData,
 } from './frameQuality';
+import { ImageQualityMeter } from './imageQuality';
+import { CameraShiftDetector, type CameraShiftEvent } from './cameraShift';
+import {
+  createLandmarkFilter,
+  DEFAULT_LANDMARK_FILTER,
+  JitterMeter,
+  type LandmarkFilter,
+  type LandmarkFilterKind,
+  type LandmarkJitterStats,
+} from './landmarkFilter';
+import { LandmarkRecorder, type LandmarkRecording } from './landmarkRecording';
+import {
+  CAMERA_SOURCE,
+  createFrameSource,
+  type CameraInfo,
+  type FrameSource,
+  type PoseSource,
+} from './frameSource';
+import {
+  FrameRateGovernor,
+  TARGET_FPS,
+  type PoseRunSettings,
+} from './frameRateGovernor';
+import {
+  createPoseBackend,
+  DEFAULT_POSE_BACKEND,
+  type PoseBackend,
+  type PoseBackendKind,
+  type PoseImage,
+} from './poseBackend';
+import {
+  MetricsSession,
+  type LegContactEvent,
+  type MetricsBaseline,
+  type MetricsSnapshot,
+  type StepRecord,
+} from './metrics';
+import { StrideKeyFrameCollector, type StrideSnapshot } from './strideKeyFrames';
 
-const MEDIAPIPE_POSE_VERSION = '0.5.1675469404';
-
-export type CalibrationFramePayload = {
-  midHipY: number | null;
-  midShoulderY: number | null;
-  isGood: boolean;
-};
+/** Plain data, also posted from the worker; see getCalibrationFrameData. */
+export type CalibrationFramePayload = CalibrationFrameData;
 
 export type TrackingFramePayload = {
   ankleY: number;
@@ -37,9 +74,27 @@ export type TrackingFramePayload = {
   kneeVis: number;
   ankleUsed: 'L' | 'R';
   midHipY: number;
+  legs: { L: LegFrame | null; R: LegFrame | null };
+  arms: { L: ArmLandmarks | null; R: ArmLandmarks | null };
+  midShoulder: Point2D;
+  midHip: Point2D;
+  facing: 1 | -1;
 };
 
-const TRACKING_FRAME_THROTTLE_MS = 34;
+/** At most one tracking frame per camera frame at the governor's target rate (34 ms at 30 fps). */
+const TRACKING_FRAME_THROTTLE_MS = Math.ceil(1000 / TARGET_FPS);
+const TRACKING_MIN_FRAME_QUALITY = 55;
+const STATUS_INTERVAL_MS = 1000;
+/** Metrics snapshots (and session samples) while tracking. */
+export const METRICS_SNAPSHOT_INTERVAL_MS = 500;
+
+/** Where pose inference and metrics run. */
+export type PoseThread = 'main' | 'worker';
+
+export type FrameSize = { width: number; height: number };
+
+/** Skeleton overlay target; the worker draws into an OffscreenCanvas. */
+export type OverlayCanvas = HTMLCanvasElement | OffscreenCanvas;
 
 export type PoseRunnerCallbacks = {
   onStatus: (
@@ -49,189 +104,451 @@ export type PoseRunnerCallbacks = {
     hint: FrameQualityHint | null
   ) => void;
   onCalibrationFrame?: (data: CalibrationFramePayload, timestampMs: number) => void;
+  /** Every tracking frame; main thread only (the worker keeps tracking frames to itself). */
   onTrackingFrame?: (data: TrackingFramePayload, timestampMs: number) => void;
+  /** Metrics every METRICS_SNAPSHOT_INTERVAL_MS after startTracking (frame timestamps). */
+  onMetricsSnapshot?: (snapshot: MetricsSnapshot, timestampMs: number) => void;
+  /** Tracking only: the camera moved (endMs null, metrics paused) or a new baseline is set. */
+  onCameraShift?: (event: CameraShiftEvent) => void;
+  /** Landmark filter jitter, raw vs filtered; sent with each status update. */
+  onDiagnostics?: (stats: LandmarkJitterStats) => void;
+  /** Model complexity / input scale in use; called on initialize and on every governor change. */
+  onSettingsChange?: (settings: PoseRunSettings) => void;
+  /** Video file sources only (main thread): analysis progress in video time. */
+  onSourceProgress?: (currentMs: number, durationMs: number) => void;
+  /** Video file sources only: the whole file has been analyzed. */
+  onSourceEnded?: () => void;
+  /** Camera sources only (main thread): the camera that opened and whether to mirror its preview. */
+  onCamera?: (camera: CameraInfo) => void;
   onError: (message: string) => void;
 };
 
-let pose: Pose | null = null;
-let camera: Camera | null = null;
-let animationId: number | null = null;
-let lastStatusTime = 0;
-let frameCount = 0;
-let lastFps = 0;
-let lastPoseDetected = false;
-let lastFrameQuality: number | null = null;
-let lastHint: FrameQualityHint | null = null;
-let lastTrackingFrameTime = 0;
-let isPaused = false;
-
-function getLocateFile(): (path: string, prefix?: string) => string {
-  return (path: string) => {
-    return `https://cdn.jsdelivr.net/npm/@mediapipe/pose@${MEDIAPIPE_POSE_VERSION}/${path}`;
-  };
-}
+/** What App drives: a PoseRunner on the main thread or a PoseWorkerClient. */
+export type PoseRunnerHandle = {
+  readonly thread: PoseThread;
+  start(video: HTMLVideoElement, canvas: HTMLCanvasElement, source?: PoseSource): Promise<void>;
+  setLandmarkFilter(kind: LandmarkFilterKind): void;
+  /** Calibration done: feed tracking frames into a new MetricsSession. */
+  startTracking(baseline: MetricsBaseline): void;
+  getStepLog(): Promise<StepRecord[]>;
+  /** Raw landmark stream of the current session; read before stop. */
+  getRecording(): Promise<LandmarkRecording | null>;
+  /** Key frames of the best strides (start, middle, end of tracking); read before stop. */
+  getKeyFrames(): Promise<StrideSnapshot[]>;
+  pause(): void;
+  resume(): void;
+  stop(): Promise<void>;
+};
 
-function drawResults(ctx: CanvasRenderingContext2D, results: Results): void {
-  const landmarks: NormalizedLandmarkList | undefined = results.poseLandmarks;
+export function drawLandmarkOverlay(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  landmarks: NormalizedLandmarkList | null
+): void {
   if (!landmarks?.length) return;
 
-  ctx.save();
-  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-  drawConnectors(ctx, landmarks, POSE_CONNECTIONS, {
+  // drawing_utils is typed for the DOM context; it only uses the API both contexts share.
+  const target = ctx as CanvasRenderingContext2D;
+  target.save();
+  target.clearRect(0, 0, target.canvas.width, target.canvas.height);
+  drawConnectors(target, landmarks, POSE_CONNECTIONS, {
     color: '#00ff00',
     lineWidth: 2,
   });
-  drawLandmarks(ctx, landmarks, {
+  drawLandmarks(target, landmarks, {
     color: '#ff0000',
     fillColor: '#ff0000',
     lineWidth: 1,
     radius: 3,
   });
-  ctx.restore();
+  target.restore();
 }
 
-export async function startPoseRunner(
-  video: HTMLVideoElement,
-  canvas: HTMLCanvasElement,
-  callbacks: PoseRunnerCallbacks
-): Promise<void> {
-  if (pose || camera) {
-    await stopPoseRunner();
-  }
-
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    callbacks.onError('Kunne ikke hente canvas 2D context.');
-    return;
-  }
-
-  try {
-    pose = new Pose({
-      locateFile: getLocateFile(),
-    });
-    pose.setOptions({
-      selfieMode: true,
-      modelComplexity: 1,
-      smoothLandmarks: true,
-      minDetectionConfidence: 0.5,
-      minTrackingConfidence: 0.5,
-    });
-
-    pose.onResults((results: Results) => {
-      const detected = Boolean(
-        results.poseLandmarks && results.poseLandmarks.length > 0
-      );
-      lastPoseDetected = detected;
-      if (detected) {
-        lastFrameQuality = computeFrameQuality(results);
-        lastHint = getFrameQualityHint(results);
-        if (
-          callbacks.onCalibrationFrame &&
-          lastFrameQuality != null
-        ) {
-          const cal = getCalibrationFrameData(results, lastFrameQuality);
-          callbacks.onCalibrationFrame(
-            {
-              midHipY: cal.midHipY,
-              midShoulderY: cal.midShoulderY,
-              isGood: cal.isGood,
-            },
-            performance.now()
-          );
-        }
-        if (
-          callbacks.onTrackingFrame &&
-          lastFrameQuality != null &&
-          lastFrameQuality >= 55
-        ) {
-          const now = performance.now();
-          if (now - lastTrackingFrameTime >= TRACKING_FRAME_THROTTLE_MS) {
-            lastTrackingFrameTime = now;
-            const track = getTrackingFrameData(results, lastFrameQuality);
-            if (track) {
-              callbacks.onTrackingFrame(track, now);
-            }
+/** The union's getContext overloads do not narrow, so resolve per canvas type. */
+function get2dContext(
+  canvas: OverlayCanvas
+): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+  return typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+    ? canvas.getContext('2d')
+    : (canvas as HTMLCanvasElement).getContext('2d');
+}
+
+function getImageSize(image: PoseImage): FrameSize {
+  return 'videoWidth' in image
+    ? { width: image.videoWidth, height: image.videoHeight }
+    : { width: image.width, height: image.height };
+}
+
+export class PoseRunner implements PoseRunnerHandle {
+  readonly thread: PoseThread;
+  private readonly backend: PoseBackend;
+  private readonly callbacks: PoseRunnerCallbacks;
+  private frameSource: FrameSource | null = null;
+  private canvas: OverlayCanvas | null = null;
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+  private landmarkFilter: LandmarkFilter;
+  private readonly jitterMeter = new JitterMeter();
+  private readonly imageQualityMeter = new ImageQualityMeter();
+  private initialized = false;
+  private isPaused = false;
+  private lastStatusTime = 0;
+  private frameCount = 0;
+  private lastPoseDetected = false;
+  private lastFrameQuality: number | null = null;
+  private lastHint: FrameQualityHint | null = null;
+  private lastTrackingFrameTime = 0;
+  private metricsSession: MetricsSession | null = null;
+  private metricsBaseline: MetricsBaseline | null = null;
+  private cameraShift: CameraShiftDetector | null = null;
+  private lastSnapshotTime = 0;
+  private readonly governor = new FrameRateGovernor();
+  private runSettings: PoseRunSettings = this.governor.settings;
+  private pendingSettings: PoseRunSettings | null = null;
+  private latencySumMs = 0;
+  private latencyFrames = 0;
+  /** Downscaled copy of the frame when inputScale < 1. */
+  private scaledFrame: HTMLCanvasElement | OffscreenCanvas | null = null;
+  private recorder: LandmarkRecorder | null = null;
+  private keyFrames: StrideKeyFrameCollector | null = null;
+
+  constructor(
+    callbacks: PoseRunnerCallbacks,
+    backend: PoseBackend = createPoseBackend(DEFAULT_POSE_BACKEND),
+    landmarkFilterKind: LandmarkFilterKind = DEFAULT_LANDMARK_FILTER,
+    thread: PoseThread = 'main'
+  ) {
+    this.callbacks = callbacks;
+    this.backend = backend;
+    this.landmarkFilter = createLandmarkFilter(landmarkFilterKind);
+    this.thread = thread;
+  }
+
+  get backendKind(): PoseBackendKind {
+    return this.backend.kind;
+  }
+
+  /** Initializes the backend without a camera (frames then come from processFrame). */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.governor.reset();
+    this.runSettings = this.governor.settings;
+    this.pendingSettings = null;
+    await this.backend.setModelComplexity(this.runSettings.modelComplexity);
+    await this.backend.initialize();
+    this.initialized = true;
+    this.landmarkFilter.reset();
+    this.jitterMeter.reset();
+    this.imageQualityMeter.reset();
+    this.callbacks.onSettingsChange?.(this.runSettings);
+  }
+
+  get settings(): PoseRunSettings {
+    return this.runSettings;
+  }
+
+  /** Overlay target for processFrame; resized to each frame. Returns false without a 2D context. */
+  attachCanvas(canvas: OverlayCanvas): boolean {
+    const ctx = get2dContext(canvas);
+    if (!ctx) return false;
+    this.canvas = canvas;
+    this.ctx = ctx;
+    return true;
+  }
+
+  /** Starts the camera (or video file) and runs every frame through the backend, drawing to canvas. */
+  async start(
+    video: HTMLVideoElement,
+    canvas: HTMLCanvasElement,
+    source: PoseSource = CAMERA_SOURCE
+  ): Promise<void> {
+    if (this.frameSource) {
+      await this.stop();
+    }
+
+    if (!this.attachCanvas(canvas)) {
+      this.callbacks.onError('Kunne ikke hente canvas 2D context.');
+      return;
+    }
+
+    try {
+      await this.initialize();
+      this.startRecording();
+
+      this.frameSource = createFrameSource(video, source, {
+        onFrame: async (timestampMs) => {
+          if (this.isPaused) return;
+          if (video.readyState >= 2) {
+            await this.processFrame(video, timestampMs);
           }
-        }
-      } else {
-        lastFrameQuality = null;
-        lastHint = null;
+        },
+        onProgress: this.callbacks.onSourceProgress,
+        onEnded: this.callbacks.onSourceEnded,
+        onCamera: this.callbacks.onCamera,
+        onError: this.callbacks.onError,
+      });
+
+      // Video files are timed from 0 (video time), the camera by the performance clock.
+      this.lastStatusTime = source.kind === 'file' ? 0 : performance.now();
+      this.frameCount = 0;
+      await this.frameSource.start();
+
+      resizeCanvasToVideo(canvas, video);
+      this.callbacks.onStatus(0, false, null, null);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : 'Ukendt fejl ved start af kamera/pose.';
+      this.callbacks.onError(message);
+      await this.stop();
+    }
+  }
+
+  /**
+   * One frame: backend → landmark filter → frame quality, calibration and tracking callbacks,
+   * metrics and overlay. Returns the filtered landmarks (null = no pose).
+   * The camera loop calls this; tests and replay drive it directly (image null with the fake
+   * backend; frameSize then gives the aspect ratio). Replay passes the recorded frameQuality,
+   * since it includes the image quality of a camera image that is no longer there.
+   */
+  async processFrame(
+    image: PoseImage | null,
+    timestampMs: number,
+    frameSize: FrameSize | null = null,
+    frameQuality: number | null = null
+  ): Promise<NormalizedLandmarkList | null> {
+    if (this.isPaused || !this.initialized) return null;
+    this.updateStatus(timestampMs);
+    if (this.pendingSettings) await this.applySettings(this.pendingSettings);
+
+    const size = image ? getImageSize(image) : frameSize;
+    if (this.canvas && size && size.width && size.height) {
+      resizeCanvas(this.canvas, size.width, size.height);
+    }
+    const detectStart = performance.now();
+    const raw = await this.backend.detect(this.scaleInput(image), timestampMs);
+    this.latencySumMs += performance.now() - detectStart;
+    this.latencyFrames += 1;
+    const landmarks = this.filterLandmarks(raw, timestampMs);
+    const results = { poseLandmarks: landmarks ?? [] };
+    const detected = landmarks != null;
+    this.lastPoseDetected = detected;
+    const frame = size && size.height > 0 ? size : this.canvas;
+    const aspectRatio = frame && frame.height > 0 ? frame.width / frame.height : 1;
+    const imageQuality = this.imageQualityMeter.measure(
+      image && size ? { image, width: size.width, height: size.height } : null,
+      landmarks,
+      timestampMs
+    );
+    let strideFrame: { track: TrackingFramePayload; events: LegContactEvent[] } | null = null;
+
+    if (detected) {
+      this.lastFrameQuality = frameQuality ?? computeFrameQuality(results, imageQuality);
+      this.lastHint = getFrameQualityHint(results, imageQuality);
+      if (this.callbacks.onCalibrationFrame) {
+        this.callbacks.onCalibrationFrame(
+          getCalibrationFrameData(results, this.lastFrameQuality, aspectRatio),
+          timestampMs
+        );
       }
-      drawResults(ctx, results);
-    });
-
-    await pose.initialize();
-
-    camera = new Camera(video, {
-      facingMode: 'user',
-      onFrame: async () => {
-        if (isPaused) return;
-        if (video.videoWidth && video.videoHeight) {
-          if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
+      this.metricsSession?.updateVisibility(landmarks, timestampMs);
+      if (
+        (this.callbacks.onTrackingFrame || this.metricsSession) &&
+        this.lastFrameQuality >= TRACKING_MIN_FRAME_QUALITY &&
+        timestampMs - this.lastTrackingFrameTime >= TRACKING_FRAME_THROTTLE_MS
+      ) {
+        this.lastTrackingFrameTime = timestampMs;
+        const track = getTrackingFrameData(results, this.lastFrameQuality, aspectRatio);
+        if (track) {
+          this.callbacks.onTrackingFrame?.(track, timestampMs);
+          const shift = this.cameraShift?.update(track, timestampMs) ?? null;
+          if (shift) this.handleCameraShift(shift);
+          if (this.metricsSession && this.metricsBaseline && !this.cameraShift?.moved) {
+            const events = this.metricsSession.update(track, this.metricsBaseline, timestampMs);
+            strideFrame = { track, events };
           }
         }
-        frameCount += 1;
-        const now = performance.now();
-        if (now - lastStatusTime >= 1000) {
-          lastFps = Math.round((frameCount * 1000) / (now - lastStatusTime));
-          frameCount = 0;
-          lastStatusTime = now;
-          callbacks.onStatus(lastFps, lastPoseDetected, lastFrameQuality, lastHint);
-        }
-        if (pose && video.readyState >= 2) {
-          await pose.send({ image: video });
-        }
-      },
-    });
+      }
+    } else {
+      this.lastFrameQuality = null;
+      this.lastHint = imageQuality ? getFrameQualityHint(results, imageQuality) : null;
+    }
+    this.recorder?.push(timestampMs, raw, this.lastFrameQuality, size);
+    this.updateMetrics(timestampMs);
+    if (this.ctx) drawLandmarkOverlay(this.ctx, landmarks);
+    if (strideFrame && this.lastFrameQuality != null) {
+      this.keyFrames?.update(
+        strideFrame.events,
+        strideFrame.track,
+        this.lastFrameQuality,
+        timestampMs,
+        image && size ? { image, overlay: this.canvas, size } : null
+      );
+    }
+    return landmarks;
+  }
+
+  startTracking(baseline: MetricsBaseline): void {
+    this.metricsSession = new MetricsSession();
+    this.metricsBaseline = baseline;
+    this.cameraShift = new CameraShiftDetector();
+    this.lastSnapshotTime = 0;
+    this.keyFrames = new StrideKeyFrameCollector();
+    this.recorder?.markTracking(baseline);
+  }
+
+  async getStepLog(): Promise<StepRecord[]> {
+    return this.metricsSession?.getStepLog() ?? [];
+  }
+
+  /** Starts a new landmark recording; start() does this for camera sessions. */
+  startRecording(): void {
+    this.recorder = new LandmarkRecorder(this.backend.kind, this.landmarkFilter.kind);
+  }
+
+  async getRecording(): Promise<LandmarkRecording | null> {
+    return this.recorder?.finish() ?? null;
+  }
+
+  async getKeyFrames(): Promise<StrideSnapshot[]> {
+    return this.keyFrames?.finish() ?? [];
+  }
+
+  /** Swap the landmark filter (also mid-session); jitter stats restart for the new filter. */
+  setLandmarkFilter(kind: LandmarkFilterKind): void {
+    if (kind === this.landmarkFilter.kind) return;
+    this.landmarkFilter = createLandmarkFilter(kind);
+    this.jitterMeter.reset();
+  }
+
+  getLandmarkFilter(): LandmarkFilterKind {
+    return this.landmarkFilter.kind;
+  }
 
-    lastStatusTime = performance.now();
-    frameCount = 0;
-    await camera.start();
+  pause(): void {
+    this.isPaused = true;
+    this.frameSource?.pause();
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    this.frameSource?.resume();
+  }
 
-    if (video.videoWidth && video.videoHeight) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
+  async stop(): Promise<void> {
+    this.isPaused = false;
+    if (this.frameSource) {
+      try {
+        await this.frameSource.stop();
+      } catch {
+        // ignore
+      }
+      this.frameSource = null;
+    }
+    if (this.initialized) {
+      await this.backend.close();
+      this.initialized = false;
     }
-    callbacks.onStatus(0, false, null, null);
-  } catch (err) {
-    const message =
-      err instanceof Error ? err.message : 'Ukendt fejl ved start af kamera/pose.';
-    callbacks.onError(message);
-    await stopPoseRunner();
+    this.canvas = null;
+    this.ctx = null;
+    this.metricsSession = null;
+    this.metricsBaseline = null;
+    this.cameraShift = null;
+    this.recorder = null;
+    this.keyFrames = null;
   }
-}
 
-export function pausePoseRunner(): void {
-  isPaused = true;
-}
+  /** Frame rate and status are reported once a second, based on frame timestamps. */
+  private updateStatus(timestampMs: number): void {
+    this.frameCount += 1;
+    if (timestampMs - this.lastStatusTime < STATUS_INTERVAL_MS) return;
+    const fps = Math.round((this.frameCount * 1000) / (timestampMs - this.lastStatusTime));
+    this.frameCount = 0;
+    this.lastStatusTime = timestampMs;
+    this.callbacks.onStatus(fps, this.lastPoseDetected, this.lastFrameQuality, this.lastHint);
+    this.callbacks.onDiagnostics?.(this.jitterMeter.getStats(this.landmarkFilter.kind));
 
-export function resumePoseRunner(): void {
-  isPaused = false;
-}
+    const latencyMs = this.latencyFrames > 0 ? this.latencySumMs / this.latencyFrames : 0;
+    this.latencySumMs = 0;
+    this.latencyFrames = 0;
+    const next = this.governor.update(fps, latencyMs, timestampMs);
+    if (next) this.pendingSettings = next;
+  }
 
-export async function stopPoseRunner(): Promise<void> {
-  isPaused = false;
-  if (animationId !== null) {
-    cancelAnimationFrame(animationId);
-    animationId = null;
+  /** A model that fails to load keeps the current settings; the governor stops trying it. */
+  private async applySettings(settings: PoseRunSettings): Promise<void> {
+    this.pendingSettings = null;
+    if (settings.modelComplexity !== this.runSettings.modelComplexity) {
+      try {
+        await this.backend.setModelComplexity(settings.modelComplexity);
+      } catch (err) {
+        console.warn('Pose model switch failed:', err);
+        this.governor.revertChange();
+        return;
+      }
+    }
+    this.runSettings = settings;
+    this.callbacks.onSettingsChange?.(settings);
   }
-  if (camera) {
-    try {
-      await camera.stop();
-    } catch {
-      // ignore
+
+  /** The frame at the governor's input scale; landmarks are normalized, so nothing else changes. */
+  private scaleInput(image: PoseImage | null): PoseImage | null {
+    const scale = this.runSettings.inputScale;
+    if (!image || scale >= 1) return image;
+    const size = getImageSize(image);
+    const width = Math.round(size.width * scale);
+    const height = Math.round(size.height * scale);
+    if (!width || !height) return image;
+    if (!this.scaledFrame) {
+      // The legacy backend only takes DOM canvases; the worker has no document.
+      this.scaledFrame =
+        typeof document !== 'undefined'
+          ? document.createElement('canvas')
+          : new OffscreenCanvas(width, height);
     }
-    camera = null;
+    const canvas = this.scaledFrame;
+    resizeCanvas(canvas, width, height);
+    const ctx = get2dContext(canvas);
+    if (!ctx) return image;
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas;
   }
-  if (pose) {
-    try {
-      await pose.close();
-    } catch {
-      // ignore
+
+  /** Metrics pause from the move on and continue against the moved baseline once it is steady. */
+  private handleCameraShift(event: CameraShiftEvent): void {
+    if (event.endMs == null) {
+      this.metricsSession?.discardSince(event.startMs);
+    } else if (this.metricsBaseline && this.cameraShift) {
+      this.metricsBaseline = this.cameraShift.rebaseline(this.metricsBaseline);
     }
-    pose = null;
+    this.callbacks.onCameraShift?.(event);
+  }
+
+  private updateMetrics(timestampMs: number): void {
+    const session = this.metricsSession;
+    if (!session || this.cameraShift?.moved) return;
+    if (timestampMs - this.lastSnapshotTime < METRICS_SNAPSHOT_INTERVAL_MS) return;
+    this.lastSnapshotTime = timestampMs;
+    this.callbacks.onMetricsSnapshot?.(session.getSnapshot(timestampMs), timestampMs);
+  }
+
+  /** Everything downstream (quality, calibration, tracking, overlay) sees the filtered list. */
+  private filterLandmarks(
+    raw: NormalizedLandmarkList | null,
+    timestampMs: number
+  ): NormalizedLandmarkList | null {
+    if (!raw?.length) {
+      this.landmarkFilter.reset();
+      this.jitterMeter.resetFrames();
+      return null;
+    }
+    const filtered = this.landmarkFilter.apply(raw, timestampMs);
+    this.jitterMeter.push(raw, filtered);
+    return filtered;
+  }
+}
+
+function resizeCanvas(canvas: OverlayCanvas, width: number, height: number): void {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
   }
 }
 
@@ -240,7 +557,6 @@ export function resizeCanvasToVideo(
   video: HTMLVideoElement
 ): void {
   if (video.videoWidth && video.videoHeight) {
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+    resizeCanvas(canvas, video.videoWidth, video.videoHeight);
   }
 }
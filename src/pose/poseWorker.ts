@@ -0,0 +1,17 @@
+/**
+ * RunForm PoC – Pose worker: runs a PoseRunner (inference, landmark filter, frame quality,
+ * MetricsSession) off the main thread. Frames arrive as ImageBitmaps from PoseWorkerClient;
+ * the requests are handled by poseWorkerHost.ts.
+ */
+
+import { createPoseWorkerHost } from './poseWorkerHost';
+import type { PoseWorkerRequest } from './poseWorkerMessages';
+
+// The app's TS lib is DOM only; Worker has the same postMessage/onmessage shape as the worker scope.
+const scope = self as unknown as Worker;
+
+const handleRequest = createPoseWorkerHost((message, transfer = []) =>
+  scope.postMessage(message, transfer)
+);
+
+scope.onmessage = (event: MessageEvent<PoseWorkerRequest>) => handleRequest(event.data);
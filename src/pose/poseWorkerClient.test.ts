@@ -0,0 +1,193 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { pickPoseThread } from './activePoseRunner';
+import { FakePoseBackend } from './fakePoseBackend';
+import type { PoseRunSettings } from './frameRateGovernor';
+import type { MetricsSnapshot } from './metrics';
+import type { PoseBackend } from './poseBackend';
+import type { PoseRunnerCallbacks } from './poseRunner';
+import { PoseWorkerChannel } from './poseWorkerClient';
+import { createPoseWorkerHost } from './poseWorkerHost';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './poseWorkerMessages';
+import { SYNTHETIC_BASELINE, syntheticRun, type SyntheticGait } from './syntheticRunner';
+
+const FRAME_MS = 35;
+const GAIT: SyntheticGait = { stepMs: { L: 330, R: 330 }, contactMs: { L: 250, R: 250 } };
+
+type FakeWorker = {
+  onmessage: ((event: MessageEvent<PoseWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  postMessage: (request: PoseWorkerRequest) => void;
+  terminate: () => void;
+  requests: PoseWorkerRequest['type'][];
+};
+
+/** Worker stand-in: requests go to an in-process host asynchronously, replies come back as message events. */
+function connectHost(backend: PoseBackend): FakeWorker {
+  const worker: FakeWorker = {
+    onmessage: null,
+    onerror: null,
+    postMessage: (request) => {
+      worker.requests.push(request.type);
+      queueMicrotask(() => handleRequest(request));
+    },
+    terminate: vi.fn(),
+    requests: [],
+  };
+  const handleRequest = createPoseWorkerHost(
+    (message) => worker.onmessage?.({ data: message } as MessageEvent<PoseWorkerResponse>),
+    () => backend
+  );
+  return worker;
+}
+
+function fakeImage(): ImageBitmap {
+  return { width: 480, height: 480, close: vi.fn() } as unknown as ImageBitmap;
+}
+
+function callbacks(overrides: Partial<PoseRunnerCallbacks> = {}): PoseRunnerCallbacks {
+  return {
+    onStatus: () => {},
+    onError: (message) => {
+      throw new Error(message);
+    },
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('PoseWorkerChannel with the worker host', () => {
+  it('initializes, runs frames, forwards status, settings and metrics and answers requests', async () => {
+    const frames = syntheticRun(GAIT, 12_000, FRAME_MS);
+    const worker = connectHost(new FakePoseBackend(frames.map((frame) => frame.landmarks)));
+    const statuses: boolean[] = [];
+    const settingsChanges: PoseRunSettings[] = [];
+    let snapshot: MetricsSnapshot | null = null;
+    const frameDone = vi.fn();
+    const channel = new PoseWorkerChannel(
+      worker as unknown as Worker,
+      callbacks({
+        onStatus: (_fps, poseDetected) => statuses.push(poseDetected),
+        onSettingsChange: (settings) => settingsChanges.push(settings),
+        onMetricsSnapshot: (snap) => {
+          snapshot = snap;
+        },
+      }),
+      frameDone
+    );
+
+    await channel.init('tasks', 'none');
+    channel.startTracking(SYNTHETIC_BASELINE);
+    const image = fakeImage();
+    await channel.sendFrame(image, frames[0]!.timestampMs);
+    expect(image.close).toHaveBeenCalledOnce();
+    for (const frame of frames.slice(1)) {
+      await channel.sendFrame(fakeImage(), frame.timestampMs);
+    }
+
+    // One frameDone per frame; without OffscreenCanvas the landmarks come back for main-thread drawing.
+    expect(frameDone).toHaveBeenCalledTimes(frames.length);
+    expect(frameDone.mock.calls.at(-1)![0]).toEqual({
+      type: 'frameDone',
+      overlay: null,
+      landmarks: frames.at(-1)!.landmarks,
+    });
+    expect(statuses.length).toBeGreaterThanOrEqual(10);
+    expect(statuses.slice(1).every((detected) => detected)).toBe(true);
+    // The starting settings, then (~29 fps, near-zero inference time) a step up to heavy.
+    expect(settingsChanges.slice(0, 2)).toEqual([
+      { modelComplexity: 1, inputScale: 1 },
+      { modelComplexity: 2, inputScale: 1 },
+    ]);
+    expect((snapshot as MetricsSnapshot | null)?.cadence).toBeGreaterThan(170);
+
+    const steps = await channel.getStepLog();
+    expect(steps.length).toBeGreaterThanOrEqual(28);
+    const recording = await channel.getRecording();
+    expect(recording?.frameCount).toBe(frames.length);
+    expect(recording?.tracking?.baseline).toEqual(SYNTHETIC_BASELINE);
+    expect(worker.requests.filter((type) => type === 'frame')).toHaveLength(frames.length);
+  });
+
+  it('rejects init with the worker’s error', async () => {
+    const fake = new FakePoseBackend([]);
+    const backend: PoseBackend = {
+      kind: 'fake',
+      initialize: async () => {
+        throw new Error('Model not available');
+      },
+      detect: () => fake.detect(),
+      setModelComplexity: () => fake.setModelComplexity(),
+      close: () => fake.close(),
+    };
+    const channel = new PoseWorkerChannel(
+      connectHost(backend) as unknown as Worker,
+      callbacks(),
+      () => {}
+    );
+    await expect(channel.init('tasks', 'none')).rejects.toThrow('Model not available');
+  });
+
+  it('settles open requests when closed', async () => {
+    const worker = connectHost(new FakePoseBackend([]));
+    // Never answers: the worker is gone.
+    worker.postMessage = () => {};
+    const channel = new PoseWorkerChannel(worker as unknown as Worker, callbacks(), () => {});
+    const init = channel.init('tasks', 'none');
+    const frame = channel.sendFrame(fakeImage(), 0);
+    const steps = channel.getStepLog();
+    channel.close();
+
+    await expect(init).rejects.toThrow('Pose-worker stoppet.');
+    await expect(frame).resolves.toBeUndefined();
+    await expect(steps).resolves.toEqual([]);
+    expect(worker.terminate).toHaveBeenCalledOnce();
+    await expect(channel.getRecording()).resolves.toBeNull();
+  });
+
+  it('sends landmarks instead of an overlay when OffscreenCanvas has no 2D context', async () => {
+    vi.stubGlobal(
+      'OffscreenCanvas',
+      class {
+        getContext() {
+          return null;
+        }
+      }
+    );
+    const frames = syntheticRun(GAIT, 200, FRAME_MS);
+    const frameDone = vi.fn();
+    const channel = new PoseWorkerChannel(
+      connectHost(new FakePoseBackend(frames.map((frame) => frame.landmarks))) as unknown as Worker,
+      callbacks(),
+      frameDone
+    );
+    await channel.init('tasks', 'none');
+    await channel.sendFrame(fakeImage(), 0);
+    expect(frameDone).toHaveBeenCalledWith({
+      type: 'frameDone',
+      overlay: null,
+      landmarks: frames[0]!.landmarks,
+    });
+  });
+});
+
+describe('pickPoseThread', () => {
+  it('runs the default backend in the worker where Worker and createImageBitmap exist', () => {
+    vi.stubGlobal('Worker', class {});
+    vi.stubGlobal('createImageBitmap', () => {});
+    expect(pickPoseThread('tasks')).toBe('worker');
+    expect(pickPoseThread('tasks', false)).toBe('main');
+    expect(pickPoseThread('legacy')).toBe('main');
+  });
+
+  it('falls back to the main thread without Worker or createImageBitmap', () => {
+    vi.stubGlobal('Worker', undefined);
+    vi.stubGlobal('createImageBitmap', () => {});
+    expect(pickPoseThread('tasks')).toBe('main');
+    vi.stubGlobal('Worker', class {});
+    vi.stubGlobal('createImageBitmap', undefined);
+    expect(pickPoseThread('tasks')).toBe('main');
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * RunForm PoC – Main-thread side of the pose worker.
+ * Owns the frame source (camera or video file) and overlay canvas, sends each frame as an ImageBitmap and waits for the worker
+ * before sending the next. The main thread only gets throttled status/metrics messages
+ * plus the finished overlay per frame. PoseWorkerChannel is the message protocol on its own,
+ * without camera or canvas.
+ */
+
+import type { LandmarkFilterKind } from './landmarkFilter';
+import type { LandmarkRecording } from './landmarkRecording';
+import type { MetricsBaseline, StepRecord } from './metrics';
+import {
+  CAMERA_SOURCE,
+  createFrameSource,
+  type FrameSource,
+  type PoseSource,
+} from './frameSource';
+import type { CameraPoseBackendKind } from './poseBackend';
+import {
+  drawLandmarkOverlay,
+  resizeCanvasToVideo,
+  type PoseRunnerCallbacks,
+  type PoseRunnerHandle,
+} from './poseRunner';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './poseWorkerMessages';
+import type { StrideSnapshot } from './strideKeyFrames';
+
+export function isPoseWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof createImageBitmap === 'function';
+}
+
+type FrameDoneMessage = Extract<PoseWorkerResponse, { type: 'frameDone' }>;
+
+/**
+ * Requests and replies over one worker: init handshake, one frame in flight, step log /
+ * recording / key frame requests, and the worker's callbacks forwarded to PoseRunnerCallbacks.
+ */
+export class PoseWorkerChannel {
+  private readonly worker: Worker;
+  private readonly callbacks: PoseRunnerCallbacks;
+  private readonly onFrameDone: (message: FrameDoneMessage) => void;
+  private closed = false;
+  private pendingInit: { resolve: () => void; reject: (err: Error) => void } | null = null;
+  private pendingFrame: (() => void) | null = null;
+  private pendingStepLog: ((steps: StepRecord[]) => void) | null = null;
+  private pendingRecording: ((recording: LandmarkRecording | null) => void) | null = null;
+  private pendingKeyFrames: ((snapshots: StrideSnapshot[]) => void) | null = null;
+
+  constructor(
+    worker: Worker,
+    callbacks: PoseRunnerCallbacks,
+    onFrameDone: (message: FrameDoneMessage) => void
+  ) {
+    this.worker = worker;
+    this.callbacks = callbacks;
+    this.onFrameDone = onFrameDone;
+    worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) =>
+      this.handleMessage(event.data);
+    worker.onerror = (event) => {
+      const err = new Error(event.message || 'Pose-worker kunne ikke starte.');
+      if (this.pendingInit) {
+        this.pendingInit.reject(err);
+        this.pendingInit = null;
+      } else {
+        this.callbacks.onError(err.message);
+      }
+    };
+  }
+
+  /** Resolves once the worker's runner is initialized; rejects with its error. */
+  init(backend: CameraPoseBackendKind, landmarkFilter: LandmarkFilterKind): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.pendingInit = { resolve, reject };
+      this.post({ type: 'init', backend, landmarkFilter });
+    });
+  }
+
+  /** Resolves when the worker has processed the frame. */
+  sendFrame(image: ImageBitmap, timestampMs: number): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.pendingFrame = resolve;
+      this.post({ type: 'frame', image, timestampMs }, [image]);
+    });
+  }
+
+  setLandmarkFilter(kind: LandmarkFilterKind): void {
+    this.post({ type: 'setLandmarkFilter', kind });
+  }
+
+  startTracking(baseline: MetricsBaseline): void {
+    this.post({ type: 'startTracking', baseline });
+  }
+
+  getStepLog(): Promise<StepRecord[]> {
+    if (this.closed) return Promise.resolve([]);
+    return new Promise((resolve) => {
+      this.pendingStepLog?.([]);
+      this.pendingStepLog = resolve;
+      this.post({ type: 'getStepLog' });
+    });
+  }
+
+  getRecording(): Promise<LandmarkRecording | null> {
+    if (this.closed) return Promise.resolve(null);
+    return new Promise((resolve) => {
+      this.pendingRecording?.(null);
+      this.pendingRecording = resolve;
+      this.post({ type: 'getRecording' });
+    });
+  }
+
+  getKeyFrames(): Promise<StrideSnapshot[]> {
+    if (this.closed) return Promise.resolve([]);
+    return new Promise((resolve) => {
+      this.pendingKeyFrames?.([]);
+      this.pendingKeyFrames = resolve;
+      this.post({ type: 'getKeyFrames' });
+    });
+  }
+
+  /** Terminates the worker and settles every open request. */
+  close(): void {
+    this.closed = true;
+    this.worker.terminate();
+    this.pendingInit?.reject(new Error('Pose-worker stoppet.'));
+    this.pendingInit = null;
+    this.pendingFrame?.();
+    this.pendingFrame = null;
+    this.pendingStepLog?.([]);
+    this.pendingStepLog = null;
+    this.pendingRecording?.(null);
+    this.pendingRecording = null;
+    this.pendingKeyFrames?.([]);
+    this.pendingKeyFrames = null;
+  }
+
+  private post(request: PoseWorkerRequest, transfer: Transferable[] = []): void {
+    if (!this.closed) this.worker.postMessage(request, transfer);
+  }
+
+  private handleMessage(message: PoseWorkerResponse): void {
+    switch (message.type) {
+      case 'ready':
+        this.pendingInit?.resolve();
+        this.pendingInit = null;
+        break;
+      case 'error':
+        if (this.pendingInit) {
+          this.pendingInit.reject(new Error(message.message));
+          this.pendingInit = null;
+        } else {
+          this.callbacks.onError(message.message);
+        }
+        break;
+      case 'status':
+        this.callbacks.onStatus(
+          message.fps,
+          message.poseDetected,
+          message.frameQuality,
+          message.hint
+        );
+        break;
+      case 'diagnostics':
+        this.callbacks.onDiagnostics?.(message.stats);
+        break;
+      case 'settings':
+        this.callbacks.onSettingsChange?.(message.settings);
+        break;
+      case 'calibrationFrame':
+        this.callbacks.onCalibrationFrame?.(message.data, message.timestampMs);
+        break;
+      case 'metrics':
+        this.callbacks.onMetricsSnapshot?.(message.snapshot, message.timestampMs);
+        break;
+      case 'cameraShift':
+        this.callbacks.onCameraShift?.(message.event);
+        break;
+      case 'frameDone':
+        this.onFrameDone(message);
+        this.pendingFrame?.();
+        this.pendingFrame = null;
+        break;
+      case 'stepLog':
+        this.pendingStepLog?.(message.steps);
+        this.pendingStepLog = null;
+        break;
+      case 'recording':
+        this.pendingRecording?.(message.recording);
+        this.pendingRecording = null;
+        break;
+      case 'keyFrames':
+        this.pendingKeyFrames?.(message.snapshots);
+        this.pendingKeyFrames = null;
+        break;
+    }
+  }
+}
+
+export class PoseWorkerClient implements PoseRunnerHandle {
+  readonly thread = 'worker';
+  private readonly callbacks: PoseRunnerCallbacks;
+  private readonly backendKind: CameraPoseBackendKind;
+  private landmarkFilterKind: LandmarkFilterKind;
+  private channel: PoseWorkerChannel | null = null;
+  private frameSource: FrameSource | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private isPaused = false;
+
+  constructor(
+    callbacks: PoseRunnerCallbacks,
+    backendKind: CameraPoseBackendKind,
+    landmarkFilterKind: LandmarkFilterKind
+  ) {
+    this.callbacks = callbacks;
+    this.backendKind = backendKind;
+    this.landmarkFilterKind = landmarkFilterKind;
+  }
+
+  async start(
+    video: HTMLVideoElement,
+    canvas: HTMLCanvasElement,
+    source: PoseSource = CAMERA_SOURCE
+  ): Promise<void> {
+    if (this.channel) {
+      await this.stop();
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      this.callbacks.onError('Kunne ikke hente canvas 2D context.');
+      return;
+    }
+    this.ctx = ctx;
+
+    try {
+      const worker = new Worker(new URL('./poseWorker.ts', import.meta.url), { type: 'module' });
+      const channel = new PoseWorkerChannel(worker, this.callbacks, (message) =>
+        this.drawOverlay(message)
+      );
+      this.channel = channel;
+      await channel.init(this.backendKind, this.landmarkFilterKind);
+
+      this.frameSource = createFrameSource(video, source, {
+        onFrame: async (timestampMs) => {
+          if (this.isPaused || !this.channel) return;
+          resizeCanvasToVideo(canvas, video);
+          if (video.readyState < 2) return;
+          const image = await createImageBitmap(video);
+          await channel.sendFrame(image, timestampMs);
+        },
+        onProgress: this.callbacks.onSourceProgress,
+        onEnded: this.callbacks.onSourceEnded,
+        onCamera: this.callbacks.onCamera,
+        onError: this.callbacks.onError,
+      });
+      await this.frameSource.start();
+
+      resizeCanvasToVideo(canvas, video);
+      this.callbacks.onStatus(0, false, null, null);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : 'Ukendt fejl ved start af kamera/pose.';
+      this.callbacks.onError(message);
+      await this.stop();
+    }
+  }
+
+  setLandmarkFilter(kind: LandmarkFilterKind): void {
+    this.landmarkFilterKind = kind;
+    this.channel?.setLandmarkFilter(kind);
+  }
+
+  startTracking(baseline: MetricsBaseline): void {
+    this.channel?.startTracking(baseline);
+  }
+
+  getStepLog(): Promise<StepRecord[]> {
+    return this.channel?.getStepLog() ?? Promise.resolve([]);
+  }
+
+  getRecording(): Promise<LandmarkRecording | null> {
+    return this.channel?.getRecording() ?? Promise.resolve(null);
+  }
+
+  getKeyFrames(): Promise<StrideSnapshot[]> {
+    return this.channel?.getKeyFrames() ?? Promise.resolve([]);
+  }
+
+  pause(): void {
+    this.isPaused = true;
+    this.frameSource?.pause();
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    this.frameSource?.resume();
+  }
+
+  async stop(): Promise<void> {
+    this.isPaused = false;
+    if (this.frameSource) {
+      try {
+        await this.frameSource.stop();
+      } catch {
+        // ignore
+      }
+      this.frameSource = null;
+    }
+    this.channel?.close();
+    this.channel = null;
+    this.ctx = null;
+  }
+
+  private drawOverlay(message: FrameDoneMessage): void {
+    const ctx = this.ctx;
+    if (message.overlay) {
+      if (ctx) {
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        ctx.drawImage(message.overlay, 0, 0, ctx.canvas.width, ctx.canvas.height);
+      }
+      message.overlay.close();
+    } else if (ctx) {
+      drawLandmarkOverlay(ctx, message.landmarks);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * RunForm PoC – Worker side of the pose worker protocol: one PoseRunner (inference, landmark filter,
+ * frame quality, MetricsSession) driven by PoseWorkerRequests, answering with PoseWorkerResponses.
+ * poseWorker.ts connects it to the worker scope; the overlay is drawn on an OffscreenCanvas where supported.
+ */
+
+import { createPoseBackend, type CameraPoseBackendKind, type PoseBackend } from './poseBackend';
+import { PoseRunner } from './poseRunner';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './poseWorkerMessages';
+
+export type PoseWorkerPost = (message: PoseWorkerResponse, transfer?: Transferable[]) => void;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : 'Ukendt fejl i pose-worker.';
+}
+
+/** Returns the request handler; createBackend is replaced by a FakePoseBackend in tests. */
+export function createPoseWorkerHost(
+  post: PoseWorkerPost,
+  createBackend: (kind: CameraPoseBackendKind) => PoseBackend = createPoseBackend
+): (request: PoseWorkerRequest) => void {
+  let runner: PoseRunner | null = null;
+  let overlay: OffscreenCanvas | null = null;
+
+  async function initialize(request: Extract<PoseWorkerRequest, { type: 'init' }>): Promise<void> {
+    runner = new PoseRunner(
+      {
+        onStatus: (fps, poseDetected, frameQuality, hint) =>
+          post({ type: 'status', fps, poseDetected, frameQuality, hint }),
+        onDiagnostics: (stats) => post({ type: 'diagnostics', stats }),
+        onSettingsChange: (settings) => post({ type: 'settings', settings }),
+        onCalibrationFrame: (data, timestampMs) =>
+          post({ type: 'calibrationFrame', data, timestampMs }),
+        onMetricsSnapshot: (snapshot, timestampMs) =>
+          post({ type: 'metrics', snapshot, timestampMs }),
+        onCameraShift: (event) => post({ type: 'cameraShift', event }),
+        onError: (message) => post({ type: 'error', message }),
+      },
+      createBackend(request.backend),
+      request.landmarkFilter,
+      'worker'
+    );
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(1, 1);
+      overlay = runner.attachCanvas(canvas) ? canvas : null;
+    }
+    try {
+      await runner.initialize();
+      runner.startRecording();
+      post({ type: 'ready' });
+    } catch (err) {
+      post({ type: 'error', message: errorMessage(err) });
+    }
+  }
+
+  /** Always answers with frameDone, so the client's camera loop never stalls. */
+  async function processFrame(image: ImageBitmap, timestampMs: number): Promise<void> {
+    let landmarks = null;
+    try {
+      landmarks = (await runner?.processFrame(image, timestampMs)) ?? null;
+    } catch (err) {
+      console.warn('Pose worker frame failed:', err);
+    } finally {
+      image.close();
+    }
+    if (overlay && landmarks) {
+      const bitmap = overlay.transferToImageBitmap();
+      post({ type: 'frameDone', overlay: bitmap, landmarks: null }, [bitmap]);
+    } else {
+      post({ type: 'frameDone', overlay: null, landmarks: overlay ? null : landmarks });
+    }
+  }
+
+  return (request) => {
+    switch (request.type) {
+      case 'init':
+        void initialize(request);
+        break;
+      case 'frame':
+        void processFrame(request.image, request.timestampMs);
+        break;
+      case 'setLandmarkFilter':
+        runner?.setLandmarkFilter(request.kind);
+        break;
+      case 'startTracking':
+        runner?.startTracking(request.baseline);
+        break;
+      case 'getStepLog':
+        void (runner?.getStepLog() ?? Promise.resolve([])).then((steps) =>
+          post({ type: 'stepLog', steps })
+        );
+        break;
+      case 'getRecording':
+        void (runner?.getRecording() ?? Promise.resolve(null)).then((recording) =>
+          post({ type: 'recording', recording })
+        );
+        break;
+      case 'getKeyFrames':
+        void (runner?.getKeyFrames() ?? Promise.resolve([])).then((snapshots) =>
+          post({ type: 'keyFrames', snapshots })
+        );
+        break;
+    }
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * RunForm PoC – Messages between PoseWorkerClient (main thread) and poseWorker.ts.
+ */
+
+import type { NormalizedLandmarkList } from '@mediapipe/pose';
+import type { CameraShiftEvent } from './cameraShift';
+import type { FrameQualityHint } from './frameQuality';
+import type { PoseRunSettings } from './frameRateGovernor';
+import type { LandmarkFilterKind, LandmarkJitterStats } from './landmarkFilter';
+import type { LandmarkRecording } from './landmarkRecording';
+import type { MetricsBaseline, MetricsSnapshot, StepRecord } from './metrics';
+import type { CameraPoseBackendKind } from './poseBackend';
+import type { CalibrationFramePayload } from './poseRunner';
+import type { StrideSnapshot } from './strideKeyFrames';
+
+/** Main thread → worker. */
+export type PoseWorkerRequest =
+  | { type: 'init'; backend: CameraPoseBackendKind; landmarkFilter: LandmarkFilterKind }
+  /** image is transferred; the worker closes it. */
+  | { type: 'frame'; image: ImageBitmap; timestampMs: number }
+  | { type: 'setLandmarkFilter'; kind: LandmarkFilterKind }
+  | { type: 'startTracking'; baseline: MetricsBaseline }
+  | { type: 'getStepLog' }
+  | { type: 'getRecording' }
+  | { type: 'getKeyFrames' };
+
+/** Worker → main thread. */
+export type PoseWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | {
+      type: 'status';
+      fps: number;
+      poseDetected: boolean;
+      frameQuality: number | null;
+      hint: FrameQualityHint | null;
+    }
+  | { type: 'diagnostics'; stats: LandmarkJitterStats }
+  | { type: 'settings'; settings: PoseRunSettings }
+  | { type: 'calibrationFrame'; data: CalibrationFramePayload; timestampMs: number }
+  | { type: 'metrics'; snapshot: MetricsSnapshot; timestampMs: number }
+  | { type: 'cameraShift'; event: CameraShiftEvent }
+  /**
+   * Sent after every frame. overlay = skeleton drawn on an OffscreenCanvas (transferred);
+   * without OffscreenCanvas the landmarks come back for drawing on the main thread.
+   * Both null = no pose (the last overlay stays).
+   */
+  | {
+      type: 'frameDone';
+      overlay: ImageBitmap | null;
+      landmarks: NormalizedLandmarkList | null;
+    }
+  | { type: 'stepLog'; steps: StepRecord[] }
+  | { type: 'recording'; recording: LandmarkRecording | null }
+  | { type: 'keyFrames'; snapshots: StrideSnapshot[] };
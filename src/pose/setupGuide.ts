@@ -0,0 +1,132 @@
+/**
+ * RunForm PoC – Camera setup guide before calibration: a target box on the preview and live
+ * distance, centring and camera-tilt checks from the standing pose (see getSetupFraming).
+ * Setup is ready when the frame is good enough for calibration and every check has passed
+ * for SETUP_READY_MS in a row.
+ */
+
+import type { SetupFraming } from './frameQuality';
+
+/** feetHidden = no ankle / heel / toe visible, usually too close or the camera points too high. */
+export type SetupDistance = 'ok' | 'tooClose' | 'tooFar' | 'feetHidden';
+/** Where the body is off centre, in image x (the preview may be mirrored). */
+export type SetupCentring = 'ok' | 'towardMinX' | 'towardMaxX';
+export type SetupTilt = 'ok' | 'tilted' | 'unknown';
+
+export type SetupCheck = {
+  distance: SetupDistance;
+  centring: SetupCentring;
+  tilt: SetupTilt;
+  /** Frame quality and hip/shoulder visibility good enough for calibration. */
+  qualityOk: boolean;
+  ok: boolean;
+};
+
+/** Target zone in normalized image units: head and feet inside, body centred. */
+export const SETUP_TARGET = { top: 0.06, bottom: 0.94, centerX: 0.5 } as const;
+export const SETUP_READY_MS = 3000;
+
+/** Head to feet below this share of the frame height is too far away for stable landmarks. */
+const MIN_BODY_HEIGHT = 0.55;
+/** Head or feet closer to the frame edge than this are cut off while running. */
+const EDGE_MARGIN = 0.02;
+const CENTRE_TOLERANCE = 0.12;
+const MAX_TILT_DEG = 5;
+/** Pose frames further apart than this (body lost) restart the ready countdown. */
+const MAX_FRAME_GAP_MS = 500;
+/** Target box width per unit of its height, roughly a standing body with arms down. */
+const TARGET_WIDTH_RATIO = 0.35;
+
+const READY_COLOR = '#22c55e';
+const ADJUST_COLOR = '#f59e0b';
+const TARGET_COLOR = 'rgba(255, 255, 255, 0.8)';
+
+export function checkSetupFraming(framing: SetupFraming, qualityOk: boolean): SetupCheck {
+  let distance: SetupDistance = 'ok';
+  if (framing.bottom == null) {
+    distance = 'feetHidden';
+  } else if (framing.top < EDGE_MARGIN || framing.bottom > 1 - EDGE_MARGIN) {
+    distance = 'tooClose';
+  } else if (framing.bottom - framing.top < MIN_BODY_HEIGHT) {
+    distance = 'tooFar';
+  }
+
+  const offset = framing.centerX - SETUP_TARGET.centerX;
+  const centring: SetupCentring =
+    Math.abs(offset) <= CENTRE_TOLERANCE ? 'ok' : offset < 0 ? 'towardMinX' : 'towardMaxX';
+
+  const tilt: SetupTilt =
+    framing.tiltDeg == null
+      ? 'unknown'
+      : Math.abs(framing.tiltDeg) <= MAX_TILT_DEG
+        ? 'ok'
+        : 'tilted';
+
+  return {
+    distance,
+    centring,
+    tilt,
+    qualityOk,
+    ok: qualityOk && distance === 'ok' && centring === 'ok' && tilt !== 'tilted',
+  };
+}
+
+/** How long (ms, frame timestamps) the setup checks have passed without a break. */
+export class SetupReadiness {
+  private okSince: number | null = null;
+  private lastFrameTime = -Infinity;
+
+  update(ok: boolean, timestampMs: number): number {
+    if (!ok || timestampMs - this.lastFrameTime > MAX_FRAME_GAP_MS) this.okSince = null;
+    this.lastFrameTime = timestampMs;
+    if (!ok) return 0;
+    if (this.okSince == null) this.okSince = timestampMs;
+    return timestampMs - this.okSince;
+  }
+
+  reset(): void {
+    this.okSince = null;
+    this.lastFrameTime = -Infinity;
+  }
+}
+
+function strokeBox(
+  ctx: CanvasRenderingContext2D,
+  centerX: number,
+  top: number,
+  bottom: number
+): void {
+  const height = bottom - top;
+  const width = height * TARGET_WIDTH_RATIO;
+  const headRadius = width * 0.3;
+  ctx.beginPath();
+  ctx.arc(centerX, top + headRadius, headRadius, 0, Math.PI * 2);
+  ctx.roundRect(centerX - width / 2, top + headRadius * 2, width, height - headRadius * 2, 8);
+  ctx.stroke();
+}
+
+/**
+ * Target silhouette (dashed) and the body's current position on a canvas at frame size;
+ * the body is green when every check passes. Pass null framing while no body is seen.
+ */
+export function drawSetupGuide(
+  ctx: CanvasRenderingContext2D,
+  framing: SetupFraming | null,
+  check: SetupCheck | null
+): void {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+  ctx.lineWidth = Math.max(2, height / 200);
+
+  ctx.setLineDash([10, 8]);
+  ctx.strokeStyle = TARGET_COLOR;
+  strokeBox(ctx, SETUP_TARGET.centerX * width, SETUP_TARGET.top * height, SETUP_TARGET.bottom * height);
+
+  if (framing) {
+    ctx.setLineDash([]);
+    ctx.strokeStyle = check?.ok ? READY_COLOR : ADJUST_COLOR;
+    strokeBox(ctx, framing.centerX * width, framing.top * height, (framing.bottom ?? 1) * height);
+  }
+  ctx.restore();
+}
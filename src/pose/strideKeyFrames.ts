@@ -0,0 +1,252 @@
+/**
+ * RunForm PoC – Key frames at stride events: still frames with the skeleton drawn at initial
+ * contact, midstance (stance foot closest to under the hip) and toe-off of each leg.
+ * Every stance is scored by frame quality × ankle visibility; the best stance per leg is kept per
+ * time bucket (buckets widen as the session grows), and finish() returns the best stance per leg
+ * from the start, middle and end of the session for the summary filmstrip.
+ */
+
+import type { LegContactEvent } from './metrics';
+import type { FrameSize, TrackingFramePayload } from './poseRunner';
+
+export type StrideEventKind = 'initialContact' | 'midstance' | 'toeOff';
+export type SessionSegment = 'start' | 'middle' | 'end';
+
+export type StrideKeyFrame = {
+  event: StrideEventKind;
+  /** JPEG, camera frame with the skeleton overlay. */
+  image: Blob;
+};
+
+/** One stance of one leg, as key frames. */
+export type StrideSnapshot = {
+  segment: SessionSegment;
+  leg: 'L' | 'R';
+  /** Initial contact (ms, frame timestamps). */
+  t: number;
+  /** Stance score 0–100 (frame quality × ankle visibility). */
+  quality: number;
+  frames: StrideKeyFrame[];
+};
+
+/** What a tracking frame looked like; null when there is no image (replay). */
+export type KeyFrameImage = {
+  image: CanvasImageSource;
+  /** Skeleton drawn for this frame, at frame size; null = no overlay. */
+  overlay: CanvasImageSource | null;
+  size: FrameSize;
+};
+
+type LegSide = 'L' | 'R';
+type KeyFrameCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+const KEY_FRAME_WIDTH = 320;
+const JPEG_QUALITY = 0.8;
+const INITIAL_BUCKET_MS = 5_000;
+/** Bucket width doubles (neighbours merged) whenever the session outgrows this many. */
+const MAX_BUCKETS = 24;
+/** Stances scoring below this are not worth a picture. */
+const MIN_STANCE_QUALITY = 50;
+const SEGMENTS: SessionSegment[] = ['start', 'middle', 'end'];
+const EVENT_ORDER: StrideEventKind[] = ['initialContact', 'midstance', 'toeOff'];
+
+type OpenStance = {
+  t: number;
+  qualitySum: number;
+  frameCount: number;
+  /** Horizontal ankle–hip distance of the midstance frame so far. */
+  midDistance: number;
+  captured: Set<StrideEventKind>;
+};
+
+type Candidate = {
+  leg: LegSide;
+  t: number;
+  quality: number;
+  /** Encoded when the stance became a bucket's best; null if encoding failed. */
+  frames: Promise<StrideKeyFrame[] | null>;
+};
+
+function createCanvas(): KeyFrameCanvas | null {
+  // The worker has no document.
+  if (typeof document !== 'undefined') return document.createElement('canvas');
+  return typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : null;
+}
+
+function get2dContext(
+  canvas: KeyFrameCanvas
+): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+  return 'convertToBlob' in canvas
+    ? canvas.getContext('2d')
+    : (canvas as HTMLCanvasElement).getContext('2d');
+}
+
+/** Both take a copy of the bitmap synchronously, so the canvas can be redrawn right away. */
+function encodeJpeg(canvas: KeyFrameCanvas): Promise<Blob | null> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+  }
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+}
+
+export class StrideKeyFrameCollector {
+  private startMs: number | null = null;
+  private lastMs = 0;
+  private bucketMs = INITIAL_BUCKET_MS;
+  private buckets = new Map<number, Record<LegSide, Candidate | null>>();
+  private stances: Record<LegSide, OpenStance | null> = { L: null, R: null };
+  /** Per leg, one canvas per event of the open stance; reused for every stance. */
+  private canvases: Record<LegSide, Map<StrideEventKind, KeyFrameCanvas>> = {
+    L: new Map(),
+    R: new Map(),
+  };
+
+  /** One tracking frame, after the overlay has been drawn. */
+  update(
+    events: LegContactEvent[],
+    track: TrackingFramePayload,
+    frameQuality: number,
+    timestampMs: number,
+    frame: KeyFrameImage | null
+  ): void {
+    if (this.startMs == null) this.startMs = timestampMs;
+    this.lastMs = timestampMs;
+
+    for (const side of ['L', 'R'] as const) {
+      const event = events.find((e) => e.leg === side);
+      const leg = track.legs[side];
+      if (event?.event === 'initialContact') {
+        this.stances[side] = {
+          t: timestampMs,
+          qualitySum: 0,
+          frameCount: 0,
+          midDistance: Infinity,
+          captured: new Set(),
+        };
+      }
+      const stance = this.stances[side];
+      if (!stance) continue;
+      stance.qualitySum += frameQuality * (leg?.ankleVis ?? 0);
+      stance.frameCount += 1;
+
+      if (event?.event === 'initialContact') {
+        this.capture(side, 'initialContact', frame);
+      } else if (event?.event === 'toeOff') {
+        this.capture(side, 'toeOff', frame);
+        this.stances[side] = null;
+        if (event.contactMs != null) this.closeStance(side, stance);
+      } else if (leg) {
+        const distance = Math.abs(leg.landmarks.ankle.x - track.midHip.x);
+        if (distance < stance.midDistance) {
+          stance.midDistance = distance;
+          this.capture(side, 'midstance', frame);
+        }
+      }
+    }
+  }
+
+  /** Best stance per leg from each third of the session (in time order). */
+  async finish(): Promise<StrideSnapshot[]> {
+    const startMs = this.startMs;
+    if (startMs == null) return [];
+    const segmentMs = Math.max(1, (this.lastMs - startMs) / SEGMENTS.length);
+    const candidates = [...this.buckets.values()].flatMap((legs) =>
+      [legs.L, legs.R].filter((c): c is Candidate => c != null)
+    );
+
+    const snapshots: StrideSnapshot[] = [];
+    for (const [index, segment] of SEGMENTS.entries()) {
+      for (const side of ['L', 'R'] as const) {
+        const best = candidates
+          .filter(
+            (c) =>
+              c.leg === side &&
+              Math.min(SEGMENTS.length - 1, Math.floor((c.t - startMs) / segmentMs)) === index
+          )
+          .sort((a, b) => b.quality - a.quality)[0];
+        const frames = best ? await best.frames : null;
+        if (best && frames) {
+          snapshots.push({ segment, leg: side, t: best.t, quality: best.quality, frames });
+        }
+      }
+    }
+    return snapshots.sort((a, b) => a.t - b.t);
+  }
+
+  /** Draws the frame and its skeleton into the leg's canvas for this event. */
+  private capture(side: LegSide, event: StrideEventKind, frame: KeyFrameImage | null): void {
+    const stance = this.stances[side];
+    if (!frame || !stance || !frame.size.width || !frame.size.height) return;
+    let canvas = this.canvases[side].get(event);
+    if (!canvas) {
+      const created = createCanvas();
+      if (!created) return;
+      canvas = created;
+      this.canvases[side].set(event, canvas);
+    }
+    const ctx = get2dContext(canvas);
+    if (!ctx) return;
+    const width = KEY_FRAME_WIDTH;
+    const height = Math.round((KEY_FRAME_WIDTH * frame.size.height) / frame.size.width);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    ctx.drawImage(frame.image, 0, 0, width, height);
+    if (frame.overlay) ctx.drawImage(frame.overlay, 0, 0, width, height);
+    stance.captured.add(event);
+  }
+
+  /** Keeps the stance if it is its bucket's best for this leg. */
+  private closeStance(side: LegSide, stance: OpenStance): void {
+    if (EVENT_ORDER.some((event) => !stance.captured.has(event)) || stance.frameCount === 0) return;
+    const quality = Math.round(stance.qualitySum / stance.frameCount);
+    if (quality < MIN_STANCE_QUALITY) return;
+
+    let index = this.bucketIndex(stance.t);
+    while (index >= MAX_BUCKETS) {
+      this.mergeBuckets();
+      index = this.bucketIndex(stance.t);
+    }
+    const bucket = this.buckets.get(index) ?? { L: null, R: null };
+    const current = bucket[side];
+    if (current && current.quality >= quality) return;
+
+    const canvases = this.canvases[side];
+    bucket[side] = {
+      leg: side,
+      t: stance.t,
+      quality,
+      frames: Promise.all(
+        EVENT_ORDER.map(async (event) => {
+          const image = await encodeJpeg(canvases.get(event)!);
+          return image ? { event, image } : null;
+        })
+      ).then((frames) =>
+        frames.every((f) => f != null) ? (frames as StrideKeyFrame[]) : null
+      ),
+    };
+    this.buckets.set(index, bucket);
+  }
+
+  private bucketIndex(t: number): number {
+    return Math.floor((t - (this.startMs ?? t)) / this.bucketMs);
+  }
+
+  /** Doubles the bucket width; each pair of buckets keeps its best stance per leg. */
+  private mergeBuckets(): void {
+    this.bucketMs *= 2;
+    const merged = new Map<number, Record<LegSide, Candidate | null>>();
+    for (const legs of this.buckets.values()) {
+      for (const candidate of [legs.L, legs.R]) {
+        if (!candidate) continue;
+        const index = this.bucketIndex(candidate.t);
+        const bucket = merged.get(index) ?? { L: null, R: null };
+        const current = bucket[candidate.leg];
+        if (!current || candidate.quality > current.quality) bucket[candidate.leg] = candidate;
+        merged.set(index, bucket);
+      }
+    }
+    this.buckets = merged;
+  }
+}
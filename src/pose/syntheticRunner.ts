@@ -0,0 +1,156 @@
+/**
+ * RunForm PoC – Synthetic side-view runner for tests: BlazePose landmarks from a scripted gait
+ * (step and contact time per leg), so contact, flight and stride events are known exactly.
+ * Feed the frames to FakePoseBackend or, through getTrackingFrameData, to MetricsSession.
+ */
+
+import {
+  POSE_LANDMARKS,
+  POSE_LANDMARKS_LEFT,
+  POSE_LANDMARKS_RIGHT,
+  type NormalizedLandmark,
+  type NormalizedLandmarkList,
+} from '@mediapipe/pose'
+import type { MetricsBaseline } from './metrics'
+
+export type SyntheticGait = {
+  /** Initial contact of the other foot → this foot's initial contact (ms). */
+  stepMs: { L: number; R: number }
+  /** Initial contact → toe-off (ms). */
+  contactMs: { L: number; R: number }
+  /** Ankle ahead of the hip at initial contact, cycled per stride (image-height units). */
+  reach?: readonly number[]
+}
+
+/** The camera moved at atMs: everything shifts by dx, dy and scales by scale around the hip. */
+export type SyntheticCameraMove = { atMs: number; dx: number; dy: number; scale?: number }
+
+export type SyntheticFrame = { timestampMs: number; landmarks: NormalizedLandmarkList }
+
+const HIP = { x: 0.5, y: 0.5 }
+const SHOULDER = { x: 0.53, y: 0.2 }
+const THIGH_LENGTH = 0.23
+const SHANK_LENGTH = 0.23
+const GROUND_Y = 0.92
+const FOOT_LIFT = 0.12
+const TOE_OFF_BEHIND = 0.12
+const HIP_BOUNCE = 0.012
+const VISIBILITY = 0.99
+
+/** Standing baseline matching the synthetic runner (side view, no cm scale). */
+export const SYNTHETIC_BASELINE: MetricsBaseline = {
+  hipY: HIP.y,
+  trunkLeanDeg: 0,
+  legLength: THIGH_LENGTH + SHANK_LENGTH,
+  view: 'side',
+  cmPerUnit: null,
+}
+
+type Point = { x: number; y: number }
+
+/** Left initial contacts at 0, T, 2T…; right ones stepMs.R later. */
+function strideMs(gait: SyntheticGait): number {
+  return gait.stepMs.L + gait.stepMs.R
+}
+
+function ankleAt(gait: SyntheticGait, side: 'L' | 'R', timestampMs: number, hip: Point): Point {
+  const stride = strideMs(gait)
+  const since = timestampMs - (side === 'L' ? 0 : gait.stepMs.R)
+  const strideIndex = Math.floor(since / stride)
+  const tau = since - strideIndex * stride
+  const reaches = gait.reach ?? [0.1]
+  const reach = reaches[((strideIndex % reaches.length) + reaches.length) % reaches.length]!
+  const nextReach = reaches[(((strideIndex + 1) % reaches.length) + reaches.length) % reaches.length]!
+  const contact = gait.contactMs[side]
+  if (tau < contact) {
+    return { x: hip.x + reach - (reach + TOE_OFF_BEHIND) * (tau / contact), y: GROUND_Y }
+  }
+  // Swing: the foot leaves and lands steeply, so contact edges are sharp.
+  const p = (tau - contact) / (stride - contact)
+  return {
+    x: hip.x - TOE_OFF_BEHIND + (nextReach + TOE_OFF_BEHIND) * ((1 - Math.cos(Math.PI * p)) / 2),
+    y: GROUND_Y - FOOT_LIFT * Math.min(1, 4 * Math.sin(Math.PI * p)),
+  }
+}
+
+/** Two-segment leg with the knee bent forward (+x, the running direction). */
+function kneeAt(hip: Point, ankle: Point): Point {
+  const dx = ankle.x - hip.x
+  const dy = ankle.y - hip.y
+  const d = Math.min(Math.hypot(dx, dy), THIGH_LENGTH + SHANK_LENGTH - 1e-6)
+  const ux = dx / Math.hypot(dx, dy)
+  const uy = dy / Math.hypot(dx, dy)
+  const h = Math.sqrt(THIGH_LENGTH ** 2 - (d / 2) ** 2)
+  return { x: hip.x + (ux * d) / 2 + uy * h, y: hip.y + (uy * d) / 2 - ux * h }
+}
+
+/** 33 landmarks of the runner at timestampMs (facing +x). */
+export function syntheticRunnerFrame(
+  gait: SyntheticGait,
+  timestampMs: number,
+  cameraMove: SyntheticCameraMove | null = null
+): NormalizedLandmarkList {
+  const meanStepMs = strideMs(gait) / 2
+  const hip = {
+    x: HIP.x,
+    y: HIP.y + HIP_BOUNCE * Math.cos((2 * Math.PI * timestampMs) / meanStepMs),
+  }
+  const shoulder = { x: SHOULDER.x, y: SHOULDER.y + (hip.y - HIP.y) }
+  const points: Point[] = Array.from({ length: 33 }, () => ({ x: shoulder.x + 0.03, y: 0.12 }))
+  const set = (index: number, point: Point) => {
+    points[index] = point
+  }
+
+  set(POSE_LANDMARKS.NOSE, { x: shoulder.x + 0.03, y: shoulder.y - 0.08 })
+  set(POSE_LANDMARKS.LEFT_EAR, { x: shoulder.x - 0.01, y: shoulder.y - 0.07 })
+  set(POSE_LANDMARKS.RIGHT_EAR, { x: shoulder.x - 0.01, y: shoulder.y - 0.07 })
+  for (const side of ['L', 'R'] as const) {
+    const left = side === 'L'
+    const ankle = ankleAt(gait, side, timestampMs, hip)
+    set(left ? POSE_LANDMARKS.LEFT_SHOULDER : POSE_LANDMARKS.RIGHT_SHOULDER, shoulder)
+    set(left ? POSE_LANDMARKS.LEFT_ELBOW : POSE_LANDMARKS.RIGHT_ELBOW, {
+      x: shoulder.x,
+      y: shoulder.y + 0.13,
+    })
+    set(left ? POSE_LANDMARKS.LEFT_WRIST : POSE_LANDMARKS.RIGHT_WRIST, {
+      x: shoulder.x + 0.1,
+      y: shoulder.y + 0.15,
+    })
+    set(left ? POSE_LANDMARKS.LEFT_HIP : POSE_LANDMARKS.RIGHT_HIP, hip)
+    set(left ? POSE_LANDMARKS_LEFT.LEFT_KNEE : POSE_LANDMARKS_RIGHT.RIGHT_KNEE, kneeAt(hip, ankle))
+    set(left ? POSE_LANDMARKS_LEFT.LEFT_ANKLE : POSE_LANDMARKS_RIGHT.RIGHT_ANKLE, ankle)
+    set(left ? POSE_LANDMARKS_LEFT.LEFT_HEEL : POSE_LANDMARKS_RIGHT.RIGHT_HEEL, {
+      x: ankle.x - 0.02,
+      y: ankle.y + 0.02,
+    })
+    set(left ? POSE_LANDMARKS_LEFT.LEFT_FOOT_INDEX : POSE_LANDMARKS_RIGHT.RIGHT_FOOT_INDEX, {
+      x: ankle.x + 0.05,
+      y: ankle.y + 0.02,
+    })
+  }
+
+  const move = cameraMove && timestampMs >= cameraMove.atMs ? cameraMove : null
+  return points.map((p): NormalizedLandmark => {
+    const scale = move?.scale ?? 1
+    return {
+      x: move ? HIP.x + (p.x - HIP.x) * scale + move.dx : p.x,
+      y: move ? HIP.y + (p.y - HIP.y) * scale + move.dy : p.y,
+      z: 0,
+      visibility: VISIBILITY,
+    }
+  })
+}
+
+/** Frames every frameMs over [0, durationMs). */
+export function syntheticRun(
+  gait: SyntheticGait,
+  durationMs: number,
+  frameMs: number,
+  cameraMove: SyntheticCameraMove | null = null
+): SyntheticFrame[] {
+  const frames: SyntheticFrame[] = []
+  for (let t = 0; t < durationMs; t += frameMs) {
+    frames.push({ timestampMs: t, landmarks: syntheticRunnerFrame(gait, t, cameraMove) })
+  }
+  return frames
+}
@@ -0,0 +1,64 @@
+/**
+ * Løberprofil – gemmes i localStorage. Højde bruges til at omregne VO til cm.
+ */
+
+const PROFILE_STORAGE_KEY = 'runform-poc-profile'
+
+/** Plausible body height range (cm) accepted from the profile form. */
+export const HEIGHT_MIN_CM = 100
+export const HEIGHT_MAX_CM = 230
+
+/**
+ * Nose → heel as a share of standing height. The top of the head is not a landmark;
+ * anthropometric tables put nose height at ≈ 0.92 of stature.
+ */
+const NOSE_TO_HEEL_STATURE_RATIO = 0.92
+
+export type RunnerProfile = {
+  /** Body height (cm); null = not entered, VO stays relative only. */
+  heightCm: number | null
+}
+
+export function loadProfile(): RunnerProfile {
+  try {
+    const raw = localStorage.getItem(PROFILE_STORAGE_KEY)
+    if (!raw) return { heightCm: null }
+    const parsed = JSON.parse(raw) as Partial<RunnerProfile>
+    return {
+      heightCm: isValidHeight(parsed.heightCm) ? parsed.heightCm : null,
+    }
+  } catch {
+    return { heightCm: null }
+  }
+}
+
+export function saveProfile(profile: RunnerProfile): void {
+  try {
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile))
+  } catch {
+    // ignore
+  }
+}
+
+export function isValidHeight(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= HEIGHT_MIN_CM &&
+    value <= HEIGHT_MAX_CM
+  )
+}
+
+/**
+ * Centimetres per image-height unit from the standing calibration pose.
+ * standingHeight = nose → heel in image-height units (see getCalibrationFrameData).
+ */
+export function computeCmPerUnit(
+  standingHeight: number | null,
+  heightCm: number | null
+): number | null {
+  if (standingHeight == null || standingHeight <= 0 || !isValidHeight(heightCm)) {
+    return null
+  }
+  return (heightCm * NOSE_TO_HEEL_STATURE_RATIO) / standingHeight
+}
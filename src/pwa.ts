@@ -0,0 +1,134 @@
+/**
+ * PWA – service worker registration (offline) and install prompt.
+ * The service worker only exists in production builds (see pwa/offlinePlugin.ts);
+ * in dev, offline stays 'unsupported'.
+ */
+
+export type OfflineState = 'unsupported' | 'installing' | 'ready' | 'error'
+
+export type PwaStatus = {
+  /** ready = app shell and pose model cached; sessions can start without network. */
+  offline: OfflineState
+  /** A new version is installed and waits for applyUpdate(). */
+  updateAvailable: boolean
+  /** Browser offered an install prompt (Chrome/Edge/Android); see promptInstall(). */
+  installable: boolean
+  /** Running as installed app (standalone window). */
+  installed: boolean
+}
+
+type BeforeInstallPromptEvent = Event & {
+  prompt(): Promise<void>
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>
+}
+
+/** Long-running tabs (phone on the treadmill) check for a new version this often. */
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+let status: PwaStatus = {
+  offline: 'unsupported',
+  updateAvailable: false,
+  installable: false,
+  installed: false,
+}
+const listeners = new Set<(status: PwaStatus) => void>()
+let installPrompt: BeforeInstallPromptEvent | null = null
+let waitingWorker: ServiceWorker | null = null
+
+function setStatus(patch: Partial<PwaStatus>): void {
+  status = { ...status, ...patch }
+  listeners.forEach((listener) => listener(status))
+}
+
+export function getPwaStatus(): PwaStatus {
+  return status
+}
+
+/** Calls listener on every change; returns unsubscribe. */
+export function subscribePwaStatus(listener: (status: PwaStatus) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function trackRegistration(registration: ServiceWorkerRegistration): void {
+  const hadController = navigator.serviceWorker.controller != null
+  if (registration.waiting && hadController) {
+    waitingWorker = registration.waiting
+    setStatus({ updateAvailable: true })
+  }
+  if (registration.active) {
+    setStatus({ offline: 'ready' })
+  } else {
+    setStatus({ offline: 'installing' })
+  }
+
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing
+    if (!worker) return
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+        waitingWorker = worker
+        setStatus({ updateAvailable: true })
+      } else if (worker.state === 'activated' && !hadController) {
+        setStatus({ offline: 'ready' })
+      } else if (worker.state === 'redundant' && !registration.active) {
+        setStatus({ offline: 'error' })
+      }
+    })
+  })
+
+  setInterval(() => {
+    registration.update().catch(() => {
+      // offline – try again next interval
+    })
+  }, UPDATE_CHECK_INTERVAL_MS)
+}
+
+/** Call once at startup (main.tsx). */
+export function registerServiceWorker(): void {
+  if (typeof window === 'undefined') return
+  setStatus({ installed: window.matchMedia('(display-mode: standalone)').matches })
+
+  window.addEventListener('beforeinstallprompt', (e) => {
+    e.preventDefault()
+    installPrompt = e as BeforeInstallPromptEvent
+    setStatus({ installable: true })
+  })
+  window.addEventListener('appinstalled', () => {
+    installPrompt = null
+    setStatus({ installable: false, installed: true })
+  })
+
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .then(trackRegistration)
+      .catch((e) => {
+        console.warn('Service worker registration failed:', e)
+        setStatus({ offline: 'error' })
+      })
+  })
+}
+
+/** Show the browser's install dialog. Returns true if the user accepted. */
+export async function promptInstall(): Promise<boolean> {
+  const prompt = installPrompt
+  if (!prompt) return false
+  installPrompt = null
+  setStatus({ installable: false })
+  await prompt.prompt()
+  const { outcome } = await prompt.userChoice
+  return outcome === 'accepted'
+}
+
+/** Activate the waiting version and reload once it controls the page. */
+export function applyUpdate(): void {
+  if (!waitingWorker) return
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), {
+    once: true,
+  })
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' })
+}
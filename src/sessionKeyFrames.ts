@@ -0,0 +1,58 @@
+/**
+ * RunForm PoC – Stride key frames of a session (see pose/strideKeyFrames.ts), stored in
+ * IndexedDB next to the session: a handful of annotated stills for the summary filmstrip.
+ */
+
+import type { StrideSnapshot } from './pose/strideKeyFrames'
+import { withMediaStore } from './sessionMediaStore'
+
+export type StoredSessionKeyFrames = {
+  sessionId: string
+  snapshots: StrideSnapshot[]
+  savedAt: number
+}
+
+export async function saveSessionKeyFrames(keyFrames: StoredSessionKeyFrames): Promise<void> {
+  try {
+    await withMediaStore('keyFrames', 'readwrite', (store) => store.put(keyFrames))
+  } catch (e) {
+    console.warn('Saving key frames failed:', e)
+  }
+}
+
+export async function loadSessionKeyFrames(sessionId: string): Promise<StrideSnapshot[]> {
+  try {
+    const stored = await withMediaStore<StoredSessionKeyFrames | undefined>(
+      'keyFrames',
+      'readonly',
+      (store) => store.get(sessionId)
+    )
+    return stored?.snapshots ?? []
+  } catch (e) {
+    console.warn('Loading key frames failed:', e)
+    return []
+  }
+}
+
+export async function deleteSessionKeyFrames(sessionId: string): Promise<void> {
+  try {
+    await withMediaStore('keyFrames', 'readwrite', (store) => store.delete(sessionId))
+  } catch (e) {
+    console.warn('Deleting key frames failed:', e)
+  }
+}
+
+/** Drops key frames of sessions no longer in history (a few hundred KB each). */
+export async function pruneSessionKeyFrames(sessionIds: string[]): Promise<void> {
+  try {
+    const storedIds = await withMediaStore<IDBValidKey[]>('keyFrames', 'readonly', (store) =>
+      store.getAllKeys()
+    )
+    const known = new Set(sessionIds)
+    for (const id of storedIds) {
+      if (typeof id === 'string' && !known.has(id)) await deleteSessionKeyFrames(id)
+    }
+  } catch (e) {
+    console.warn('Pruning key frames failed:', e)
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * RunForm PoC – IndexedDB for session media too large for localStorage: session videos
+ * (sessionVideo.ts) and stride key frames (sessionKeyFrames.ts), keyed by session id.
+ */
+
+/** Named when it held videos only; kept so stored videos survive. */
+const DB_NAME = 'runform-poc-videos'
+const DB_VERSION = 2
+
+export type SessionMediaStoreName = 'videos' | 'keyFrames'
+const STORE_NAMES: SessionMediaStoreName[] = ['videos', 'keyFrames']
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of STORE_NAMES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'sessionId' })
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** One request in its own transaction; the database is closed again afterwards. */
+export async function withMediaStore<T>(
+  storeName: SessionMediaStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { computeSummary, generateInsights, type SessionSample } from './sessionSummary'
+
+function sample(t: number, fps: number): SessionSample {
+  return {
+    t,
+    cadence: 170,
+    cadenceConfidence: 1,
+    voProxy: 0.05,
+    voCm: null,
+    quality: 90,
+    contactTimeMs: 0,
+    flightTimeMs: 0,
+    dutyFactor: 0,
+    kneeFlexionAtContact: null,
+    peakKneeFlexionSwing: null,
+    hipExtensionAtToeOff: null,
+    trunkLeanDeg: 0,
+    overstrideIndex: null,
+    elbowAngleDeg: null,
+    armSwingAmplitudeL: null,
+    armSwingAmplitudeR: null,
+    armSwingSymmetry: null,
+    armCrossoverShare: null,
+    pelvicDropDeg: null,
+    kneeValgusDeg: null,
+    fps,
+    modelComplexity: 1,
+    inputScale: 1,
+  }
+}
+
+/** Half the samples at 12 fps – well past the share that costs a reliability level. */
+const SLOW_SAMPLES = Array.from({ length: 10 }, (_, i) => sample(i * 1000, i % 2 === 0 ? 12 : 30))
+
+describe('computeSummary', () => {
+  it('drops a reliability level when the camera session ran below the step detection rate', () => {
+    const summary = computeSummary(SLOW_SAMPLES, 0, 10000, 10, 10)
+    expect(summary.lowFpsShare).toBe(0.5)
+    expect(summary.reliability).toBe('Medium')
+    expect(generateInsights(summary, []).some((line) => line.includes('billeder/sek'))).toBe(true)
+  })
+
+  it('skips the frame rate penalty for video files', () => {
+    const summary = computeSummary(SLOW_SAMPLES, 0, 10000, 10, 10, [], undefined, true)
+    expect(summary.lowFpsShare).toBeUndefined()
+    expect(summary.poseFpsAvg).toBe(21)
+    expect(summary.reliability).toBe('High')
+    expect(generateInsights(summary, []).some((line) => line.includes('billeder/sek'))).toBe(false)
+  })
+})
@@ -2,11 +2,70 @@
  * RunForm PoC – Session summary computation and insights (Fase D).
  */
 
+import type { CalibrationReport } from './pose/calibration'
+import type { CameraView } from './pose/frameQuality'
+import { STEP_DETECTION_MIN_FPS } from './pose/frameRateGovernor'
+import {
+  getOccludedMetricReliability,
+  OCCLUSION_MIN_HIDDEN_SHARE,
+  summarizeLandmarkVisibility,
+  type BodyJoint,
+  type JointVisibilitySummary,
+  type LandmarkVisibility,
+  type Reliability,
+} from './pose/landmarkVisibility'
+import type { ModelComplexity } from './pose/poseBackend'
+import {
+  isMetricValidForView,
+  symmetryIndex,
+  type MetricKey,
+  type StepRecord,
+} from './pose/metrics'
+
 export type SessionSample = {
   t: number
   cadence: number
+  /** 0–1 confidence of the cadence estimate; weights cadenceAvg. */
+  cadenceConfidence: number
   voProxy: number
+  /** VO in cm; null without profile height. */
+  voCm: number | null
   quality: number
+  /** Avg ground contact time (ms); 0 = no strides detected. */
+  contactTimeMs: number
+  flightTimeMs: number
+  dutyFactor: number
+  /** Per-stride joint angles (°), avg over last 10s; null = no strides. */
+  kneeFlexionAtContact: number | null
+  peakKneeFlexionSwing: number | null
+  hipExtensionAtToeOff: number | null
+  /** Trunk lean (°) vs standing baseline. */
+  trunkLeanDeg: number
+  /** Avg overstride index over last 10s; null = no steps / no leg length. */
+  overstrideIndex: number | null
+  /** Arm swing over last 3s; null = arms not visible (crossover: not frontal). */
+  elbowAngleDeg: number | null
+  armSwingAmplitudeL: number | null
+  armSwingAmplitudeR: number | null
+  armSwingSymmetry: number | null
+  armCrossoverShare: number | null
+  /** Avg stance peaks over last 10s (frontal view only). */
+  pelvicDropDeg: number | null
+  kneeValgusDeg: number | null
+  /** Pose frames per second and the governor's settings at this sample. */
+  fps: number
+  modelComplexity: ModelComplexity
+  inputScale: number
+  /** Position (ms) in the session video; missing when the session is not recorded. */
+  videoTimeMs?: number
+  /** Visible share per joint since the previous sample. */
+  landmarkVisibility?: LandmarkVisibility
+}
+
+export type MinAvgMax = {
+  min: number
+  avg: number
+  max: number
 }
 
 export type SessionSummary = {
@@ -18,9 +77,14 @@ export type SessionSummary = {
   cadenceAvg: number
   cadenceMin: number
   cadenceMax: number
+  /** Mean cadence confidence (0–1). Missing on older sessions. */
+  cadenceConfidenceAvg?: number
   stabilityStdDev: number
   voMedian: number
   voPeak: number
+  /** VO median / peak in cm. Missing without profile height (and on older sessions). */
+  voMedianCm?: number
+  voPeakCm?: number
   qualityAvg: number
   qualityMin: number
   reliability: 'High' | 'Medium' | 'Low'
@@ -30,6 +94,123 @@ export type SessionSummary = {
   cadenceSamples?: number[]
   /** Quality per sample (for sparkline). */
   qualitySamples?: number[]
+  /** VO proxy per sample (for sparkline). Missing on older sessions. */
+  voSamples?: number[]
+  /** A session video was recorded (sessionVideo.ts); it may since have been pruned from storage. */
+  hasVideo?: boolean
+  /** Stride key frames were stored (sessionKeyFrames.ts). */
+  hasKeyFrames?: boolean
+  /** Ground contact time (ms). Missing on sessions saved before contact detection. */
+  contactTimeAvg?: number
+  contactTimeMin?: number
+  contactTimeMax?: number
+  /** Flight time per step (ms). */
+  flightTimeAvg?: number
+  /** Contact time / stride time (0–1). */
+  dutyFactorAvg?: number
+  /** Contact time per sample (for sparkline); null = no strides yet. Older sessions skip those. */
+  contactTimeSamples?: (number | null)[]
+  /** Joint angles (°) per stride. Missing on older sessions or without strides. */
+  kneeFlexionAtContact?: MinAvgMax
+  /** Positive = dorsiflexion (toes up), negative = plantarflexion at landing. */
+  ankleDorsiflexionAtContact?: MinAvgMax
+  peakKneeFlexionSwing?: MinAvgMax
+  hipExtensionAtToeOff?: MinAvgMax
+  /** Trunk lean (°) vs standing baseline. Missing on older sessions. */
+  trunkLeanAvg?: number
+  trunkLeanMax?: number
+  /** Last third minus first third of the session (°). Positive = leaning more forward over time. */
+  trunkLeanDrift?: number
+  /** Trunk lean per sample (for sparkline). */
+  trunkLeanSamples?: number[]
+  /** Heel ahead of hip at initial contact / leg length. Missing without calibrated leg length. */
+  overstrideIndexAvg?: number
+  /** Share of steps (0–1) with overstride index above OVERSTRIDE_INDEX_THRESHOLD. */
+  overstrideShare?: number
+  /** Overstride index per step. */
+  overstrideSteps?: number[]
+  /** Per-leg step values. Missing on sessions saved before left/right tracking. */
+  legs?: { L: LegSummary; R: LegSummary }
+  /** Symmetry index (%) left vs right; missing until both legs have steps. */
+  stepTimeSymmetry?: number
+  contactTimeSymmetry?: number
+  /** Arm swing. Missing on older sessions or when arms were not visible. */
+  elbowAngleAvg?: number
+  /** Upper-arm swing range (°) per arm. */
+  armSwingAmplitude?: { L: number | null; R: number | null }
+  /** Symmetry index (%) of left vs right swing range. */
+  armSwingSymmetry?: number
+  /** Share of frames (0–1) with a wrist across the body midline (frontal view only). */
+  armCrossoverShare?: number
+  /** Peak contralateral pelvic drop (°) per stance. Frontal view only. */
+  pelvicDrop?: MinAvgMax
+  pelvicDropSteps?: number[]
+  /** Peak knee valgus (°, knee medial of hip–ankle line) per stance. Frontal view only. */
+  kneeValgus?: MinAvgMax
+  kneeValgusSteps?: number[]
+  /** Camera view found in calibration; metrics invalid for it are left out. Missing on older sessions. */
+  cameraView?: CameraView
+  /** Calibration quality report. Missing on older sessions. */
+  calibration?: CalibrationReport
+  /** Camera moves during tracking; metrics were paused for each (see cameraShift.ts). */
+  cameraShifts?: CameraShiftGap[]
+  /** Pose frame rate and model settings chosen by the governor. Missing on older sessions. */
+  poseFpsAvg?: number
+  /** Share of samples (0–1) below STEP_DETECTION_MIN_FPS. Missing for video files, see computeSummary. */
+  lowFpsShare?: number
+  /** Mean model complexity (0 lite – 2 heavy) and input scale (0.5–1) over the session. */
+  modelComplexityAvg?: number
+  inputScaleAvg?: number
+  /** File name when the session was analyzed from an uploaded video instead of the live camera. */
+  sourceFile?: string
+  /** Per-joint visibility over the session. Missing on older sessions. */
+  landmarkVisibility?: JointVisibilitySummary[]
+  /** Metrics below the session reliability because a joint they need was often hidden. */
+  metricReliability?: Partial<Record<MetricKey, Reliability>>
+}
+
+/** Seconds from tracking start; rebaselined = false when the session ended before it was steady. */
+export type CameraShiftGap = {
+  atSec: number
+  durationSec: number
+  rebaselined: boolean
+}
+
+export type LegSummary = {
+  steps: number
+  /** Avg time (ms) from the other foot's initial contact to this one's. */
+  stepTimeAvg: number | null
+  contactTimeAvg: number | null
+}
+
+/** Symmetry index (%) above this is called out in insights and the asymmetry card. */
+export const ASYMMETRY_THRESHOLD_PCT = 10
+
+/** Elbow angle above this (°) = fairly straight arms. */
+const ELBOW_ANGLE_STRAIGHT_DEG = 120
+/** Arm swing is more variable than legs; a larger symmetry index is tolerated. */
+const ARM_ASYMMETRY_THRESHOLD_PCT = 25
+/** Crossover share above this is called out. */
+const ARM_CROSSOVER_SHARE = 0.3
+
+/** Avg peak pelvic drop (°) above this is called out. */
+export const PELVIC_DROP_THRESHOLD_DEG = 6
+/** Avg peak knee valgus (°) above this is called out. */
+export const KNEE_VALGUS_THRESHOLD_DEG = 10
+
+/** Overstride index above this counts as overstriding (foot lands far ahead of hip). */
+export const OVERSTRIDE_INDEX_THRESHOLD = 0.3
+
+/** Danish joint names for the visibility table and insights. */
+export const JOINT_LABEL: Record<BodyJoint, string> = {
+  shoulder: 'Skulder',
+  elbow: 'Albue',
+  wrist: 'Håndled',
+  hip: 'Hofte',
+  knee: 'Knæ',
+  ankle: 'Ankel',
+  heel: 'Hæl',
+  footIndex: 'Tå',
 }
 
 function mean(arr: number[]): number {
@@ -37,6 +218,20 @@ function mean(arr: number[]): number {
   return arr.reduce((a, b) => a + b, 0) / arr.length
 }
 
+/** Low-confidence samples still count a little, so a session never averages to nothing. */
+const CADENCE_MIN_WEIGHT = 0.1
+
+/** Reliability drops a level when more than this share of samples ran below STEP_DETECTION_MIN_FPS. */
+const LOW_FPS_MAX_SHARE = 0.25
+/** High reliability needs the full/heavy model at full resolution for most of the session. */
+const REDUCED_SETTINGS_MAX_SHARE = 0.5
+
+function weightedMean(values: number[], weights: number[]): number {
+  const total = weights.reduce((a, b) => a + b, 0)
+  if (total === 0) return mean(values)
+  return values.reduce((s, v, i) => s + v * weights[i]!, 0) / total
+}
+
 function stddev(arr: number[]): number {
   if (arr.length < 2) return 0
   const m = mean(arr)
@@ -53,6 +248,32 @@ function median(arr: number[]): number {
     : sorted[mid]!
 }
 
+function minAvgMax(arr: number[]): MinAvgMax | undefined {
+  if (arr.length === 0) return undefined
+  const round = (v: number) => Math.round(v * 10) / 10
+  return {
+    min: round(Math.min(...arr)),
+    avg: round(mean(arr)),
+    max: round(Math.max(...arr)),
+  }
+}
+
+function nonNull(arr: (number | null)[]): number[] {
+  return arr.filter((v): v is number => v != null)
+}
+
+function summarizeLeg(steps: StepRecord[], side: 'L' | 'R'): LegSummary {
+  const legSteps = steps.filter((st) => st.leg === side)
+  const stepTimes = nonNull(legSteps.map((st) => st.stepTimeMs))
+  const contactTimes = nonNull(legSteps.map((st) => st.contactMs))
+  return {
+    steps: legSteps.length,
+    stepTimeAvg: stepTimes.length > 0 ? Math.round(mean(stepTimes)) : null,
+    contactTimeAvg:
+      contactTimes.length > 0 ? Math.round(mean(contactTimes)) : null,
+  }
+}
+
 function percentile(arr: number[], p: number): number {
   if (arr.length === 0) return 0
   const sorted = [...arr].sort((a, b) => a - b)
@@ -65,16 +286,34 @@ export function computeSummary(
   _startTimeMs: number,
   _endTimeMs: number,
   totalDurationSec: number,
-  activeDurationSec: number
+  activeDurationSec: number,
+  steps: StepRecord[] = [],
+  cameraView?: CameraView,
+  fromFile = false
 ): Omit<SessionSummary, 'id' | 'dateISO' | 'insights' | 'note'> {
   const durationSec = activeDurationSec
-  const cadenceValues = samples.map((s) => s.cadence).filter((v) => v >= 0)
+  const valid = (metric: MetricKey) =>
+    cameraView == null || isMetricValidForView(metric, cameraView)
+  const jointAngles = valid('jointAngles')
+  const trunkLean = valid('trunkLean')
+  const overstride = valid('overstride')
+  const cadenceSamples = samples.filter((s) => s.cadence >= 0)
+  const cadenceValues = cadenceSamples.map((s) => s.cadence)
+  const cadenceWeights = cadenceSamples.map((s) =>
+    Math.max(CADENCE_MIN_WEIGHT, s.cadenceConfidence)
+  )
   const voValues = samples.map((s) => s.voProxy).filter((v) => v >= 0)
   const qualityValues = samples.map((s) => s.quality).filter((v) => v >= 0)
+  const contactValues = nonNull(steps.map((st) => st.contactMs))
+  const flightValues = nonNull(steps.map((st) => st.flightMs))
+  const dutyValues = samples.filter((s) => s.contactTimeMs > 0).map((s) => s.dutyFactor)
 
   const cadenceAvg = cadenceValues.length
-    ? Math.round(mean(cadenceValues) * 10) / 10
+    ? Math.round(weightedMean(cadenceValues, cadenceWeights) * 10) / 10
     : 0
+  const cadenceConfidenceAvg = cadenceSamples.length
+    ? Math.round(mean(cadenceSamples.map((s) => s.cadenceConfidence)) * 100) / 100
+    : undefined
   const cadenceMin =
     cadenceValues.length > 0 ? Math.round(Math.min(...cadenceValues) * 10) / 10 : 0
   const cadenceMax =
@@ -87,15 +326,119 @@ export function computeSummary(
     voValues.length > 0 ? Math.round(median(voValues) * 1000) / 1000 : 0
   const voPeak =
     voValues.length > 0 ? Math.round(Math.max(...voValues) * 1000) / 1000 : 0
+  const voCmValues = nonNull(samples.map((s) => s.voCm))
+  const voMedianCm =
+    voCmValues.length > 0 ? Math.round(median(voCmValues) * 10) / 10 : undefined
+  const voPeakCm =
+    voCmValues.length > 0 ? Math.round(Math.max(...voCmValues) * 10) / 10 : undefined
   const qualityAvg = qualityValues.length
     ? Math.round(mean(qualityValues) * 10) / 10
     : 0
   const qualityMin =
     qualityValues.length > 0 ? Math.round(Math.min(...qualityValues) * 10) / 10 : 0
 
+  const contactTimeAvg = Math.round(mean(contactValues))
+  const contactTimeMin =
+    contactValues.length > 0 ? Math.round(Math.min(...contactValues)) : 0
+  const contactTimeMax =
+    contactValues.length > 0 ? Math.round(Math.max(...contactValues)) : 0
+  const flightTimeAvg = Math.round(mean(flightValues))
+  const dutyFactorAvg = Math.round(mean(dutyValues) * 100) / 100
+
+  const kneeFlexionAtContact = minAvgMax(nonNull(steps.map((st) => st.kneeFlexionAtContact)))
+  const ankleDorsiflexionAtContact = minAvgMax(
+    nonNull(steps.map((st) => st.ankleDorsiflexionAtContact))
+  )
+  const peakKneeFlexionSwing = minAvgMax(nonNull(steps.map((st) => st.peakKneeFlexionSwing)))
+  const hipExtensionAtToeOff = minAvgMax(nonNull(steps.map((st) => st.hipExtensionAtToeOff)))
+
+  const leanValues = samples.map((s) => s.trunkLeanDeg)
+  const third = Math.floor(leanValues.length / 3)
+  const trunkLeanAvg = Math.round(mean(leanValues) * 10) / 10
+  const trunkLeanMax =
+    leanValues.length > 0 ? Math.round(Math.max(...leanValues) * 10) / 10 : 0
+  const trunkLeanDrift =
+    third > 0
+      ? Math.round(
+          (mean(leanValues.slice(-third)) - mean(leanValues.slice(0, third))) * 10
+        ) / 10
+      : 0
+
+  const overstrideSteps = nonNull(steps.map((st) => st.overstrideIndex))
+  const overstrideIndexAvg =
+    overstrideSteps.length > 0
+      ? Math.round(mean(overstrideSteps) * 100) / 100
+      : undefined
+  const overstrideShare =
+    overstrideSteps.length > 0
+      ? Math.round(
+          (overstrideSteps.filter((v) => v > OVERSTRIDE_INDEX_THRESHOLD).length /
+            overstrideSteps.length) *
+            100
+        ) / 100
+      : undefined
+
+  const legs = { L: summarizeLeg(steps, 'L'), R: summarizeLeg(steps, 'R') }
+  const stepTimeSymmetry =
+    legs.L.stepTimeAvg != null && legs.R.stepTimeAvg != null
+      ? symmetryIndex(legs.L.stepTimeAvg, legs.R.stepTimeAvg) ?? undefined
+      : undefined
+  const contactTimeSymmetry =
+    legs.L.contactTimeAvg != null && legs.R.contactTimeAvg != null
+      ? symmetryIndex(legs.L.contactTimeAvg, legs.R.contactTimeAvg) ?? undefined
+      : undefined
+
+  const roundedAvg = (arr: (number | null)[], factor = 1) => {
+    const values = nonNull(arr)
+    return values.length > 0
+      ? Math.round(mean(values) * factor) / factor
+      : undefined
+  }
+  const elbowAngleAvg = roundedAvg(samples.map((s) => s.elbowAngleDeg))
+  const armAmplitudeL = roundedAvg(samples.map((s) => s.armSwingAmplitudeL))
+  const armAmplitudeR = roundedAvg(samples.map((s) => s.armSwingAmplitudeR))
+  const armSwingSymmetry = roundedAvg(
+    samples.map((s) => s.armSwingSymmetry),
+    10
+  )
+  const armCrossoverShare = roundedAvg(
+    samples.map((s) => s.armCrossoverShare),
+    100
+  )
+
+  const pelvicDropSteps = nonNull(steps.map((st) => st.pelvicDropDeg))
+  const kneeValgusSteps = nonNull(steps.map((st) => st.kneeValgusDeg))
+
+  const fpsValues = samples.map((s) => s.fps).filter((v) => v > 0)
+  const poseFpsAvg = fpsValues.length > 0 ? Math.round(mean(fpsValues)) : undefined
+  // Video files are stepped frame by frame at a fixed video-time rate, so their fps is always the
+  // sample rate and slow processing only makes the analysis take longer – no contacts are missed.
+  const lowFpsShare =
+    fpsValues.length > 0 && !fromFile
+      ? Math.round(
+          (fpsValues.filter((v) => v < STEP_DETECTION_MIN_FPS).length / fpsValues.length) * 100
+        ) / 100
+      : undefined
+  const reducedShare =
+    samples.length > 0
+      ? samples.filter((s) => s.modelComplexity === 0 || s.inputScale < 1).length /
+        samples.length
+      : 0
+
   let reliability: 'High' | 'Medium' | 'Low' = 'Low'
   if (qualityAvg >= 75 && qualityMin >= 55) reliability = 'High'
   else if (qualityAvg >= 60) reliability = 'Medium'
+  // Too few frames per step misses contacts; the lite model / downscaled input is less precise.
+  if ((lowFpsShare ?? 0) > LOW_FPS_MAX_SHARE) {
+    reliability = reliability === 'High' ? 'Medium' : 'Low'
+  } else if (reducedShare > REDUCED_SETTINGS_MAX_SHARE && reliability === 'High') {
+    reliability = 'Medium'
+  }
+
+  const landmarkVisibility = summarizeLandmarkVisibility(
+    samples.map((s) => s.landmarkVisibility)
+  )
+  const metricReliability = getOccludedMetricReliability(landmarkVisibility, reliability, valid)
 
   return {
     durationSec,
@@ -104,15 +447,63 @@ export function computeSummary(
     cadenceAvg,
     cadenceMin,
     cadenceMax,
+    cadenceConfidenceAvg,
     stabilityStdDev,
     voMedian,
     voPeak,
+    voMedianCm,
+    voPeakCm,
     qualityAvg,
     qualityMin,
     reliability,
+    contactTimeAvg,
+    contactTimeMin,
+    contactTimeMax,
+    flightTimeAvg,
+    dutyFactorAvg,
+    kneeFlexionAtContact: jointAngles ? kneeFlexionAtContact : undefined,
+    ankleDorsiflexionAtContact: jointAngles ? ankleDorsiflexionAtContact : undefined,
+    peakKneeFlexionSwing: jointAngles ? peakKneeFlexionSwing : undefined,
+    hipExtensionAtToeOff: jointAngles ? hipExtensionAtToeOff : undefined,
+    trunkLeanAvg: trunkLean ? trunkLeanAvg : undefined,
+    trunkLeanMax: trunkLean ? trunkLeanMax : undefined,
+    trunkLeanDrift: trunkLean ? trunkLeanDrift : undefined,
+    overstrideIndexAvg: overstride ? overstrideIndexAvg : undefined,
+    overstrideShare: overstride ? overstrideShare : undefined,
+    overstrideSteps:
+      overstride && overstrideSteps.length > 0 ? overstrideSteps : undefined,
+    legs: steps.length > 0 ? legs : undefined,
+    stepTimeSymmetry,
+    contactTimeSymmetry,
+    elbowAngleAvg,
+    armSwingAmplitude:
+      armAmplitudeL != null || armAmplitudeR != null
+        ? { L: armAmplitudeL ?? null, R: armAmplitudeR ?? null }
+        : undefined,
+    armSwingSymmetry,
+    armCrossoverShare: valid('armCrossover') ? armCrossoverShare : undefined,
+    pelvicDrop: valid('pelvicDrop') ? minAvgMax(pelvicDropSteps) : undefined,
+    pelvicDropSteps:
+      valid('pelvicDrop') && pelvicDropSteps.length > 0 ? pelvicDropSteps : undefined,
+    kneeValgus: valid('kneeValgus') ? minAvgMax(kneeValgusSteps) : undefined,
+    kneeValgusSteps:
+      valid('kneeValgus') && kneeValgusSteps.length > 0 ? kneeValgusSteps : undefined,
+    cameraView,
+    poseFpsAvg,
+    lowFpsShare,
+    modelComplexityAvg: roundedAvg(samples.map((s) => s.modelComplexity), 10),
+    inputScaleAvg: roundedAvg(samples.map((s) => s.inputScale), 100),
+    landmarkVisibility: landmarkVisibility.length > 0 ? landmarkVisibility : undefined,
+    metricReliability:
+      Object.keys(metricReliability).length > 0 ? metricReliability : undefined,
   }
 }
 
+/** Forward lean (° vs standing) above this is called out as excessive. */
+const TRUNK_LEAN_EXCESSIVE_DEG = 12
+/** Lean increase from first to last third of the session that triggers an insight. */
+const TRUNK_LEAN_DRIFT_DEG = 4
+
 export function generateInsights(
   s: Omit<SessionSummary, 'id' | 'dateISO' | 'insights' | 'note'>,
   voValues: number[]
@@ -124,15 +515,45 @@ export function generateInsights(
       'Prøv næste gang med mere lys og hele kroppen synlig i billedet.'
     )
   }
+  if ((s.lowFpsShare ?? 0) > LOW_FPS_MAX_SHARE && s.poseFpsAvg != null) {
+    lines.push(
+      `Telefonen nåede kun ${s.poseFpsAvg} billeder/sek i snit, så korte skridt kan være misset. Luk andre apps eller sæt telefonen til strøm.`
+    )
+  }
+  const occluded = (s.landmarkVisibility ?? [])
+    .filter((j) => 1 - j.visibleShare >= OCCLUSION_MIN_HIDDEN_SHARE)
+    .sort((a, b) => a.visibleShare - b.visibleShare)[0]
+  if (occluded && s.metricReliability) {
+    const side = occluded.key.endsWith('L') ? 'Venstre' : 'Højre'
+    const joint = JOINT_LABEL[occluded.key.slice(0, -1) as BodyJoint].toLowerCase()
+    lines.push(
+      `${side} ${joint} var skjult i ${Math.round((1 - occluded.visibleShare) * 100)}% af billederne${occluded.recurring ? ' (i mange skridt)' : ''}. Mål der bruger den er markeret som mindre sikre – flyt kameraet, så intet dækker.`
+    )
+  }
+  const asymmetry = Math.max(s.stepTimeSymmetry ?? 0, s.contactTimeSymmetry ?? 0)
+  if (asymmetry > ASYMMETRY_THRESHOLD_PCT) {
+    lines.push(
+      `Der var ${Math.round(asymmetry)}% forskel mellem venstre og højre ben. Hold øje med udviklingen fra session til session.`
+    )
+  }
   if (s.stabilityStdDev <= 3 && s.cadenceAvg > 0) {
     lines.push('Du holdt en jævn rytme.')
   }
   if (s.stabilityStdDev > 6 && s.cadenceAvg > 0) {
     lines.push('Du kan eksperimentere med en mere jævn kadence næste gang.')
   }
-  if (s.cadenceAvg > 0 && s.cadenceAvg < 155) {
+  const overstriding =
+    s.overstrideIndexAvg != null &&
+    s.overstrideIndexAvg > OVERSTRIDE_INDEX_THRESHOLD
+  if (overstriding) {
+    lines.push(
+      'Du overstrider: foden lander et stykke foran hoften. Prøv at lande med foden tættere under kroppen.'
+    )
+  } else if (s.cadenceAvg > 0 && s.cadenceAvg < 155) {
     lines.push(
-      'Du kan eksperimentere med lidt kortere skridt for at øge kadencen.'
+      s.overstrideIndexAvg != null
+        ? 'Foden lander tæt under kroppen. Du kan eksperimentere med en lidt hurtigere rytme for at øge kadencen.'
+        : 'Du kan eksperimentere med lidt kortere skridt for at øge kadencen.'
     )
   }
   if (s.cadenceAvg > 175) {
@@ -140,6 +561,38 @@ export function generateInsights(
       'Høj kadence – godt hvis det føles afslappet og stabilt.'
     )
   }
+  if ((s.trunkLeanAvg ?? 0) > TRUNK_LEAN_EXCESSIVE_DEG) {
+    lines.push(
+      'Du lænede dig en del mere frem end når du står – prøv at løbe mere oprejst.'
+    )
+  } else if ((s.trunkLeanDrift ?? 0) > TRUNK_LEAN_DRIFT_DEG) {
+    lines.push(
+      'Overkroppen lænede mere frem sidst i sessionen – prøv at holde holdningen, når du bliver træt.'
+    )
+  }
+  if ((s.pelvicDrop?.avg ?? 0) > PELVIC_DROP_THRESHOLD_DEG) {
+    lines.push(
+      'Hoften faldt en del ned i modsatte side, når du stod på ét ben. Styrke i hofte og sæde kan hjælpe.'
+    )
+  }
+  if ((s.kneeValgus?.avg ?? 0) > KNEE_VALGUS_THRESHOLD_DEG) {
+    lines.push(
+      'Knæet bevægede sig indad i landingen. Prøv at holde knæet over foden.'
+    )
+  }
+  if ((s.armCrossoverShare ?? 0) > ARM_CROSSOVER_SHARE) {
+    lines.push(
+      'Armene krydsede kroppens midtlinje. Prøv at svinge dem mere frem og tilbage.'
+    )
+  } else if ((s.elbowAngleAvg ?? 0) > ELBOW_ANGLE_STRAIGHT_DEG) {
+    lines.push(
+      'Armene var ret strakte. Prøv en vinkel omkring 90° i albuen.'
+    )
+  } else if ((s.armSwingSymmetry ?? 0) > ARM_ASYMMETRY_THRESHOLD_PCT) {
+    lines.push(
+      'Armsvinget var forskelligt i venstre og højre side.'
+    )
+  }
   const voP70 = voValues.length > 0 ? percentile(voValues, 70) : 0
   const voHigh = voValues.length > 0 && s.voMedian > voP70
   if (voHigh) {
@@ -241,5 +694,7 @@ export function createEmptySummary(totalDurationSec = 0, activeDurationSec = 0):
     note: '',
     cadenceSamples: [],
     qualitySamples: [],
+    contactTimeSamples: [],
+    trunkLeanSamples: [],
   }
 }
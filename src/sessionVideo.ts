@@ -0,0 +1,200 @@
+/**
+ * RunForm PoC – Session video: camera feed with the skeleton overlay burned in (MediaRecorder),
+ * recorded while tracking and stored locally in IndexedDB next to the session.
+ * Each session sample knows its position in the video, so the summary can link video and charts.
+ */
+
+import { withMediaStore } from './sessionMediaStore'
+
+const RECORDING_FPS = 30
+/** ~4.5 MB per minute at 640×480. */
+const VIDEO_BITS_PER_SECOND = 600_000
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4']
+
+/** Videos are large; only the newest sessions keep theirs. */
+const MAX_STORED_VIDEOS = 5
+
+export type StoredSessionVideo = {
+  sessionId: string
+  blob: Blob
+  mimeType: string
+  /** Position (ms) in the video of each session sample (same order as cadenceSamples). */
+  sampleVideoTimesMs: number[]
+  savedAt: number
+}
+
+function pickMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+export function isSessionVideoSupported(): boolean {
+  return (
+    pickMimeType() != null &&
+    typeof indexedDB !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype
+  )
+}
+
+/** Draws video + overlay into its own canvas every animation frame and records that canvas. */
+export class SessionVideoRecorder {
+  private readonly video: HTMLVideoElement
+  private readonly overlay: HTMLCanvasElement
+  private readonly mirrored: boolean
+  private readonly canvas = document.createElement('canvas')
+  private recorder: MediaRecorder | null = null
+  private stream: MediaStream | null = null
+  private chunks: Blob[] = []
+  private frameHandle = 0
+  private startedAt = 0
+  private pausedAt: number | null = null
+  private pausedMs = 0
+  readonly mimeType: string | null = pickMimeType()
+
+  /** mirrored: record what the user saw (mirrored preview of user-facing cameras). */
+  constructor(video: HTMLVideoElement, overlay: HTMLCanvasElement, mirrored: boolean) {
+    this.video = video
+    this.overlay = overlay
+    this.mirrored = mirrored
+  }
+
+  /** Returns false where recording is not supported. */
+  start(): boolean {
+    if (!this.mimeType || !('captureStream' in this.canvas)) return false
+    this.canvas.width = this.video.videoWidth || 640
+    this.canvas.height = this.video.videoHeight || 480
+    this.drawFrame()
+    try {
+      this.stream = this.canvas.captureStream(RECORDING_FPS)
+      this.recorder = new MediaRecorder(this.stream, {
+        mimeType: this.mimeType,
+        videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+      })
+    } catch (e) {
+      console.warn('Session video recording failed to start:', e)
+      cancelAnimationFrame(this.frameHandle)
+      return false
+    }
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data)
+    }
+    this.recorder.start(1000)
+    this.startedAt = performance.now()
+    return true
+  }
+
+  /** Current position in the recording (ms); pauses are not part of the video. */
+  get currentTimeMs(): number {
+    if (!this.recorder) return 0
+    const now = this.pausedAt ?? performance.now()
+    return Math.max(0, now - this.startedAt - this.pausedMs)
+  }
+
+  pause(): void {
+    if (this.recorder?.state !== 'recording') return
+    this.recorder.pause()
+    this.pausedAt = performance.now()
+  }
+
+  resume(): void {
+    if (this.recorder?.state !== 'paused') return
+    this.recorder.resume()
+    if (this.pausedAt != null) this.pausedMs += performance.now() - this.pausedAt
+    this.pausedAt = null
+  }
+
+  /** Finishes the file; null if nothing was recorded. */
+  stop(): Promise<Blob | null> {
+    cancelAnimationFrame(this.frameHandle)
+    const recorder = this.recorder
+    this.recorder = null
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(null)
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        this.stream?.getTracks().forEach((track) => track.stop())
+        this.stream = null
+        resolve(this.chunks.length > 0 ? new Blob(this.chunks, { type: this.mimeType ?? '' }) : null)
+        this.chunks = []
+      }
+      recorder.stop()
+    })
+  }
+
+  private drawFrame = (): void => {
+    const ctx = this.canvas.getContext('2d')
+    if (ctx && this.video.readyState >= 2) {
+      const { width, height } = this.canvas
+      ctx.save()
+      if (this.mirrored) ctx.setTransform(-1, 0, 0, 1, width, 0)
+      ctx.drawImage(this.video, 0, 0, width, height)
+      ctx.drawImage(this.overlay, 0, 0, width, height)
+      ctx.restore()
+    }
+    this.frameHandle = requestAnimationFrame(this.drawFrame)
+  }
+}
+
+/** Index of the last sample at or before timeMs (0 before the first). */
+export function sampleIndexAtVideoTime(sampleVideoTimesMs: number[], timeMs: number): number {
+  let lo = 0
+  let hi = sampleVideoTimesMs.length - 1
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (sampleVideoTimesMs[mid]! <= timeMs) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+export async function saveSessionVideo(video: StoredSessionVideo): Promise<void> {
+  try {
+    await withMediaStore('videos', 'readwrite', (store) => store.put(video))
+  } catch (e) {
+    console.warn('Saving session video failed:', e)
+  }
+}
+
+export async function loadSessionVideo(sessionId: string): Promise<StoredSessionVideo | null> {
+  try {
+    const video = await withMediaStore<StoredSessionVideo | undefined>(
+      'videos',
+      'readonly',
+      (store) => store.get(sessionId)
+    )
+    return video ?? null
+  } catch (e) {
+    console.warn('Loading session video failed:', e)
+    return null
+  }
+}
+
+export async function deleteSessionVideo(sessionId: string): Promise<void> {
+  try {
+    await withMediaStore('videos', 'readwrite', (store) => store.delete(sessionId))
+  } catch (e) {
+    console.warn('Deleting session video failed:', e)
+  }
+}
+
+/** Drops videos of sessions no longer in history and all but the newest MAX_STORED_VIDEOS. */
+export async function pruneSessionVideos(sessionIds: string[]): Promise<void> {
+  try {
+    const videos = await withMediaStore<StoredSessionVideo[]>('videos', 'readonly', (store) =>
+      store.getAll()
+    )
+    const known = new Set(sessionIds)
+    const kept = new Set(
+      videos
+        .filter((v) => known.has(v.sessionId))
+        .sort((a, b) => b.savedAt - a.savedAt)
+        .slice(0, MAX_STORED_VIDEOS)
+        .map((v) => v.sessionId)
+    )
+    for (const v of videos) {
+      if (!kept.has(v.sessionId)) await deleteSessionVideo(v.sessionId)
+    }
+  } catch (e) {
+    console.warn('Pruning session videos failed:', e)
+  }
+}
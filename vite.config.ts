@@ -1,7 +1,10 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { offlinePlugin } from './pwa/offlinePlugin'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), offlinePlugin()],
+  // The pose worker lazy-loads MediaPipe Tasks, which needs code splitting (not available in iife).
+  worker: { format: 'es' },
 })
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Tests cover the pose pipeline and the offline plugin's asset list, so the plugins of
+// vite.config.ts stay out.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'pwa/**/*.test.ts'],
+    environment: 'node',
+  },
+})